@@ -0,0 +1,28 @@
+#!/usr/bin/env node
+
+/**
+ * Analysis worker for Node worker_threads
+ *
+ * Speaks the same protocol as the app's Web Workers (src/lib/workers/protocol.ts),
+ * so batch jobs can use the same pool. Run the parent with tsx so that the
+ * TypeScript sources load in the worker too:
+ *
+ *   import { Worker } from 'worker_threads';
+ *   import { createWorkerPool, nodeWorkerPort } from '../src/lib/workers/pool.ts';
+ *
+ *   const workerUrl = new URL('./analysis-worker.js', import.meta.url);
+ *   const pool = createWorkerPool(() => nodeWorkerPort(new Worker(workerUrl)), 4);
+ *   const { entries } = await pool.analyze(setup, 'forward', words).result;
+ *   pool.terminate();
+ */
+
+import { parentPort } from 'worker_threads';
+import { createAnalysisHandler } from '../src/lib/workers/handler.ts';
+
+if (!parentPort) {
+  console.error('analysis-worker.js must be started as a worker thread');
+  process.exit(1);
+}
+
+const handle = createAnalysisHandler(message => parentPort.postMessage(message));
+parentPort.on('message', handle);
@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+
+/**
+ * Command-line interface: apply, reverse, cognates, generate, lint and test
+ *
+ * Usage: npx tsx scripts/phonomizer.js <command> [options] <files> [words...]
+ * Example: npx tsx scripts/phonomizer.js apply public/rules/sem-pro_arb.phono kalb bajt
+ *          cut -f1 words.tsv | npx tsx scripts/phonomizer.js reverse --json public/rules/sem-pro_arb.phono
+ *
+ * Run with --help for every command and option. The commands themselves are
+ * in src/lib/cli/cli.ts; this file connects them to the file system and the
+ * standard streams.
+ */
+
+import { readFileSync, readdirSync } from 'fs';
+import { runCli } from '../src/lib/cli/cli.ts';
+
+function readFile(path) {
+  try {
+    return readFileSync(path, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+function listFiles(dir) {
+  try {
+    return readdirSync(dir);
+  } catch {
+    return [];
+  }
+}
+
+async function readStdin() {
+  if (process.stdin.isTTY) return '';
+  const chunks = [];
+  for await (const chunk of process.stdin) chunks.push(chunk);
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+const code = await runCli(process.argv.slice(2), {
+  readFile,
+  listFiles,
+  readStdin,
+  out: text => process.stdout.write(text + '\n'),
+  err: text => process.stderr.write(text + '\n'),
+});
+process.exitCode = code;
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { runChain, type ChainStage } from './chain';
+import { buildLanguageGraph, findPath } from './graph';
+import { loadRuleset } from '../rules/regression';
+
+// proto → mid → east, and proto → west
+const RULESETS = {
+  'proto_mid': loadRuleset({ rules: 'p > f\nʃ > s', sourcePhonemes: 'a i m p s ʃ', targetPhonemes: 'a i f m s' }),
+  'mid_east': loadRuleset({ rules: 'a > e / _ #', sourcePhonemes: 'a i f m s', targetPhonemes: 'a e i f m s' }),
+  'proto_west': loadRuleset({ rules: 'p > b\ni > ∅ / _ #', sourcePhonemes: 'a i m p s ʃ', targetPhonemes: 'a b m s ʃ' }),
+};
+
+function stages(from: string, to: string): ChainStage[] {
+  const path = findPath(buildLanguageGraph(Object.keys(RULESETS)), from, to);
+  if (!path) throw new Error(`No path from ${from} to ${to}`);
+  return path.map(step => ({ step, ruleset: RULESETS[step.ruleset as keyof typeof RULESETS] }));
+}
+
+describe('runChain', () => {
+  it('should apply every ruleset of a forward path', () => {
+    const result = runChain('pama', stages('proto', 'east'));
+    expect(result.nodes.map(n => [n.language, n.forms.map(f => f.word)])).toEqual([
+      ['proto', ['pama']],
+      ['mid', ['fama']],
+      ['east', ['fame']],
+    ]);
+    expect(result.outputs).toEqual(['fame']);
+    expect(result.complete).toBe(true);
+  });
+
+  it('should reverse every ruleset of a backward path', () => {
+    const result = runChain('same', stages('east', 'proto'));
+    expect(result.nodes[1].forms.map(f => f.word)).toEqual(['sama']);
+    expect(result.outputs).toEqual(['sama', 'ʃama']);
+  });
+
+  it('should find cognates through a common ancestor', () => {
+    const result = runChain('fas', stages('east', 'west'));
+    expect(result.nodes.map(n => n.language)).toEqual(['east', 'mid', 'proto', 'west']);
+    expect(result.nodes[2].forms.map(f => f.word)).toEqual(['pas', 'paʃ']);
+    expect(result.outputs).toEqual(['bas', 'baʃ']);
+  });
+
+  it('should link each form to the forms it came from', () => {
+    const result = runChain('sams', stages('mid', 'west'));
+    const proto = result.nodes[1].forms;
+    expect(proto.map(f => f.word)).toEqual(['sams', 'samʃ', 'ʃams', 'ʃamʃ']);
+    expect(result.nodes[2].forms.map(f => [f.word, f.parents.map(p => proto[p].word)])).toEqual([
+      ['sams', ['sams']], ['samʃ', ['samʃ']], ['ʃams', ['ʃams']], ['ʃamʃ', ['ʃamʃ']],
+    ]);
+  });
+
+  it('should reject forms outside an intermediate inventory', () => {
+    const narrow = { ...RULESETS.proto_mid, targetPhonemes: ['a', 'f', 'm'] };
+    const result = runChain('pas', [
+      { step: { ruleset: 'proto_mid', direction: 'forward', from: 'proto', to: 'mid' }, ruleset: narrow },
+      ...stages('mid', 'east'),
+    ]);
+    expect(result.nodes[1].forms).toEqual([]);
+    expect(result.nodes[1].rejected).toEqual([{ word: 'fas', reason: '"s" is not in the inventory' }]);
+    expect(result.outputs).toEqual([]);
+  });
+
+  it('should reject forms a backward stage finds no source for', () => {
+    // Word-final a always became e
+    const result = runChain('fama', stages('east', 'proto'));
+    expect(result.nodes[0].rejected).toEqual([{ word: 'fama', reason: 'No sources' }]);
+    expect(result.outputs).toEqual([]);
+  });
+
+  it('should throw for a starting word that does not tokenize', () => {
+    expect(() => runChain('xyz', stages('proto', 'east'))).toThrow('Cannot tokenize');
+  });
+
+  it('should report searches cut short by a limit', () => {
+    expect(runChain('sams', stages('mid', 'proto'), { maxResults: 1 }).complete).toBe(false);
+  });
+});
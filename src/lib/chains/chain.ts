@@ -0,0 +1,114 @@
+import type { PhonotacticPattern, ReverseLimits } from '../types';
+import type { LoadedRuleset } from '../rules/regression';
+import type { PathStep } from './graph';
+import { applyRules } from '../rules/engine';
+import { createLazyReverser, collectCandidates } from '../rules/reverser';
+import { matchesPhonotactics } from '../phonotactics/matcher';
+
+/**
+ * A ruleset loaded for one step of a path
+ */
+export interface ChainStage {
+  step: PathStep;
+  ruleset: LoadedRuleset;
+}
+
+/**
+ * A form at one language of the chain
+ */
+export interface ChainForm {
+  word: string;
+  parents: number[];        // Indices of the forms at the previous language it came from
+}
+
+export interface ChainNode {
+  language: string;
+  forms: ChainForm[];
+  rejected: Array<{ word: string; reason: string }>;  // Forms that do not fit this language or could not go on
+}
+
+export interface ChainResult {
+  nodes: ChainNode[];       // The start language, then one node per stage
+  outputs: string[];        // The forms at the last language, sorted
+  complete: boolean;        // false if a backward search stopped at a limit
+}
+
+/**
+ * Runs a word through every stage of a path: forward stages apply their rules,
+ * backward stages find every source. A stage starts from every form the
+ * previous one produced.
+ *
+ * Every form must be made of its language's phonemes (and fit its
+ * phonotactics, if declared); forms that do not are rejected at that language
+ * instead of being passed on, as are forms a backward stage finds no source
+ * for. Errors for the starting word
+ * (e.g. it cannot be tokenized) are thrown, as for a single ruleset.
+ */
+export function runChain(word: string, stages: ChainStage[], limits?: ReverseLimits): ChainResult {
+  const nodes: ChainNode[] = [{ language: stages[0]?.step.from ?? '', forms: [{ word, parents: [] }], rejected: [] }];
+  let complete = true;
+
+  stages.forEach((stage, k) => {
+    const { rules, sourcePhonemes, targetPhonemes, sourcePhonotactics, targetPhonotactics } = stage.ruleset;
+    const forward = stage.step.direction === 'forward';
+    const search = forward ? null : createLazyReverser(rules, sourcePhonemes, targetPhonemes, sourcePhonotactics, targetPhonotactics);
+    const inventory = [...(forward ? targetPhonemes : sourcePhonemes)].sort((a, b) => b.length - a.length);
+    const phonotactics = forward ? targetPhonotactics : sourcePhonotactics;
+
+    const node: ChainNode = { language: stage.step.to, forms: [], rejected: [] };
+    const index = new Map<string, number>();
+    const add = (form: string, parent: number) => {
+      const existing = index.get(form);
+      if (existing !== undefined) {
+        node.forms[existing].parents.push(parent);
+        return;
+      }
+      const misfit = misfitReason(form, inventory, phonotactics);
+      if (misfit) {
+        if (!node.rejected.some(r => r.word === form)) node.rejected.push({ word: form, reason: misfit });
+        return;
+      }
+      index.set(form, node.forms.length);
+      node.forms.push({ word: form, parents: [parent] });
+    };
+
+    nodes[k].forms.forEach((form, parent) => {
+      try {
+        if (!search) {
+          add(applyRules(form.word, rules, sourcePhonemes, targetPhonemes, sourcePhonotactics, targetPhonotactics), parent);
+        } else {
+          const { candidates, status } = collectCandidates(search(form.word, limits));
+          if (!status.complete) complete = false;
+          if (candidates.length === 0) {
+            nodes[k].rejected.push({ word: form.word, reason: status.complete ? 'No sources' : 'No sources found before the search limit' });
+          }
+          for (const candidate of candidates) add(candidate.word, parent);
+        }
+      } catch (e) {
+        if (k === 0) throw e;
+        nodes[k].rejected.push({ word: form.word, reason: e instanceof Error ? e.message : 'Error' });
+      }
+    });
+
+    nodes.push(node);
+  });
+
+  const outputs = nodes[nodes.length - 1].forms.map(form => form.word).sort();
+  return { nodes, outputs, complete };
+}
+
+// Why a form does not belong to a language, or null if it does. The phonemes
+// are sorted longest first.
+function misfitReason(word: string, sorted: string[], phonotactics: PhonotacticPattern[] | null): string | null {
+  if (sorted.length === 0) return null;
+  const tokens: string[] = [];
+  let pos = 0;
+  while (pos < word.length) {
+    const phoneme = sorted.find(p => word.startsWith(p, pos));
+    if (!phoneme) return `"${word[pos]}" is not in the inventory`;
+    tokens.push(phoneme);
+    pos += phoneme.length;
+  }
+  if (phonotactics && !matchesPhonotactics(tokens, phonotactics)) return 'Does not fit the phonotactics';
+  return null;
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { parseFamilyTree, familyGraph, descendantPaths, commonAncestor, deriveDescendants } from './family';
+import { findPath } from './graph';
+import { loadRuleset } from '../rules/regression';
+
+// proto → mid → east, proto → west, and mid → north with no ruleset yet
+const tree = parseFamilyTree([
+  {
+    code: 'proto', name: 'Proto',
+    children: [
+      {
+        code: 'mid', name: 'Middle', ruleset: 'p-to-f',
+        children: [
+          { code: 'east', name: 'Eastern', ruleset: 'final-e' },
+          { code: 'north' },
+        ],
+      },
+      { code: 'west', name: 'Western', ruleset: 'proto_west' },
+    ],
+  },
+]);
+
+const RULESETS = {
+  'p-to-f': loadRuleset({ rules: 'p > f', sourcePhonemes: 'a i m p s', targetPhonemes: 'a i f m s' }),
+  'final-e': loadRuleset({ rules: 'a > e / _ #', sourcePhonemes: 'a i f m s', targetPhonemes: 'a e i f m s' }),
+  'proto_west': loadRuleset({ rules: 'p > b', sourcePhonemes: 'a i m p s', targetPhonemes: 'a b i m s' }),
+};
+
+describe('parseFamilyTree', () => {
+  it('should link parents and children', () => {
+    expect(tree.roots).toEqual(['proto']);
+    expect(tree.languages.proto).toEqual({ code: 'proto', name: 'Proto', parent: null, ruleset: null, children: ['mid', 'west'] });
+    expect(tree.languages.east).toMatchObject({ parent: 'mid', ruleset: 'final-e' });
+  });
+
+  it('should name a language by its code if it has no name', () => {
+    expect(tree.languages.north).toMatchObject({ name: 'north', ruleset: null });
+  });
+
+  it('should reject malformed trees', () => {
+    expect(() => parseFamilyTree({})).toThrow('must be a list');
+    expect(() => parseFamilyTree([{ name: 'x' }])).toThrow('needs a code');
+    expect(() => parseFamilyTree([{ code: 'a', children: [{ code: 'a' }] }])).toThrow('"a" appears more than once');
+    expect(() => parseFamilyTree([{ code: 'a', ruleset: 'x_a' }])).toThrow('root language has no ruleset');
+    expect(() => parseFamilyTree([{ code: 'a', children: 'b' }])).toThrow('children must be a list');
+  });
+});
+
+describe('familyGraph', () => {
+  it('should have an edge for each branch with a ruleset', () => {
+    const graph = familyGraph(tree);
+    expect(graph.languages).toEqual(['east', 'mid', 'proto', 'west']);
+    expect(graph.edges.map(e => `${e.source}>${e.target}`)).toEqual(['mid>east', 'proto>mid', 'proto>west']);
+  });
+
+  it('should find paths by the declared rulesets, whatever their names', () => {
+    expect(findPath(familyGraph(tree), 'east', 'west')?.map(s => s.ruleset)).toEqual(['final-e', 'p-to-f', 'proto_west']);
+  });
+});
+
+describe('descendantPaths', () => {
+  it('should list every descendant reached through rulesets', () => {
+    expect(descendantPaths(tree, 'proto').map(d => [d.language, d.path.map(s => s.ruleset)])).toEqual([
+      ['mid', ['p-to-f']],
+      ['east', ['p-to-f', 'final-e']],
+      ['west', ['proto_west']],
+    ]);
+    expect(descendantPaths(tree, 'west')).toEqual([]);
+  });
+});
+
+describe('commonAncestor', () => {
+  it('should find the nearest shared ancestor', () => {
+    expect(commonAncestor(tree, ['east', 'north'])).toBe('mid');
+    expect(commonAncestor(tree, ['east', 'north', 'west'])).toBe('proto');
+  });
+
+  it('should count a language as its own ancestor', () => {
+    expect(commonAncestor(tree, ['mid', 'east'])).toBe('mid');
+    expect(commonAncestor(tree, ['west'])).toBe('west');
+  });
+
+  it('should return null for unrelated or unknown languages', () => {
+    const two = parseFamilyTree([{ code: 'a' }, { code: 'b' }]);
+    expect(commonAncestor(two, ['a', 'b'])).toBeNull();
+    expect(commonAncestor(tree, ['east', 'xyz'])).toBeNull();
+    expect(commonAncestor(tree, [])).toBeNull();
+  });
+});
+
+describe('deriveDescendants', () => {
+  it('should derive a word down to every descendant', () => {
+    expect(deriveDescendants('pama', tree, 'proto', RULESETS).map(d => [d.language, d.forms])).toEqual([
+      ['mid', ['fama']],
+      ['east', ['fame']],
+      ['west', ['bama']],
+    ]);
+  });
+
+  it('should report forms that do not fit a descendant', () => {
+    const narrow = { ...RULESETS, 'proto_west': { ...RULESETS.proto_west, targetPhonemes: ['a', 'b', 'm'] } };
+    const west = deriveDescendants('pasa', tree, 'proto', narrow).find(d => d.language === 'west');
+    expect(west?.forms).toEqual([]);
+    expect(west?.rejected).toEqual([{ word: 'basa', reason: '"s" is not in the inventory' }]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * The language family tree (public/family_tree.json).
+ *
+ * The tree names every language and declares its ancestry: each language
+ * lists its children, and each child names the ruleset that leads to it from
+ * its parent. Branches without a ruleset are part of the tree but cannot be
+ * run.
+ *
+ *   [
+ *     { "code": "sem-pro", "name": "Proto-Semitic", "children": [
+ *       { "code": "arb", "name": "Arabic", "ruleset": "sem-pro_arb" }
+ *     ] }
+ *   ]
+ */
+
+import type { ReverseLimits } from '../types';
+import type { LoadedRuleset } from '../rules/regression';
+import type { LanguageGraph, PathStep } from './graph';
+import { runChain, type ChainNode } from './chain';
+
+export interface FamilyLanguage {
+  code: string;
+  name: string;
+  parent: string | null;
+  ruleset: string | null;   // The ruleset from the parent to this language
+  children: string[];
+}
+
+export interface FamilyTree {
+  roots: string[];
+  languages: Record<string, FamilyLanguage>;
+}
+
+/**
+ * The forms of a word at one descendant of a language
+ */
+export interface DescendantForms {
+  language: string;
+  path: PathStep[];
+  forms: string[];
+  rejected: ChainNode['rejected'];  // Forms dropped on the way, at any language of the path
+}
+
+/**
+ * Reads the family tree from its parsed JSON, checking its shape. Throws
+ * for malformed entries and for languages that appear more than once.
+ */
+export function parseFamilyTree(json: unknown): FamilyTree {
+  if (!Array.isArray(json)) throw new Error('The family tree must be a list of languages');
+  const tree: FamilyTree = { roots: [], languages: {} };
+
+  const visit = (entry: unknown, parent: string | null): string => {
+    if (typeof entry !== 'object' || entry === null) throw new Error('Each language must be an object');
+    const { code, name, ruleset, children } = entry as Record<string, unknown>;
+    if (typeof code !== 'string' || code === '') throw new Error('Each language needs a code');
+    if (tree.languages[code]) throw new Error(`Language "${code}" appears more than once`);
+    if (name !== undefined && typeof name !== 'string') throw new Error(`Language "${code}": name must be a string`);
+    if (ruleset !== undefined && typeof ruleset !== 'string') throw new Error(`Language "${code}": ruleset must be a string`);
+    if (ruleset !== undefined && parent === null) throw new Error(`Language "${code}": a root language has no ruleset`);
+    if (children !== undefined && !Array.isArray(children)) throw new Error(`Language "${code}": children must be a list`);
+
+    const language: FamilyLanguage = { code, name: name || code, parent, ruleset: ruleset || null, children: [] };
+    tree.languages[code] = language;
+    for (const child of children ?? []) language.children.push(visit(child, code));
+    return code;
+  };
+
+  for (const entry of json) tree.roots.push(visit(entry, null));
+  return tree;
+}
+
+/**
+ * The graph of the tree's branches that have rulesets, for findPath
+ */
+export function familyGraph(tree: FamilyTree): LanguageGraph {
+  const edges = Object.values(tree.languages)
+    .filter(language => language.parent !== null && language.ruleset !== null)
+    .map(language => ({ ruleset: language.ruleset!, source: language.parent!, target: language.code }))
+    .sort((a, b) => a.ruleset.localeCompare(b.ruleset));
+  const languages = new Set(edges.flatMap(edge => [edge.source, edge.target]));
+  return { languages: Array.from(languages).sort(), edges };
+}
+
+/**
+ * The paths from a language down to each of its descendants, in tree order.
+ * A branch without a ruleset cuts off everything below it.
+ */
+export function descendantPaths(tree: FamilyTree, code: string): Array<{ language: string; path: PathStep[] }> {
+  const paths: Array<{ language: string; path: PathStep[] }> = [];
+  const walk = (from: string, path: PathStep[]) => {
+    for (const child of tree.languages[from]?.children ?? []) {
+      const ruleset = tree.languages[child].ruleset;
+      if (!ruleset) continue;
+      const childPath = [...path, { ruleset, direction: 'forward' as const, from, to: child }];
+      paths.push({ language: child, path: childPath });
+      walk(child, childPath);
+    }
+  };
+  walk(code, []);
+  return paths;
+}
+
+/**
+ * The nearest language that all the given languages descend from (or are),
+ * or null if they are in different trees
+ */
+export function commonAncestor(tree: FamilyTree, codes: string[]): string | null {
+  const lineage = (code: string) => {
+    const line: string[] = [];
+    for (let at: string | null = code; at && tree.languages[at]; at = tree.languages[at].parent) line.push(at);
+    return line;
+  };
+  if (codes.length === 0) return null;
+  const others = codes.slice(1).map(code => new Set(lineage(code)));
+  return lineage(codes[0]).find(code => others.every(line => line.has(code))) ?? null;
+}
+
+/**
+ * Derives a word down to every descendant of its language. `rulesets` must
+ * hold every ruleset of descendantPaths(tree, code).
+ */
+export function deriveDescendants(
+  word: string,
+  tree: FamilyTree,
+  code: string,
+  rulesets: Record<string, LoadedRuleset>,
+  limits?: ReverseLimits
+): DescendantForms[] {
+  return descendantPaths(tree, code).map(({ language, path }) => {
+    const result = runChain(word, path.map(step => ({ step, ruleset: rulesets[step.ruleset] })), limits);
+    return { language, path, forms: result.outputs, rejected: result.nodes.flatMap(node => node.rejected) };
+  });
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { buildLanguageGraph, findPath } from './graph';
+
+const graph = buildLanguageGraph(['sem-pro_arb', 'sem-nws_hbo', 'sem-pro_sem-nws', 'sem-nws_syc', 'stress-test', 'ltc-x-wiki_ltc-Latn']);
+
+describe('buildLanguageGraph', () => {
+  it('should read an edge from each source_target id', () => {
+    expect(graph.languages).toEqual(['arb', 'hbo', 'ltc-Latn', 'ltc-x-wiki', 'sem-nws', 'sem-pro', 'syc']);
+    expect(graph.edges).toHaveLength(5);
+    expect(graph.edges[0]).toEqual({ ruleset: 'ltc-x-wiki_ltc-Latn', source: 'ltc-x-wiki', target: 'ltc-Latn' });
+  });
+});
+
+describe('findPath', () => {
+  it('should chain rulesets forward', () => {
+    expect(findPath(graph, 'sem-pro', 'hbo')).toEqual([
+      { ruleset: 'sem-pro_sem-nws', direction: 'forward', from: 'sem-pro', to: 'sem-nws' },
+      { ruleset: 'sem-nws_hbo', direction: 'forward', from: 'sem-nws', to: 'hbo' },
+    ]);
+  });
+
+  it('should chain rulesets backward', () => {
+    expect(findPath(graph, 'hbo', 'sem-pro')?.map(s => `${s.direction} ${s.ruleset}`)).toEqual([
+      'backward sem-nws_hbo',
+      'backward sem-pro_sem-nws',
+    ]);
+  });
+
+  it('should go up to a common ancestor and down to a cognate', () => {
+    expect(findPath(graph, 'arb', 'syc')?.map(s => s.to)).toEqual(['sem-pro', 'sem-nws', 'syc']);
+    expect(findPath(graph, 'hbo', 'syc')?.map(s => `${s.direction} ${s.to}`)).toEqual(['backward sem-nws', 'forward syc']);
+  });
+
+  it('should not go through a shared descendant', () => {
+    const twoParents = buildLanguageGraph(['a_c', 'b_c']);
+    expect(findPath(twoParents, 'a', 'b')).toBeNull();
+  });
+
+  it('should handle unconnected and equal languages', () => {
+    expect(findPath(graph, 'arb', 'ltc-Latn')).toBeNull();
+    expect(findPath(graph, 'arb', 'xyz')).toBeNull();
+    expect(findPath(graph, 'arb', 'arb')).toEqual([]);
+  });
+});
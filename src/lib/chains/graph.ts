@@ -0,0 +1,103 @@
+/**
+ * The graph of languages connected by rulesets.
+ *
+ * Every ruleset source_target.phono is an edge from its source language to
+ * its target language, so rulesets can be chained: sem-pro_sem-nws.phono and
+ * sem-nws_hbo.phono together lead from Proto-Semitic to Hebrew.
+ */
+
+export interface LanguageEdge {
+  ruleset: string;          // Ruleset id, e.g. 'sem-pro_arb'
+  source: string;
+  target: string;
+}
+
+export interface LanguageGraph {
+  languages: string[];      // Every language that is a source or target, sorted
+  edges: LanguageEdge[];
+}
+
+/**
+ * One ruleset along a path, run forward (source to target) or backward
+ * (target to source)
+ */
+export interface PathStep {
+  ruleset: string;
+  direction: 'forward' | 'backward';
+  from: string;
+  to: string;
+}
+
+/**
+ * Builds the graph from ruleset ids. Ids that are not of the form
+ * source_target are skipped.
+ */
+export function buildLanguageGraph(rulesetIds: string[]): LanguageGraph {
+  const edges: LanguageEdge[] = [];
+  const languages = new Set<string>();
+
+  for (const ruleset of [...rulesetIds].sort()) {
+    const [source, target, ...rest] = ruleset.split('_');
+    if (!source || !target || rest.length > 0 || source === target) continue;
+    edges.push({ ruleset, source, target });
+    languages.add(source);
+    languages.add(target);
+  }
+
+  return { languages: Array.from(languages).sort(), edges };
+}
+
+/**
+ * Finds the shortest path of rulesets from one language to another.
+ *
+ * A path goes back (against rulesets) to an ancestor and then forward to a
+ * descendant, so it may take a word up to a proto-language and down to a
+ * cognate: arb → sem-pro → hbo. It never goes forward and then back, since
+ * two languages sharing a descendant say nothing about each other. Returns
+ * [] when the languages are the same and null when no path exists.
+ */
+export function findPath(graph: LanguageGraph, from: string, to: string): PathStep[] | null {
+  if (from === to) return [];
+
+  // Breadth-first over (language, phase): while going back, steps in either
+  // direction are allowed; once a step has gone forward, only forward
+  type Phase = 'back' | 'forward';
+  const key = (language: string, phase: Phase) => `${phase}:${language}`;
+  const previous = new Map<string, { key: string; step: PathStep } | null>([[key(from, 'back'), null]]);
+  let frontier: Array<{ language: string; phase: Phase }> = [{ language: from, phase: 'back' }];
+
+  while (frontier.length > 0) {
+    const next: typeof frontier = [];
+    for (const { language, phase } of frontier) {
+      const here = key(language, phase);
+      const moves: Array<{ step: PathStep; phase: Phase }> = [];
+      for (const edge of graph.edges) {
+        if (edge.source === language) {
+          moves.push({ step: { ruleset: edge.ruleset, direction: 'forward', from: language, to: edge.target }, phase: 'forward' });
+        }
+        if (edge.target === language && phase === 'back') {
+          moves.push({ step: { ruleset: edge.ruleset, direction: 'backward', from: language, to: edge.source }, phase: 'back' });
+        }
+      }
+
+      for (const move of moves) {
+        const there = key(move.step.to, move.phase);
+        if (previous.has(there)) continue;
+        previous.set(there, { key: here, step: move.step });
+        if (move.step.to === to) return unwind(previous, there);
+        next.push({ language: move.step.to, phase: move.phase });
+      }
+    }
+    frontier = next;
+  }
+
+  return null;
+}
+
+function unwind(previous: Map<string, { key: string; step: PathStep } | null>, end: string): PathStep[] {
+  const steps: PathStep[] = [];
+  for (let link = previous.get(end); link; link = previous.get(link.key)) {
+    steps.unshift(link.step);
+  }
+  return steps;
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { reconstruct, type Reflex } from './reconstruct';
+import type { ChainStage } from './chain';
+import { loadRuleset } from '../rules/regression';
+
+// proto → a merges p with b, proto → b merges s with t, proto → c keeps
+// everything but has no i
+const PROTO = 'a i b p s t';
+const stage = (to: string, rules: string, targetPhonemes: string): ChainStage[] => [{
+  step: { ruleset: `proto_${to}`, direction: 'forward', from: 'proto', to },
+  ruleset: loadRuleset({ rules, sourcePhonemes: PROTO, targetPhonemes }),
+}];
+const STAGES = {
+  a: stage('a', 'p > b', 'a i b s t'),
+  b: stage('b', 's > t', 'a i b p t'),
+  c: stage('c', '', 'a b p s t'),
+};
+const reflex = (language: keyof typeof STAGES, word: string): Reflex => ({ language, word, stages: STAGES[language] });
+
+describe('reconstruct', () => {
+  it('should rank the proto-forms every daughter agrees on first', () => {
+    const { candidates, complete } = reconstruct([reflex('a', 'bas'), reflex('b', 'pat')]);
+    expect(complete).toBe(true);
+    expect(candidates.map(c => [c.form, c.explains])).toEqual([
+      ['pas', ['a', 'b']],
+      ['bas', ['a']],
+      ['pat', ['b']],
+    ]);
+  });
+
+  it('should show what a candidate predicts in the daughters that rule it out', () => {
+    const { candidates } = reconstruct([reflex('a', 'bas'), reflex('b', 'pat')]);
+    expect(candidates.find(c => c.form === 'bas')?.rulesOut).toEqual([{ language: 'b', predicted: 'bat' }]);
+    expect(candidates.find(c => c.form === 'pas')?.rulesOut).toEqual([]);
+  });
+
+  it('should predict null for a daughter a candidate cannot reach', () => {
+    const { candidates } = reconstruct([reflex('a', 'bis'), reflex('c', 'pas')]);
+    expect(candidates.find(c => c.form === 'pis')?.rulesOut).toEqual([{ language: 'c', predicted: null }]);
+  });
+
+  it('should name the daughter whose reflex cannot be reversed', () => {
+    expect(() => reconstruct([reflex('a', 'bas'), reflex('b', 'xyz')])).toThrow(/^b: Cannot tokenize/);
+  });
+});
@@ -0,0 +1,76 @@
+import type { ReverseLimits } from '../types';
+import { runChain, type ChainStage } from './chain';
+
+/**
+ * An attested form in one daughter language
+ */
+export interface Reflex {
+  language: string;
+  word: string;
+  stages: ChainStage[];     // The forward path from the proto-language to `language`
+}
+
+/**
+ * A proto-form and how well it accounts for the reflexes
+ */
+export interface ProtoCandidate {
+  form: string;
+  explains: string[];       // Daughters whose reflex the form derives, in the order given
+  rulesOut: Array<{ language: string; predicted: string | null }>;  // The others, with the form they would have instead (null if none)
+}
+
+export interface Reconstruction {
+  candidates: ProtoCandidate[];
+  complete: boolean;        // false if a backward search stopped at a limit
+}
+
+/**
+ * Reconstructs a proto-form from the reflexes of several daughters, as in the
+ * comparative method: each reflex is run back to the proto-language, and
+ * every proto-form found for any daughter is then run forward to all of them.
+ *
+ * Candidates are ranked by how many reflexes they explain, so the ones that
+ * every daughter agrees on come first; ties are in alphabetical order.
+ * Throws if a reflex cannot be reversed (e.g. it does not tokenize), naming
+ * its language.
+ */
+export function reconstruct(reflexes: Reflex[], limits?: ReverseLimits): Reconstruction {
+  const forms = new Set<string>();
+  let complete = true;
+
+  for (const reflex of reflexes) {
+    const backward = [...reflex.stages].reverse().map(stage => ({
+      ...stage,
+      step: { ...stage.step, direction: 'backward' as const, from: stage.step.to, to: stage.step.from },
+    }));
+    try {
+      const result = runChain(reflex.word, backward, limits);
+      if (!result.complete) complete = false;
+      result.outputs.forEach(form => forms.add(form));
+    } catch (e) {
+      throw new Error(`${reflex.language}: ${e instanceof Error ? e.message : 'Error'}`);
+    }
+  }
+
+  const candidates = Array.from(forms, form => {
+    const candidate: ProtoCandidate = { form, explains: [], rulesOut: [] };
+    for (const reflex of reflexes) {
+      const predicted = predict(form, reflex.stages, limits);
+      if (predicted === reflex.word) candidate.explains.push(reflex.language);
+      else candidate.rulesOut.push({ language: reflex.language, predicted });
+    }
+    return candidate;
+  });
+
+  candidates.sort((a, b) => b.explains.length - a.explains.length || a.form.localeCompare(b.form));
+  return { candidates, complete };
+}
+
+// What a proto-form becomes in a daughter, or null if it does not get there
+function predict(form: string, stages: ChainStage[], limits?: ReverseLimits): string | null {
+  try {
+    return runChain(form, stages, limits).outputs[0] ?? null;
+  } catch {
+    return null;
+  }
+}
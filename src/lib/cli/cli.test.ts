@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import { runCli } from './cli';
+
+const FILES: Record<string, string> = {
+  'public/rules/proto_east.phono': 'p > f\nʃ > s',
+  'public/rules/proto_west.phono': 'p > b',
+  'public/rules/proto_east.phono.test': 'pam > fam\nsams < sams samʃ ʃams ʃamʃ',
+  'public/phonemes/proto.phonemes': 'a m p s ʃ',
+  'public/phonemes/east.phonemes': 'a f m s',
+  'public/phonemes/west.phonemes': 'a b m s ʃ',
+  'words.phonotactics': 'C = [p m]\nV = [a]\nC V',
+};
+
+async function run(args: string[], stdin = '', files = FILES) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const code = await runCli(args, {
+    readFile: path => files[path] ?? null,
+    listFiles: dir => Object.keys(files).filter(p => p.startsWith(dir + '/')).map(p => p.substring(dir.length + 1)),
+    readStdin: async () => stdin,
+    out: text => out.push(text),
+    err: text => err.push(text),
+  });
+  return { code, out: out.join('\n'), err: err.join('\n') };
+}
+
+describe('runCli', () => {
+  it('should apply rules to words from the command line', async () => {
+    expect(await run(['apply', 'public/rules/proto_east.phono', 'pam', 'ʃamʃ'])).toEqual({
+      code: 0, out: 'pam\tfam\nʃamʃ\tsams', err: '',
+    });
+  });
+
+  it('should report outputs that break the target phonotactics', async () => {
+    const files = { ...FILES, 'public/phonemes/east.phonotactics': 'C = [f m s]\nV = [a]\nC V C' };
+    expect(await run(['apply', 'public/rules/proto_east.phono', 'pam', 'ʃamʃ'], '', files)).toEqual({
+      code: 0, out: 'pam\tfam\nʃamʃ\tsams', err: 'ʃamʃ: sams does not fit the target phonotactics',
+    });
+    const { out } = await run(['apply', '--json', 'public/rules/proto_east.phono', 'ʃamʃ'], '', files);
+    expect(JSON.parse(out)).toEqual([{ word: 'ʃamʃ', output: 'sams', invalid: true }]);
+  });
+
+  it('should read words from standard input', async () => {
+    const { out } = await run(['reverse', 'public/rules/proto_east.phono'], 'fam\tmouth\n# sun\nsams\n');
+    expect(out).toBe('fam\tpam\nsams\tsams samʃ ʃams ʃamʃ');
+  });
+
+  it('should write JSON', async () => {
+    const { out } = await run(['reverse', '--json', '--max-results', '1', 'public/rules/proto_east.phono', 'sams']);
+    expect(JSON.parse(out)).toEqual([{ word: 'sams', inputs: ['sams'], incomplete: true }]);
+  });
+
+  it('should report bad words without stopping', async () => {
+    const { code, out, err } = await run(['apply', 'public/rules/proto_east.phono', 'xyz', 'pam']);
+    expect(code).toBe(1);
+    expect(out).toBe('xyz\t\npam\tfam');
+    expect(err).toContain('xyz: Cannot tokenize');
+  });
+
+  it('should find cognates through the common ancestor', async () => {
+    const { out } = await run(['cognates', 'public/rules/proto_east.phono', 'public/rules/proto_west.phono', 'fam', 'sams']);
+    expect(out).toBe('fam\tbam\nsams\tsams samʃ ʃams ʃamʃ');
+  });
+
+  it('should run words along a chain of rulesets', async () => {
+    const { code, out, err } = await run(['chain', 'east', 'west', 'fam', 'sams']);
+    expect(code).toBe(0);
+    expect(out).toBe('fam\tbam\nsams\tsams samʃ ʃams ʃamʃ');
+    expect(err).toBe('Path: east ← proto → west');
+
+    const json = JSON.parse((await run(['chain', '--json', 'east', 'proto', 'fam'])).out);
+    expect(json).toEqual([{
+      word: 'fam',
+      path: ['proto_east'],
+      forms: [{ language: 'east', forms: ['fam'] }, { language: 'proto', forms: ['pam'] }],
+      outputs: ['pam'],
+    }]);
+    expect((await run(['chain', 'east', 'nowhere', 'fam'])).err).toBe('No chain of rulesets in public/rules connects east and nowhere');
+  });
+
+  it('should find chains in the family tree when there is one', async () => {
+    const tree = [{ code: 'proto', children: [
+      { code: 'south', ruleset: 'proto_east' }, { code: 'north', ruleset: 'proto_west' }, { code: 'west' },
+    ] }];
+    const files = { ...FILES, 'public/family_tree.json': JSON.stringify(tree) };
+    expect(await run(['chain', 'proto', 'south', 'pam'], '', files)).toEqual({
+      code: 0, out: 'pam\tfam', err: 'Path: proto → south',
+    });
+    expect((await run(['chain', 'proto', 'west', 'pam'], '', files)).err).toBe('No chain of rulesets in public/rules connects proto and west');
+    expect((await run(['reconstruct', 'proto', 'south=fas', 'north=bas'], '', files)).out).toBe('pas\tsouth north\t\npaʃ\tsouth\tnorth:baʃ');
+    expect((await run(['chain', 'proto', 'west', 'pam'], '', { ...FILES, 'public/family_tree.json': '[' })).err)
+      .toMatch(/^public\/family_tree\.json: /);
+  });
+
+  it('should explain words that give no form, and fail', async () => {
+    const files = { ...FILES, 'public/phonemes/west.phonemes': 'b m s ʃ' };
+    expect(await run(['chain', 'east', 'west', 'fam'], '', files)).toEqual({
+      code: 1, out: 'fam\t', err: 'Path: east ← proto → west\nfam: bam (west): "a" is not in the inventory',
+    });
+    const { code, err } = await run(['cognates', 'public/rules/proto_east.phono', 'public/rules/proto_west.phono', 'fam'], '', files);
+    expect(code).toBe(1);
+    expect(err).toBe('fam: bam (west): "a" is not in the inventory');
+
+    const json = JSON.parse((await run(['chain', '--json', 'east', 'west', 'fam'], '', files)).out);
+    expect(json[0].rejected).toEqual([{ language: 'west', word: 'bam', reason: '"a" is not in the inventory' }]);
+  });
+
+  it('should reconstruct proto-forms from several daughters', async () => {
+    const { code, out } = await run(['reconstruct', 'proto', 'east=fas', 'west=bas']);
+    expect(code).toBe(0);
+    expect(out).toBe('pas\teast west\t\npaʃ\teast\twest:baʃ');
+
+    const json = JSON.parse((await run(['reconstruct', '--json', 'proto', 'east=fas', 'west=bas'])).out);
+    expect(json.candidates[0]).toEqual({ form: 'pas', explains: ['east', 'west'], rulesOut: [] });
+    expect((await run(['reconstruct', 'east', 'proto=pas', 'west=bas'])).err).toBe('proto does not descend from east');
+    expect((await run(['reconstruct', 'proto', 'east:fas', 'west=bas'])).err).toBe('Expected lang=form, got "east:fas"');
+  });
+
+  it('should generate words from phonotactics', async () => {
+    expect((await run(['generate', 'words.phonotactics'])).out).toBe('ma\npa');
+  });
+
+  it('should lint rulesets and their companion files', async () => {
+    expect(await run(['lint', 'public/rules/proto_east.phono'])).toEqual({ code: 0, out: '1 ruleset OK', err: '' });
+
+    const files = { ...FILES, 'public/rules/proto_east.phono': 'p > f\np f', 'public/rules/proto_east.phono.test': 'pam' };
+    const { code, out } = await run(['lint', 'public/rules/proto_east.phono'], '', files);
+    expect(code).toBe(1);
+    expect(out).toMatch(/^public\/rules\/proto_east\.phono: Line 2: /);
+    expect(out).toContain('public/rules/proto_east.phono.test: Line 1: Expected "source > output"');
+  });
+
+  it('should format rules, or write them back expanded or compacted', async () => {
+    const files = { ...FILES, 'public/rules/proto_east.phono': 'V = [a]\n[p ʃ]>[f s]  /  _ V\nm > n' };
+    expect(await run(['format', 'public/rules/proto_east.phono'], '', files)).toEqual({
+      code: 0, out: 'V = [a]\n[p ʃ] > [f s] / _ V\nm     > n', err: '',
+    });
+    expect((await run(['format', '--expand', 'public/rules/proto_east.phono'], '', files)).out).toBe('p > f / _ a\nʃ > s / _ a\nm > n');
+    expect((await run(['format', '--compact', 'public/rules/proto_east.phono'], '', files)).out).toBe('[p ʃ] > [f s] / _ a\nm > n');
+  });
+
+  it('should warn about rules that do nothing without failing the lint', async () => {
+    const files = { ...FILES, 'public/rules/proto_east.phono': 'p > f\nm > m\np > b' };
+    expect(await run(['lint', 'public/rules/proto_east.phono'], '', files)).toEqual({
+      code: 0,
+      out: 'public/rules/proto_east.phono: warning: Line 2: Rule changes nothing [no-op]\n' +
+        'public/rules/proto_east.phono: warning: Line 3: Rule can never apply: every p was already changed by line 1 [unreachable]\n' +
+        '1 ruleset OK (2 warnings)',
+      err: '',
+    });
+  });
+
+  it('should classify how pairs of rules interact', async () => {
+    const files = { ...FILES, 'public/rules/proto_east.phono': 'ʃ > s\n# later\np > ʃ' };
+    expect(await run(['interactions', 'public/rules/proto_east.phono'], '', files)).toEqual({
+      code: 0, out: '1\t3\tcounter-feeding\tp → p → ʃ', err: '',
+    });
+
+    const { out } = await run(['interactions', '--json', 'public/rules/proto_east.phono', 'pam'], '', files);
+    expect(JSON.parse(out).interactions[0]).toMatchObject({ first: 1, second: 3, kinds: ['counter-feeding'] });
+  });
+
+  it('should run the regression tests under public/rules', async () => {
+    expect(await run(['test'])).toEqual({ code: 0, out: 'proto_east: 2 passed, 0 failed', err: '' });
+
+    const files = { ...FILES, 'public/rules/proto_east.phono.test': 'pam > pam' };
+    const { code, out } = await run(['test', 'public/rules/proto_east.phono'], '', files);
+    expect(code).toBe(1);
+    expect(out).toBe(
+      'proto_east: 0 passed, 1 failed\n' +
+      '  Line 1: pam > expected pam, got fam\n' +
+      '    pam\n' +
+      '    → fam    p > f (rules line 1)'
+    );
+  });
+
+  it('should explain usage errors', async () => {
+    expect((await run([])).code).toBe(2);
+    expect((await run(['frobnicate'])).err).toContain('Unknown command "frobnicate"');
+    expect((await run(['apply', '--max-results', 'many'])).err).toContain('--max-results needs a positive whole number');
+    expect((await run(['apply'])).err).toBe('apply: Expected a file; see phonomizer --help');
+    expect((await run(['--help'])).out).toContain('Usage: phonomizer');
+  });
+});
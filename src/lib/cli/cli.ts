@@ -0,0 +1,556 @@
+import type { ReverseLimits } from '../types';
+import type { AnalysisEntry } from '../workers/protocol';
+import { applyRulesChecked } from '../rules/engine';
+import { createLazyReverser, collectCandidates } from '../rules/reverser';
+import { parseRegressionFile, loadRuleset, runRegressionTests, formatFailure, type LoadedRuleset } from '../rules/regression';
+import { parseExceptionsFile, withExceptions } from '../rules/exceptions';
+import { parseRules } from '../rules/parser';
+import { lintRules, type LintKind } from '../rules/linter';
+import { analyzeInteractions, interactionsToJson } from '../rules/interactions';
+import { formatRules } from '../rules/formatter';
+import { serializeRules } from '../rules/serializer';
+import { parsePhonemesFile } from '../phonotactics/parser';
+import { parseFeaturesFile, mergeFeatureTables } from '../features/parser';
+import { generateAllWords } from '../utils/word-generator';
+import { parseLexicon } from '../utils/lexicon';
+import { buildLanguageGraph, findPath, type LanguageGraph, type PathStep } from '../chains/graph';
+import { parseFamilyTree, familyGraph } from '../chains/family';
+import { runChain, type ChainResult, type ChainStage } from '../chains/chain';
+import { reconstruct } from '../chains/reconstruct';
+import { readRulesetFiles, rulesetLanguages, basename, dirname, join, type FileSource, type RulesetPaths } from './files';
+
+/**
+ * Everything the command-line interface touches outside itself, so that it
+ * runs the same from scripts/phonomizer.js and from tests
+ */
+export interface CliIO extends FileSource {
+  readStdin(): Promise<string>;
+  out(text: string): void;                  // A line of standard output
+  err(text: string): void;                  // A line of standard error
+}
+
+export const USAGE = `Usage: phonomizer <command> [options] <files> [words...]
+
+Commands:
+  apply <rules.phono> [words...]               Apply the rules to each word
+  reverse <rules.phono> [words...]             Find every source of each word
+  cognates <from.phono> <to.phono> [words...]  Words of from's target language → cognates in to's
+  chain <from-lang> <to-lang> [words...]       Run words along the rulesets between two languages
+  reconstruct <proto-lang> <lang=form>...      Reconstruct proto-forms from forms in several daughters
+  interactions <rules.phono> [words...]        Classify how each pair of rules interacts (feeding, bleeding...)
+  generate <phonemes-file>                     List every word the phonotactics allow
+  format <rules.phono>                         Print the rules neatly laid out (or rewritten with --expand/--compact)
+  lint <rules.phono>...                        Check rulesets and warn about rules that do nothing
+  test [rules.phono | rules.phono.test]...     Run regression tests (default: public/rules)
+
+Words come from the command line, or from standard input one per line
+(a gloss after the word is ignored). Phoneme files are found next to the rules,
+as in the app: public/rules/sem-pro_arb.phono uses public/phonemes/sem-pro.* and arb.*
+
+Options:
+  --source <file>       Source phoneme file (.phonemes or .phonotactics)
+  --target <file>       Target phoneme file
+  --exceptions <file>   Lexical exceptions (default: <rules>.exceptions, if present)
+  --rules-dir <dir>     Where chain and reconstruct look for rulesets (default public/rules),
+                        with the family tree in family_tree.json next to it
+  --max-results <n>     Stop a backward search after n sources (default 1000)
+  --timeout <ms>        Stop a backward search after this long (default 20000)
+  --json                Write JSON instead of tab-separated text
+  --expand              format: write one line per expanded rule
+  --compact             format: write the parsed rules back, recombined into classes
+  -h, --help            Show this help`;
+
+// Bounds for backward search, as in the app
+const DEFAULT_LIMITS: ReverseLimits = { maxResults: 1000, timeoutMs: 20000, maxCandidates: 500000 };
+
+const RULES_DIR = 'public/rules';
+const FAMILY_TREE = 'family_tree.json';   // Next to the rules directory
+
+interface Options {
+  paths: RulesetPaths;
+  rulesDir: string;
+  limits: ReverseLimits;
+  json: boolean;
+  rewrite: 'expand' | 'compact' | null;  // How format writes the rules (null: as written)
+  help: boolean;
+}
+
+/**
+ * Runs one command line (without the program name) and returns the exit
+ * code: 0 on success, 1 if any word, file or test failed, 2 for usage errors.
+ */
+export async function runCli(args: string[], io: CliIO): Promise<number> {
+  let options: Options;
+  let positional: string[];
+  try {
+    ({ options, positional } = parseArgs(args));
+  } catch (e) {
+    io.err(e instanceof Error ? e.message : 'Error');
+    io.err(USAGE);
+    return 2;
+  }
+
+  const [command, ...rest] = positional;
+  if (options.help) {
+    io.out(USAGE);
+    return 0;
+  }
+  if (!command) {
+    io.err(USAGE);
+    return 2;
+  }
+
+  try {
+    switch (command) {
+      case 'apply':
+      case 'reverse': {
+        const [rulesPath, ...words] = requireFiles(command, rest, 1);
+        const ruleset = loadRuleset(readRulesetFiles(io, rulesPath, options.paths));
+        const entries = analyze(ruleset, command === 'apply' ? 'forward' : 'backward', await wordsFrom(words, io), options.limits);
+        return report(entries, options, io);
+      }
+      case 'cognates': {
+        const [fromPath, toPath, ...words] = requireFiles(command, rest, 2);
+        return cognates(fromPath, toPath, await wordsFrom(words, io), options, io);
+      }
+      case 'chain': {
+        const [fromLang, toLang, ...words] = requireArgs(command, rest, 2, 'languages');
+        return chain(fromLang, toLang, await wordsFrom(words, io), options, io);
+      }
+      case 'reconstruct': {
+        const [proto, ...reflexes] = requireArgs(command, rest, 3, 'languages');
+        return reconstruction(proto, reflexes, options, io);
+      }
+      case 'interactions': {
+        const [rulesPath, ...words] = requireFiles(command, rest, 1);
+        const ruleset = loadRuleset(readRulesetFiles(io, rulesPath, options.paths));
+        return interactions(ruleset, await wordsFrom(words, io), options, io);
+      }
+      case 'generate': {
+        const [path] = requireFiles(command, rest, 1);
+        const text = io.readFile(path);
+        if (text === null) throw new Error(`Cannot read ${path}`);
+        const words = generateAllWords(parsePhonemesFile(text).phonotactics);
+        if (options.json) io.out(JSON.stringify(words));
+        else words.forEach(word => io.out(word));
+        return 0;
+      }
+      case 'format': {
+        const [path] = requireFiles(command, rest, 1);
+        return format(path, options, io);
+      }
+      case 'lint':
+        return lint(requireFiles(command, rest, 1), options, io);
+      case 'test':
+        return test(rest.length > 0 ? rest : defaultTests(io), options, io);
+      default:
+        io.err(`Unknown command "${command}"`);
+        io.err(USAGE);
+        return 2;
+    }
+  } catch (e) {
+    io.err(e instanceof Error ? e.message : 'Error');
+    return 1;
+  }
+}
+
+function parseArgs(args: string[]): { options: Options; positional: string[] } {
+  const options: Options = { paths: {}, rulesDir: RULES_DIR, limits: { ...DEFAULT_LIMITS }, json: false, rewrite: null, help: false };
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = (): string => {
+      if (i + 1 >= args.length) throw new Error(`${arg} needs a value`);
+      return args[++i];
+    };
+    const count = (): number => {
+      const n = Number(value());
+      if (!Number.isInteger(n) || n <= 0) throw new Error(`${arg} needs a positive whole number`);
+      return n;
+    };
+
+    switch (arg) {
+      case '--source': options.paths.source = value(); break;
+      case '--target': options.paths.target = value(); break;
+      case '--exceptions': options.paths.exceptions = value(); break;
+      case '--rules-dir': options.rulesDir = value(); break;
+      case '--max-results': options.limits.maxResults = count(); break;
+      case '--timeout': options.limits.timeoutMs = count(); break;
+      case '--json': options.json = true; break;
+      case '--expand': options.rewrite = 'expand'; break;
+      case '--compact': options.rewrite = 'compact'; break;
+      case '-h':
+      case '--help': options.help = true; break;
+      case '--':
+        positional.push(...args.slice(i + 1));
+        i = args.length;
+        break;
+      default:
+        if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+        positional.push(arg);
+    }
+  }
+
+  return { options, positional };
+}
+
+function requireFiles(command: string, rest: string[], count: number): string[] {
+  return requireArgs(command, rest, count, 'files');
+}
+
+function requireArgs(command: string, rest: string[], count: number, what: 'files' | 'languages'): string[] {
+  if (rest.length < count) {
+    const expected = count === 1 ? `a ${what.replace(/s$/, '')}` : `${count} ${what}`;
+    throw new Error(`${command}: Expected ${expected}; see phonomizer --help`);
+  }
+  return rest;
+}
+
+// Words from the command line, else one per line of standard input
+async function wordsFrom(args: string[], io: CliIO): Promise<string[]> {
+  if (args.length > 0) return args;
+  return parseLexicon(await io.readStdin()).map(entry => entry.word);
+}
+
+/**
+ * Applies or reverses the rules for each word. Errors become entries, so one
+ * bad word does not stop a batch.
+ */
+function analyze(ruleset: LoadedRuleset, direction: 'forward' | 'backward', words: string[], limits: ReverseLimits): AnalysisEntry[] {
+  const { rules, sourcePhonemes, targetPhonemes, sourcePhonotactics, targetPhonotactics } = ruleset;
+  const search = direction === 'backward'
+    ? createLazyReverser(rules, sourcePhonemes, targetPhonemes, sourcePhonotactics, targetPhonotactics)
+    : null;
+
+  return words.map(word => {
+    try {
+      if (!search) {
+        const { output, valid } = applyRulesChecked(word, rules, sourcePhonemes, targetPhonemes, sourcePhonotactics, targetPhonotactics);
+        return valid ? { word, output } : { word, output, invalid: true };
+      }
+      const { candidates, status } = collectCandidates(search(word, limits));
+      const inputs = candidates.map(c => c.word);
+      return status.complete ? { word, inputs } : { word, inputs, incomplete: true };
+    } catch (e) {
+      return { word, error: e instanceof Error ? e.message : 'Error' };
+    }
+  });
+}
+
+// One line per word: the word, a tab and its output or sources. Errors,
+// incomplete searches and outputs that break the target phonotactics are
+// reported on standard error.
+function report(entries: AnalysisEntry[], options: Options, io: CliIO): number {
+  if (options.json) {
+    io.out(JSON.stringify(entries, null, 2));
+  } else {
+    for (const entry of entries) {
+      io.out(`${entry.word}\t${entry.output ?? entry.inputs?.join(' ') ?? ''}`);
+      if (entry.error !== undefined) io.err(`${entry.word}: ${entry.error}`);
+      if (entry.incomplete) io.err(`${entry.word}: search stopped at a limit; there may be more sources`);
+      if (entry.invalid) io.err(`${entry.word}: ${entry.output} does not fit the target phonotactics`);
+    }
+  }
+  return entries.some(entry => entry.error !== undefined) ? 1 : 0;
+}
+
+/**
+ * Reverses each word through the first ruleset and applies the second to
+ * every proto-form found. Both rulesets must start from the same language.
+ */
+function cognates(fromPath: string, toPath: string, words: string[], options: Options, io: CliIO): number {
+  const from = rulesetLanguages(fromPath);
+  const to = rulesetLanguages(toPath);
+  if (from && to && from.source !== to.source) {
+    throw new Error(`Languages do not share a common ancestor: ${from.source} vs ${to.source}`);
+  }
+
+  const ancestor = from?.source ?? 'ancestor';
+  const stages: ChainStage[] = [
+    {
+      step: { ruleset: basename(fromPath), direction: 'backward', from: from?.target ?? 'from', to: ancestor },
+      ruleset: loadRuleset(readRulesetFiles(io, fromPath, options.paths)),
+    },
+    {
+      step: { ruleset: basename(toPath), direction: 'forward', from: ancestor, to: to?.target ?? 'to' },
+      ruleset: loadRuleset(readRulesetFiles(io, toPath)),
+    },
+  ];
+
+  return reportChains(words, stages, options, io, result => ({
+    protoForms: result.nodes[1].forms.map(form => form.word),
+    cognates: result.outputs,
+  }));
+}
+
+/**
+ * Runs each word along the path of rulesets from one language to another,
+ * found in the family tree (or among the rulesets in --rules-dir)
+ */
+function chain(fromLang: string, toLang: string, words: string[], options: Options, io: CliIO): number {
+  const path = rulesetPath(fromLang, toLang, options, io);
+  if (path.length === 0) throw new Error('Expected two different languages');
+
+  const stages = loadStages(path, options, io);
+  if (!options.json) io.err(`Path: ${[fromLang, ...path.map(step => `${step.direction === 'forward' ? '→' : '←'} ${step.to}`)].join(' ')}`);
+
+  return reportChains(words, stages, options, io, result => ({
+    path: path.map(step => step.ruleset),
+    forms: result.nodes.map(node => ({ language: node.language, forms: node.forms.map(form => form.word) })),
+    outputs: result.outputs,
+  }));
+}
+
+/**
+ * Reconstructs the proto-forms behind forms in several daughters (given as
+ * lang=form), one line per candidate: the form, the daughters it explains,
+ * and what it would give in the others
+ */
+function reconstruction(proto: string, args: string[], options: Options, io: CliIO): number {
+  const reflexes = args.map(arg => {
+    const [language, word, ...rest] = arg.split('=');
+    if (!language || !word || rest.length > 0) throw new Error(`Expected lang=form, got "${arg}"`);
+    const path = rulesetPath(proto, language, options, io);
+    if (path.length === 0 || path.some(step => step.direction === 'backward')) {
+      throw new Error(`${language} does not descend from ${proto}`);
+    }
+    return { language, word, stages: loadStages(path, options, io) };
+  });
+
+  const { candidates, complete } = reconstruct(reflexes, options.limits);
+  if (options.json) {
+    io.out(JSON.stringify(complete ? { candidates } : { candidates, incomplete: true }, null, 2));
+    return 0;
+  }
+  for (const candidate of candidates) {
+    const rulesOut = candidate.rulesOut.map(out => `${out.language}:${out.predicted ?? '-'}`);
+    io.out(`${candidate.form}\t${candidate.explains.join(' ')}\t${rulesOut.join(' ')}`);
+  }
+  if (!complete) io.err('A search stopped at a limit; there may be more candidates');
+  return 0;
+}
+
+/**
+ * One line per interacting pair of rules and kind: the rules' lines, the
+ * kind, and an example word through the rules in their order. The words, if
+ * any, are a lexicon to take the examples from.
+ */
+function interactions(ruleset: LoadedRuleset, words: string[], options: Options, io: CliIO): number {
+  const analysis = analyzeInteractions(ruleset, words);
+  if (options.json) {
+    io.out(JSON.stringify(interactionsToJson(analysis), null, 2));
+    return 0;
+  }
+  for (const { first, second, kinds, examples } of analysis.interactions) {
+    for (const kind of kinds) {
+      const [example] = examples[kind]!;
+      const lexeme = example.lexeme !== undefined ? ` (${example.lexeme})` : '';
+      io.out(`${analysis.rules[first].line}\t${analysis.rules[second].line}\t${kind}\t${example.actual.join(' → ')}${lexeme}`);
+    }
+  }
+  for (const { word, error } of analysis.rejected) io.err(`${word}: ${error}`);
+  if (!analysis.complete) io.err('The analysis stopped at its time limit; later pairs are not classified');
+  return 0;
+}
+
+/**
+ * The graph of languages, as in the app: from family_tree.json next to
+ * --rules-dir, or from the source_target names of its rulesets when there
+ * is no tree
+ */
+function languageGraph(options: Options, io: CliIO): LanguageGraph {
+  const treePath = join(dirname(options.rulesDir), FAMILY_TREE);
+  const text = io.readFile(treePath);
+  if (text === null) {
+    const ids = io.listFiles(options.rulesDir).filter(name => name.endsWith('.phono')).map(name => name.replace(/\.phono$/, ''));
+    return buildLanguageGraph(ids);
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${treePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return familyGraph(parseFamilyTree(json));
+}
+
+// The path of rulesets in --rules-dir from one language to another
+function rulesetPath(from: string, to: string, options: Options, io: CliIO): PathStep[] {
+  const path = findPath(languageGraph(options, io), from, to);
+  if (!path) throw new Error(`No chain of rulesets in ${options.rulesDir} connects ${from} and ${to}`);
+  return path;
+}
+
+function loadStages(path: PathStep[], options: Options, io: CliIO): ChainStage[] {
+  return path.map(step => ({
+    step,
+    ruleset: loadRuleset(readRulesetFiles(io, join(options.rulesDir, `${step.ruleset}.phono`))),
+  }));
+}
+
+// One line per word with the forms at the end of the chain, or JSON with
+// whatever `details` picks out of each result. A word that gives no form
+// fails, with the reasons its forms were dropped on standard error.
+function reportChains(
+  words: string[],
+  stages: ChainStage[],
+  options: Options,
+  io: CliIO,
+  details: (result: ChainResult) => object
+): number {
+  let failed = false;
+  const results = words.map(word => {
+    try {
+      const result = runChain(word, stages, options.limits);
+      const rejected = result.nodes.flatMap(node => node.rejected.map(r => ({ language: node.language, ...r })));
+      const empty = result.outputs.length === 0;
+      if (empty) failed = true;
+      if (!options.json) {
+        io.out(`${word}\t${result.outputs.join(' ')}`);
+        if (empty && rejected.length === 0) io.err(`${word}: no forms`);
+        if (empty) rejected.forEach(r => io.err(`${word}: ${r.word} (${r.language}): ${r.reason}`));
+        if (!result.complete) io.err(`${word}: search stopped at a limit; there may be more forms`);
+      }
+      const entry = empty ? { word, ...details(result), rejected } : { word, ...details(result) };
+      return result.complete ? entry : { ...entry, incomplete: true };
+    } catch (e) {
+      failed = true;
+      const error = e instanceof Error ? e.message : 'Error';
+      if (!options.json) {
+        io.out(`${word}\t`);
+        io.err(`${word}: ${error}`);
+      }
+      return { word, error };
+    }
+  });
+
+  if (options.json) io.out(JSON.stringify(results, null, 2));
+  return failed ? 1 : 0;
+}
+
+interface LintProblem {
+  file: string;
+  message: string;
+  line?: number;            // Set for warnings about a rule
+  kind?: LintKind;          // Set for warnings; problems without one are errors
+}
+
+/**
+ * Checks that each ruleset and its companion files parse: rules, exceptions,
+ * feature tables, phoneme files and regression tests. Rules that can never do
+ * anything are reported as warnings, which do not fail the check.
+ */
+function lint(paths: string[], options: Options, io: CliIO): number {
+  const problems: LintProblem[] = [];
+  const warnings: LintProblem[] = [];
+  const check = <T>(file: string, run: () => T): T | null => {
+    try {
+      return run();
+    } catch (e) {
+      problems.push({ file, message: e instanceof Error ? e.message : 'Error' });
+      return null;
+    }
+  };
+
+  for (const path of paths) {
+    const files = check(path, () => readRulesetFiles(io, path, options.paths));
+    if (files) {
+      const features = check(`${path} (features)`, () => files.sourceFeatures || files.targetFeatures
+        ? mergeFeatureTables(parseFeaturesFile(files.sourceFeatures ?? ''), parseFeaturesFile(files.targetFeatures ?? ''))
+        : null);
+      const rules = check(path, () => parseRules(files.rules, { features }));
+      if (files.exceptions !== undefined) {
+        const exceptionsPath = options.paths.exceptions ?? path.replace(/\.phono$/, '.exceptions');
+        check(exceptionsPath, () => {
+          const entries = parseExceptionsFile(files.exceptions!);
+          if (rules) withExceptions(rules, entries);
+        });
+      }
+      const source = check(`${path} (source phonemes)`, () => parsePhonemesFile(files.sourcePhonemes));
+      const target = check(`${path} (target phonemes)`, () => parsePhonemesFile(files.targetPhonemes));
+      if (rules) {
+        for (const { line, kind, message } of lintRules(files.rules, rules, source?.phonemes ?? [], target?.phonemes ?? [])) {
+          warnings.push({ file: path, message: `Line ${line}: ${message}`, line, kind });
+        }
+      }
+    }
+
+    const tests = io.readFile(`${path}.test`);
+    if (tests !== null) check(`${path}.test`, () => parseRegressionFile(tests));
+  }
+
+  if (options.json) {
+    io.out(JSON.stringify([...problems, ...warnings], null, 2));
+  } else {
+    for (const problem of problems) io.out(`${problem.file}: ${problem.message}`);
+    for (const warning of warnings) io.out(`${warning.file}: warning: ${warning.message} [${warning.kind}]`);
+    if (problems.length === 0) {
+      const summary = warnings.length > 0 ? ` (${warnings.length} warning${warnings.length !== 1 ? 's' : ''})` : '';
+      io.out(`${paths.length} ruleset${paths.length !== 1 ? 's' : ''} OK${summary}`);
+    }
+  }
+  return problems.length > 0 ? 1 : 0;
+}
+
+/**
+ * Prints a rules file laid out by the formatter. With --expand or --compact,
+ * the parsed rules are written back out instead; feature bundles are read
+ * with the ruleset's feature tables, found as for apply.
+ */
+function format(path: string, options: Options, io: CliIO): number {
+  const text = io.readFile(path);
+  if (text === null) throw new Error(`Cannot read ${path}`);
+
+  let output: string;
+  if (options.rewrite) {
+    const files = rulesetLanguages(path) || (options.paths.source && options.paths.target)
+      ? readRulesetFiles(io, path, options.paths)
+      : null;
+    const features = files?.sourceFeatures || files?.targetFeatures
+      ? mergeFeatureTables(parseFeaturesFile(files.sourceFeatures ?? ''), parseFeaturesFile(files.targetFeatures ?? ''))
+      : null;
+    output = serializeRules(parseRules(text, { features }), { expand: options.rewrite === 'expand' });
+  } else {
+    output = formatRules(text);
+  }
+  if (output !== '') io.out(output.replace(/\n$/, ''));
+  return 0;
+}
+
+function defaultTests(io: CliIO): string[] {
+  const paths = io.listFiles(RULES_DIR).filter(name => name.endsWith('.phono.test')).sort().map(name => join(RULES_DIR, name));
+  if (paths.length === 0) throw new Error(`No .phono.test files in ${RULES_DIR}`);
+  return paths;
+}
+
+/**
+ * Runs the regression tests of each ruleset (given as X.phono or X.phono.test)
+ */
+function test(paths: string[], options: Options, io: CliIO): number {
+  const reports = paths.map(path => {
+    const rulesPath = path.replace(/\.test$/, '');
+    const ruleset = basename(rulesPath).replace(/\.phono$/, '');
+    const text = io.readFile(`${rulesPath}.test`);
+    if (text === null) throw new Error(`Cannot read ${rulesPath}.test`);
+    const report = runRegressionTests(parseRegressionFile(text), loadRuleset(readRulesetFiles(io, rulesPath, options.paths)));
+    return { ruleset, ...report };
+  });
+
+  if (options.json) {
+    io.out(JSON.stringify(reports.map(({ ruleset, passed, failed, results }) => ({
+      ruleset,
+      passed,
+      failed,
+      failures: results.filter(r => !r.passed).map(({ test, actual, error }) => ({ ...test, actual, error })),
+    })), null, 2));
+  } else {
+    for (const { ruleset, passed, failed, results } of reports) {
+      io.out(`${ruleset}: ${passed} passed, ${failed} failed`);
+      for (const result of results) {
+        if (!result.passed) io.out(formatFailure(result).replace(/^/gm, '  '));
+      }
+    }
+  }
+  return reports.some(r => r.failed > 0) ? 1 : 0;
+}
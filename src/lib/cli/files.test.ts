@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { readRulesetFiles, rulesetLanguages, dirname, join } from './files';
+
+function memoryFiles(files: Record<string, string>) {
+  return {
+    readFile: (path: string) => files[path] ?? null,
+    listFiles: () => [],
+  };
+}
+
+describe('rulesetLanguages', () => {
+  it('should read the languages from the file name', () => {
+    expect(rulesetLanguages('public/rules/sem-pro_arb.phono')).toEqual({ source: 'sem-pro', target: 'arb' });
+    expect(rulesetLanguages('stress-test.phono')).toBeNull();
+  });
+});
+
+describe('readRulesetFiles', () => {
+  it('should find phoneme, feature and exception files next to the rules', () => {
+    const files = memoryFiles({
+      'public/rules/sem-pro_arb.phono': 'p > f',
+      'public/rules/sem-pro_arb.exceptions': 'pam: line 1',
+      'public/phonemes/sem-pro.phonemes': 'p a m',
+      'public/phonemes/arb.phonotactics': 'C = [f m]\nV = [a]\nC V C',
+      'public/phonemes/arb.phonemes': 'f a m',
+      'public/phonemes/arb.features': 'f: +cont',
+    });
+    expect(readRulesetFiles(files, 'public/rules/sem-pro_arb.phono')).toEqual({
+      rules: 'p > f',
+      exceptions: 'pam: line 1',
+      sourcePhonemes: 'p a m',
+      targetPhonemes: 'C = [f m]\nV = [a]\nC V C',
+      sourceFeatures: undefined,
+      targetFeatures: 'f: +cont',
+    });
+  });
+
+  it('should look in the matching subdirectory of phonemes first', () => {
+    const files = memoryFiles({
+      'rules/alpha/ltc_yue.phono': 'a > a',
+      'phonemes/ltc.phonemes': 'a',
+      'phonemes/alpha/yue.phonemes': 'a b',
+    });
+    const result = readRulesetFiles(files, 'rules/alpha/ltc_yue.phono');
+    expect([result.sourcePhonemes, result.targetPhonemes]).toEqual(['a', 'a b']);
+  });
+
+  it('should use the given paths instead', () => {
+    const files = memoryFiles({ 'test.phono': 'a > b', 'in.phonemes': 'a', 'out.phonemes': 'b' });
+    const result = readRulesetFiles(files, 'test.phono', { source: 'in.phonemes', target: 'out.phonemes' });
+    expect([result.sourcePhonemes, result.targetPhonemes]).toEqual(['a', 'b']);
+  });
+
+  it('should report missing files', () => {
+    const files = memoryFiles({ 'rules/a_b.phono': 'a > b', 'test.phono': 'a > b' });
+    expect(() => readRulesetFiles(files, 'rules/x_y.phono')).toThrow('Cannot read rules/x_y.phono');
+    expect(() => readRulesetFiles(files, 'rules/a_b.phono')).toThrow('No phoneme file for "a" (looked in phonemes)');
+    expect(() => readRulesetFiles(files, 'test.phono')).toThrow('Expected a file name like source_target.phono');
+  });
+});
+
+describe('paths', () => {
+  it('should split and join "/" paths', () => {
+    expect(dirname('public/rules/a_b.phono')).toBe('public/rules');
+    expect(dirname('a_b.phono')).toBe('.');
+    expect(join('.', 'a.phonemes')).toBe('a.phonemes');
+    expect(join('public/', 'a.phonemes')).toBe('public/a.phonemes');
+  });
+});
@@ -0,0 +1,114 @@
+import type { RulesetFiles } from '../rules/regression';
+
+/**
+ * The files the command-line interface reads. Paths use "/" and are relative
+ * to the working directory or absolute.
+ */
+export interface FileSource {
+  readFile(path: string): string | null;      // null if the file does not exist
+  listFiles(dir: string): string[];           // Names (not paths) in a directory, [] if none
+}
+
+/**
+ * Paths that replace a ruleset's companion files
+ */
+export interface RulesetPaths {
+  source?: string;          // Source language phoneme file
+  target?: string;          // Target language phoneme file
+  exceptions?: string;
+}
+
+/**
+ * The languages of a ruleset, from its file name:
+ * public/rules/sem-pro_arb.phono → { source: 'sem-pro', target: 'arb' }
+ */
+export function rulesetLanguages(rulesPath: string): { source: string; target: string } | null {
+  const [source, target, ...rest] = basename(rulesPath).replace(/\.phono$/, '').split('_');
+  return source && target && rest.length === 0 ? { source, target } : null;
+}
+
+/**
+ * Reads a ruleset and the files that go with it, the way the app finds them:
+ *   public/rules/sem-pro_arb.phono
+ *   public/rules/sem-pro_arb.exceptions             (optional)
+ *   public/phonemes/sem-pro.phonotactics or .phonemes
+ *   public/phonemes/sem-pro.features                (optional)
+ *   public/phonemes/arb.phonotactics or .phonemes, arb.features
+ *
+ * Phoneme files for a ruleset in a subdirectory of rules/ (e.g. rules/alpha/)
+ * are looked up in the same subdirectory of phonemes/ first. `paths`
+ * overrides the phoneme and exceptions files.
+ */
+export function readRulesetFiles(files: FileSource, rulesPath: string, paths: RulesetPaths = {}): RulesetFiles {
+  const rules = files.readFile(rulesPath);
+  if (rules === null) throw new Error(`Cannot read ${rulesPath}`);
+
+  const languages = rulesetLanguages(rulesPath);
+  if (!languages && (!paths.source || !paths.target)) {
+    throw new Error(`Expected a file name like source_target.phono, or --source and --target: ${rulesPath}`);
+  }
+
+  const phonemeDirs = phonemeDirectories(dirname(rulesPath));
+  const find = (names: string[]): string | null => {
+    for (const dir of phonemeDirs) {
+      for (const name of names) {
+        const text = files.readFile(join(dir, name));
+        if (text !== null) return text;
+      }
+    }
+    return null;
+  };
+  const readPhonemes = (override: string | undefined, lang: string | undefined): string => {
+    if (override) {
+      const text = files.readFile(override);
+      if (text === null) throw new Error(`Cannot read ${override}`);
+      return text;
+    }
+    const text = find([`${lang}.phonotactics`, `${lang}.phonemes`]);
+    if (text === null) throw new Error(`No phoneme file for "${lang}" (looked in ${phonemeDirs.join(', ')})`);
+    return text;
+  };
+
+  let exceptions: string | undefined;
+  if (paths.exceptions) {
+    const text = files.readFile(paths.exceptions);
+    if (text === null) throw new Error(`Cannot read ${paths.exceptions}`);
+    exceptions = text;
+  } else {
+    exceptions = files.readFile(rulesPath.replace(/\.phono$/, '') + '.exceptions') ?? undefined;
+  }
+
+  return {
+    rules,
+    exceptions,
+    sourcePhonemes: readPhonemes(paths.source, languages?.source),
+    targetPhonemes: readPhonemes(paths.target, languages?.target),
+    sourceFeatures: languages ? find([`${languages.source}.features`]) ?? undefined : undefined,
+    targetFeatures: languages ? find([`${languages.target}.features`]) ?? undefined : undefined,
+  };
+}
+
+// public/rules/alpha → [public/phonemes/alpha, public/phonemes]
+function phonemeDirectories(rulesDir: string): string[] {
+  const parts = rulesDir.split('/');
+  const at = parts.lastIndexOf('rules');
+  if (at === -1) return [rulesDir];
+  const root = [...parts.slice(0, at), 'phonemes'];
+  const sub = parts.slice(at + 1);
+  const dirs: string[] = [];
+  for (let k = sub.length; k >= 0; k--) dirs.push([...root, ...sub.slice(0, k)].join('/'));
+  return dirs;
+}
+
+export function basename(path: string): string {
+  return path.substring(path.lastIndexOf('/') + 1);
+}
+
+export function dirname(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '.' : slash === 0 ? '/' : path.substring(0, slash);
+}
+
+export function join(dir: string, name: string): string {
+  return dir === '.' ? name : `${dir.replace(/\/$/, '')}/${name}`;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { parseFeatureBundle, matchingSegments, changeFeatures } from './matcher';
+import { parseFeaturesFile } from './parser';
+
+const table = parseFeaturesFile(`
+     voice  nasal  stop  labial  dorsal
+p    -      -      +     +       -
+b    +      -      +     +       -
+m    +      +      +     +       -
+t    -      -      +     -       -
+d    +      -      +     -       -
+k    -      -      +     -       +
+s    -      -      -     -       -
+`);
+
+describe('parseFeatureBundle', () => {
+  it('should parse a bundle into feature specifications', () => {
+    expect(parseFeatureBundle('[+stop -voice]')).toEqual([
+      { feature: 'stop', value: '+' },
+      { feature: 'voice', value: '-' }
+    ]);
+  });
+
+  it('should return null for phoneme classes', () => {
+    expect(parseFeatureBundle('[p t k]')).toBeNull();
+  });
+
+  it('should return null for mixed content and nested classes', () => {
+    expect(parseFeatureBundle('[+voice p]')).toBeNull();
+    expect(parseFeatureBundle('[[+voice]]')).toBeNull();
+    expect(parseFeatureBundle('+voice')).toBeNull();
+  });
+});
+
+describe('matchingSegments', () => {
+  it('should return all segments with the given values in table order', () => {
+    expect(matchingSegments(table, [{ feature: 'stop', value: '+' }, { feature: 'voice', value: '-' }]))
+      .toEqual(['p', 't', 'k']);
+  });
+
+  it('should return an empty list when nothing matches', () => {
+    expect(matchingSegments(table, [{ feature: 'nasal', value: '+' }, { feature: 'voice', value: '-' }])).toEqual([]);
+  });
+
+  it('should throw on unknown features', () => {
+    expect(() => matchingSegments(table, [{ feature: 'round', value: '+' }])).toThrow('Unknown feature "round"');
+  });
+});
+
+describe('changeFeatures', () => {
+  it('should find the segment differing only in the changed features', () => {
+    expect(changeFeatures(table, 'p', [{ feature: 'voice', value: '+' }])).toBe('b');
+    expect(changeFeatures(table, 't', [{ feature: 'voice', value: '+' }])).toBe('d');
+  });
+
+  it('should return null when no counterpart exists', () => {
+    expect(changeFeatures(table, 'k', [{ feature: 'voice', value: '+' }])).toBeNull();
+  });
+
+  it('should return null for segments not in the table', () => {
+    expect(changeFeatures(table, 'x', [{ feature: 'voice', value: '+' }])).toBeNull();
+  });
+
+  it('should return the segment itself when nothing changes', () => {
+    expect(changeFeatures(table, 'b', [{ feature: 'voice', value: '+' }])).toBe('b');
+  });
+});
@@ -0,0 +1,58 @@
+import type { FeatureSpec, FeatureTable } from '../types';
+
+/**
+ * Parses a feature bundle like "[+stop -voice]" into feature specifications.
+ * Returns null if the string is not a single bundle (e.g. a phoneme class "[p t k]").
+ * Every token inside the brackets must start with + or -.
+ */
+export function parseFeatureBundle(str: string): FeatureSpec[] | null {
+  const trimmed = str.trim();
+  if (!trimmed.startsWith('[') || !trimmed.endsWith(']')) return null;
+
+  const content = trimmed.slice(1, -1).trim();
+  if (content === '' || content.includes('[') || content.includes(']')) return null;
+
+  const tokens = content.split(/\s+/);
+  if (!tokens.every(t => /^[+-]\S+$/.test(t))) return null;
+
+  return tokens.map(t => ({ feature: t.slice(1), value: t[0] as '+' | '-' }));
+}
+
+function checkFeatures(table: FeatureTable, bundle: FeatureSpec[]): void {
+  for (const { feature } of bundle) {
+    if (!table.features.includes(feature)) {
+      throw new Error(`Unknown feature "${feature}" (known: ${table.features.join(' ')})`);
+    }
+  }
+}
+
+/**
+ * Returns every phoneme in the table whose features satisfy the bundle,
+ * in table order.
+ */
+export function matchingSegments(table: FeatureTable, bundle: FeatureSpec[]): string[] {
+  checkFeatures(table, bundle);
+  return Object.entries(table.segments)
+    .filter(([, row]) => bundle.every(({ feature, value }) => row[feature] === value))
+    .map(([phoneme]) => phoneme);
+}
+
+/**
+ * Finds the phoneme that differs from `segment` only in the features the bundle assigns.
+ * Returns null if the segment is not in the table or has no such counterpart.
+ *
+ * Example: changeFeatures(table, 'p', [+voice]) → 'b'
+ */
+export function changeFeatures(table: FeatureTable, segment: string, bundle: FeatureSpec[]): string | null {
+  checkFeatures(table, bundle);
+  const source = table.segments[segment];
+  if (!source) return null;
+
+  const wanted = { ...source };
+  for (const { feature, value } of bundle) wanted[feature] = value;
+
+  for (const [phoneme, row] of Object.entries(table.segments)) {
+    if (table.features.every(f => row[f] === wanted[f])) return phoneme;
+  }
+  return null;
+}
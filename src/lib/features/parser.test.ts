@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { parseFeaturesFile, mergeFeatureTables } from './parser';
+
+const TABLE = `
+# Stops and nasals
+     voice  nasal  labial
+p    -      -      +
+b    +      -      +
+m    +      +      +
+t    -      -      -
+`;
+
+describe('parseFeaturesFile', () => {
+  it('should read feature names from the header line', () => {
+    const table = parseFeaturesFile(TABLE);
+    expect(table.features).toEqual(['voice', 'nasal', 'labial']);
+  });
+
+  it('should read one row per phoneme', () => {
+    const table = parseFeaturesFile(TABLE);
+    expect(Object.keys(table.segments)).toEqual(['p', 'b', 'm', 't']);
+    expect(table.segments['b']).toEqual({ voice: '+', nasal: '-', labial: '+' });
+  });
+
+  it('should accept 0 for unspecified features', () => {
+    const table = parseFeaturesFile('voice round\na + 0');
+    expect(table.segments['a']).toEqual({ voice: '+', round: '0' });
+  });
+
+  it('should handle multi-character phonemes', () => {
+    const table = parseFeaturesFile('voice\nkʼ -\nɬʼ -');
+    expect(Object.keys(table.segments)).toEqual(['kʼ', 'ɬʼ']);
+  });
+
+  it('should return an empty table for empty input', () => {
+    expect(parseFeaturesFile('')).toEqual({ features: [], segments: {} });
+  });
+
+  it('should throw when a row has the wrong number of values', () => {
+    expect(() => parseFeaturesFile('voice nasal\np -')).toThrow('Line 2: Expected 2 feature values for "p", got 1');
+  });
+
+  it('should throw on invalid values', () => {
+    expect(() => parseFeaturesFile('voice\np yes')).toThrow('Invalid value "yes"');
+  });
+});
+
+describe('mergeFeatureTables', () => {
+  it('should union features and segments', () => {
+    const a = parseFeaturesFile('voice\np -\nb +');
+    const b = parseFeaturesFile('nasal\nm +');
+    const merged = mergeFeatureTables(a, b);
+    expect(merged.features).toEqual(['voice', 'nasal']);
+    expect(merged.segments['p']).toEqual({ voice: '-', nasal: '0' });
+    expect(merged.segments['m']).toEqual({ voice: '0', nasal: '+' });
+  });
+
+  it('should prefer earlier tables for shared phonemes', () => {
+    const a = parseFeaturesFile('voice\np -');
+    const b = parseFeaturesFile('voice\np +');
+    expect(mergeFeatureTables(a, b).segments['p']).toEqual({ voice: '-' });
+  });
+
+  it('should skip null tables', () => {
+    const a = parseFeaturesFile('voice\np -');
+    expect(mergeFeatureTables(null, a, undefined)).toEqual(a);
+  });
+});
@@ -0,0 +1,84 @@
+import type { FeatureTable, FeatureValue } from '../types';
+
+const VALUES = new Set<string>(['+', '-', '0']);
+
+/**
+ * Parses a .features file: a table giving every phoneme a value for each feature.
+ *
+ * Format:
+ *        voice  continuant  nasal
+ *   p    -      -           -
+ *   b    +      -           -
+ *   m    +      -           +
+ *
+ * - The first non-comment line names the features (whitespace-separated)
+ * - Each following line is a phoneme followed by one value per feature
+ * - Values are + (present), - (absent) or 0 (unspecified / not applicable)
+ * - Lines starting with # are comments; empty lines are ignored
+ */
+export function parseFeaturesFile(text: string): FeatureTable {
+  const table: FeatureTable = { features: [], segments: {} };
+  let headerSeen = false;
+
+  const lines = text.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '' || line.startsWith('#')) continue;
+
+    const cells = line.split(/\s+/);
+
+    if (!headerSeen) {
+      table.features = cells;
+      headerSeen = true;
+      continue;
+    }
+
+    const [phoneme, ...values] = cells;
+    if (values.length !== table.features.length) {
+      throw new Error(
+        `Line ${i + 1}: Expected ${table.features.length} feature values for "${phoneme}", got ${values.length}`
+      );
+    }
+
+    const row: Record<string, FeatureValue> = {};
+    for (let j = 0; j < values.length; j++) {
+      if (!VALUES.has(values[j])) {
+        throw new Error(`Line ${i + 1}: Invalid value "${values[j]}" for feature ${table.features[j]} (use +, - or 0)`);
+      }
+      row[table.features[j]] = values[j] as FeatureValue;
+    }
+    table.segments[phoneme] = row;
+  }
+
+  return table;
+}
+
+/**
+ * Merges several feature tables into one. Earlier tables win when a phoneme
+ * appears in more than one; features missing from a table are treated as 0.
+ */
+export function mergeFeatureTables(...tables: Array<FeatureTable | null | undefined>): FeatureTable {
+  const merged: FeatureTable = { features: [], segments: {} };
+  const featureSet = new Set<string>();
+
+  for (const table of tables) {
+    if (!table) continue;
+    for (const feature of table.features) {
+      if (!featureSet.has(feature)) {
+        featureSet.add(feature);
+        merged.features.push(feature);
+      }
+    }
+    for (const [phoneme, row] of Object.entries(table.segments)) {
+      if (!(phoneme in merged.segments)) merged.segments[phoneme] = { ...row };
+    }
+  }
+
+  for (const row of Object.values(merged.segments)) {
+    for (const feature of merged.features) {
+      if (!(feature in row)) row[feature] = '0';
+    }
+  }
+
+  return merged;
+}
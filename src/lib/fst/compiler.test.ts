@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { compileRules, transduce, MAX_STATES } from './compiler';
+import { parseRules } from '../rules/parser';
+import { applyRuleGroup } from '../rules/engine';
+import { groupRules } from '../rules/groups';
+import type { Rule } from '../types';
+
+// Every word over the alphabet up to the given length
+function allWords(alphabet: string[], maxLength: number): string[][] {
+  const words: string[][] = [[]];
+  for (let start = 0; start < words.length; start++) {
+    if (words[start].length === maxLength) continue;
+    for (const token of alphabet) words.push([...words[start], token]);
+  }
+  return words;
+}
+
+function interpret(tokens: string[], rules: Rule[]): string[] {
+  return groupRules(rules).reduce((current, group) => applyRuleGroup(current, group), tokens);
+}
+
+function expectSameAsEngine(text: string, alphabet: string[], maxLength = 4) {
+  const rules = parseRules(text);
+  const transducer = compileRules(rules);
+  expect(transducer).not.toBeNull();
+  for (const word of allWords(alphabet, maxLength)) {
+    expect(transduce(transducer!, word), word.join('')).toEqual(interpret(word, rules));
+  }
+}
+
+describe('compileRules', () => {
+  it('should return null for rules it cannot compile', () => {
+    expect(compileRules(parseRules('@mode ltr\na > b / b _'))).toBeNull();
+    expect(compileRules(parseRules('a > b / $ _'))).toBeNull();
+    expect(compileRules(parseRules('a > b @onset'))).toBeNull();
+  });
+
+  it('should compile a ruleset once', () => {
+    const rules = parseRules('a > b');
+    expect(compileRules(rules)).toBe(compileRules(rules));
+  });
+
+  it('should start over once a transducer has built too many states', () => {
+    // Every history of five tokens is a state of its own
+    const rules = parseRules('a > b / b b b b b _');
+    const first = compileRules(rules)!;
+    for (const word of allWords(['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'], 5)) transduce(first, word);
+    expect(first.machines[0].states.length).toBeGreaterThan(MAX_STATES);
+
+    const second = compileRules(rules)!;
+    expect(second).not.toBe(first);
+    expect(second.machines[0].states).toHaveLength(1);
+    expect(transduce(second, ['b', 'b', 'b', 'b', 'b', 'a'])).toEqual(['b', 'b', 'b', 'b', 'b', 'b']);
+    expect(compileRules(rules)).toBe(second);
+  });
+
+  it('should compile an empty ruleset to the identity', () => {
+    expect(transduce(compileRules([])!, ['a', 'b'])).toEqual(['a', 'b']);
+  });
+});
+
+describe('transduce', () => {
+  it('should match the engine on context-free rules', () => {
+    expectSameAsEngine('a > b\nb > c', ['a', 'b', 'c']);
+  });
+
+  it('should match the engine on contexts and word edges', () => {
+    expectSameAsEngine('a > b / c _\nb > a / _ #\nc > a / # _', ['a', 'b', 'c']);
+  });
+
+  it('should match the engine on multi-token matches and contexts', () => {
+    expectSameAsEngine('a b > c / c _ a b\nc a > a', ['a', 'b', 'c'], 5);
+  });
+
+  it('should match the engine on overlapping matches', () => {
+    expectSameAsEngine('a a > b', ['a', 'b'], 5);
+  });
+
+  it('should match the engine on deletion and insertion', () => {
+    expectSameAsEngine('a > ∅ / _ #\n∅ > c / b _ b\n∅ > a / # _', ['a', 'b', 'c']);
+  });
+
+  it('should match the engine on class expansions', () => {
+    expectSameAsEngine('C = [b c]\nC > a / a _ a\n[a b] > [b c] / # _', ['a', 'b', 'c']);
+  });
+
+  it('should match the engine on back-references', () => {
+    expectSameAsEngine('C = [b c]\nV = [a]\nC₁ V₂ > V₂ C₁ / # _', ['a', 'b', 'c']);
+  });
+
+  it('should match the engine when rules feed and bleed each other', () => {
+    expectSameAsEngine('a > b / _ c\nb > c / _ c\nc > ∅ / b _', ['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,360 @@
+import type { Rule } from '../types';
+import { groupRules, usesSyllables, usesTiers } from '../rules/groups';
+
+/**
+ * A step of a compiled machine: the state reached and the tokens written
+ */
+export interface Transition {
+  next: number;
+  output: string[];
+  deletions: number[];      // Machines (by index) that deleted a match on this step
+}
+
+/**
+ * What one rule group's machine remembers between input tokens
+ */
+interface MachineState {
+  history: string[];        // Last tokens decided, as many as the longest left context
+  buffer: string[];         // Tokens read but not yet decided (a partial match)
+  atStart: boolean;         // Nothing decided yet (only tracked for # left contexts)
+  gapDone: boolean;         // The gap before buffer[0] has been checked for insertions
+}
+
+/**
+ * One simultaneous rule group compiled into a sequential transducer.
+ * States are interned when first reached and transitions are memoized, so
+ * only the part of the machine that words actually use is ever built.
+ */
+interface RuleMachine {
+  group: Rule[];
+  historyLength: number;
+  tracksStart: boolean;
+  states: MachineState[];
+  ids: Map<string, number>;
+  steps: Map<number, Map<string, { next: number; output: string[]; deletions: number }>>;
+  flushes: Map<number, { output: string[]; deletions: number }>;
+}
+
+/**
+ * A ruleset compiled into a composition of rule machines. A composed state
+ * holds one state per machine; composed states and their transitions are
+ * built on demand like those of the machines.
+ */
+export interface Transducer {
+  machines: RuleMachine[];
+  states: number[][];
+  ids: Map<string, number>;
+  steps: Map<number, Map<string, Transition>>;
+  flushes: Map<number, Transition>;
+}
+
+const compiled = new WeakMap<Rule[], Transducer | null>();
+
+// States a transducer and its machines may build in all before compileRules
+// starts over with a fresh one, so that long batches run in bounded memory
+export const MAX_STATES = 20000;
+
+/**
+ * Compiles a ruleset into a finite-state transducer over phoneme tokens.
+ *
+ * Running the transducer gives the same output as applying the rules one by
+ * one (see transduce). Rules whose matches depend on more than the tokens
+ * around them cannot be compiled: iterative modes, syllable conditions and
+ * tier marks. For those rulesets this returns null and callers interpret the
+ * rules instead. Lexical exceptions are ignored; callers handle exception
+ * words separately.
+ *
+ * Results are cached per rules array. Once the cached transducer has built
+ * more than MAX_STATES states it is dropped and compiled again; whoever still
+ * holds the old one can keep using it.
+ */
+export function compileRules(rules: Rule[]): Transducer | null {
+  const cached = compiled.get(rules);
+  if (cached !== undefined && !(cached && isFull(cached))) return cached;
+
+  const groups = groupRules(rules);
+  const transducer = groups.every(isCompilable) ? createTransducer(groups.map(createMachine)) : null;
+  compiled.set(rules, transducer);
+  return transducer;
+}
+
+function isFull(transducer: Transducer): boolean {
+  return transducer.machines.reduce((count, machine) => count + machine.states.length, transducer.states.length) > MAX_STATES;
+}
+
+function isCompilable(group: Rule[]): boolean {
+  const mode = group[0].mode;
+  return mode !== 'ltr' && mode !== 'rtl' && !group.some(rule => usesSyllables(rule) || usesTiers(rule));
+}
+
+/**
+ * Runs the transducer over a tokenized word and returns the output tokens
+ */
+export function transduce(transducer: Transducer, tokens: string[]): string[] {
+  const output: string[] = [];
+  let state = 0;
+  for (const token of tokens) {
+    const transition = step(transducer, state, token);
+    output.push(...transition.output);
+    state = transition.next;
+  }
+  output.push(...flush(transducer, state).output);
+  return output;
+}
+
+/**
+ * Reads one input token in a composed state. Each machine's output is the
+ * next machine's input.
+ */
+export function step(transducer: Transducer, state: number, symbol: string): Transition {
+  let bySymbol = transducer.steps.get(state);
+  if (!bySymbol) {
+    bySymbol = new Map();
+    transducer.steps.set(state, bySymbol);
+  }
+  const cached = bySymbol.get(symbol);
+  if (cached) return cached;
+
+  const parts = transducer.states[state];
+  const next: number[] = [];
+  const deletions: number[] = [];
+  let tokens = [symbol];
+  transducer.machines.forEach((machine, k) => {
+    let machineState = parts[k];
+    const output: string[] = [];
+    for (const token of tokens) {
+      const result = machineStep(machine, machineState, token);
+      machineState = result.next;
+      output.push(...result.output);
+      for (let d = 0; d < result.deletions; d++) deletions.push(k);
+    }
+    next.push(machineState);
+    tokens = output;
+  });
+
+  const transition = { next: internComposed(transducer, next), output: tokens, deletions };
+  bySymbol.set(symbol, transition);
+  return transition;
+}
+
+/**
+ * Ends the input in a composed state: each machine decides what is left in
+ * its lookahead, and passes the result on before the next machine ends.
+ */
+export function flush(transducer: Transducer, state: number): Transition {
+  const cached = transducer.flushes.get(state);
+  if (cached) return cached;
+
+  const parts = transducer.states[state];
+  const deletions: number[] = [];
+  let tokens: string[] = [];
+  transducer.machines.forEach((machine, k) => {
+    let machineState = parts[k];
+    const output: string[] = [];
+    for (const token of tokens) {
+      const result = machineStep(machine, machineState, token);
+      machineState = result.next;
+      output.push(...result.output);
+      for (let d = 0; d < result.deletions; d++) deletions.push(k);
+    }
+    const end = machineFlush(machine, machineState);
+    output.push(...end.output);
+    for (let d = 0; d < end.deletions; d++) deletions.push(k);
+    tokens = output;
+  });
+
+  const transition = { next: state, output: tokens, deletions };
+  transducer.flushes.set(state, transition);
+  return transition;
+}
+
+function createTransducer(machines: RuleMachine[]): Transducer {
+  const transducer: Transducer = { machines, states: [], ids: new Map(), steps: new Map(), flushes: new Map() };
+  internComposed(transducer, machines.map(() => 0));
+  return transducer;
+}
+
+function internComposed(transducer: Transducer, parts: number[]): number {
+  const key = parts.join(',');
+  let id = transducer.ids.get(key);
+  if (id === undefined) {
+    id = transducer.states.length;
+    transducer.states.push(parts);
+    transducer.ids.set(key, id);
+  }
+  return id;
+}
+
+function isEdge(context: string[]): boolean {
+  return context.length === 1 && context[0] === '#';
+}
+
+function createMachine(group: Rule[]): RuleMachine {
+  let historyLength = 0;
+  let tracksStart = false;
+  for (const { leftContext } of group) {
+    if (leftContext !== undefined) {
+      if (isEdge(leftContext)) tracksStart = true;
+      else historyLength = Math.max(historyLength, leftContext.length);
+    }
+  }
+
+  const machine: RuleMachine = {
+    group, historyLength, tracksStart,
+    states: [], ids: new Map(), steps: new Map(), flushes: new Map()
+  };
+  intern(machine, { history: [], buffer: [], atStart: tracksStart, gapDone: false });
+  return machine;
+}
+
+function intern(machine: RuleMachine, state: MachineState): number {
+  const key = `${state.atStart ? 1 : 0}${state.gapDone ? 1 : 0}\x02${state.history.join('\x01')}\x02${state.buffer.join('\x01')}`;
+  let id = machine.ids.get(key);
+  if (id === undefined) {
+    id = machine.states.length;
+    machine.states.push(state);
+    machine.ids.set(key, id);
+  }
+  return id;
+}
+
+function machineStep(machine: RuleMachine, state: number, symbol: string): { next: number; output: string[]; deletions: number } {
+  let bySymbol = machine.steps.get(state);
+  if (!bySymbol) {
+    bySymbol = new Map();
+    machine.steps.set(state, bySymbol);
+  }
+  const cached = bySymbol.get(symbol);
+  if (cached) return cached;
+
+  const current = machine.states[state];
+  const { state: after, output, deletions } = decide(machine, { ...current, buffer: [...current.buffer, symbol] }, false);
+  const result = { next: intern(machine, after), output, deletions };
+  bySymbol.set(symbol, result);
+  return result;
+}
+
+function machineFlush(machine: RuleMachine, state: number): { output: string[]; deletions: number } {
+  const cached = machine.flushes.get(state);
+  if (cached) return cached;
+
+  const { output, deletions } = decide(machine, machine.states[state], true);
+  const result = { output, deletions };
+  machine.flushes.set(state, result);
+  return result;
+}
+
+/**
+ * Decides every position it can, the way the engine's simultaneous
+ * application does: at each position the first matching member applies and
+ * its match is skipped; an insertion fills the gap before the token, which
+ * is then kept. A position waits for more input only while a member before
+ * the first certain match could still match, so output is delayed no longer
+ * than a partial match.
+ */
+function decide(
+  machine: RuleMachine,
+  initial: MachineState,
+  atEnd: boolean
+): { state: MachineState; output: string[]; deletions: number } {
+  const history = [...initial.history];
+  const buffer = [...initial.buffer];
+  let atStart = initial.atStart;
+  let gapDone = initial.gapDone;
+  const output: string[] = [];
+  let deletions = 0;
+
+  const consume = (count: number) => {
+    for (let k = 0; k < count; k++) history.push(buffer.shift()!);
+    history.splice(0, Math.max(0, history.length - machine.historyLength));
+    atStart = false;
+  };
+
+  while (true) {
+    if (!gapDone) {
+      const member = firstMatch(machine.group, history, buffer, atStart, atEnd);
+      if (member === undefined) break;
+      if (member && member.from.length > 0) {
+        output.push(...member.to);
+        if (member.to.length === 0) deletions++;
+        consume(member.from.length);
+        continue;
+      }
+      if (member) output.push(...member.to);
+      gapDone = true;
+    }
+    if (buffer.length === 0) break;
+    output.push(buffer[0]);
+    consume(1);
+    gapDone = false;
+  }
+
+  return { state: { history, buffer, atStart: atStart && machine.tracksStart, gapDone }, output, deletions };
+}
+
+/**
+ * The first member that matches at the start of the buffer, null if none
+ * does, or undefined if that depends on input not yet read
+ */
+function firstMatch(
+  group: Rule[],
+  history: string[],
+  buffer: string[],
+  atStart: boolean,
+  atEnd: boolean
+): Rule | null | undefined {
+  for (const rule of group) {
+    const verdict = matchAt(rule, history, buffer, atStart, atEnd);
+    if (verdict === 'wait') return undefined;
+    if (verdict === 'match') return rule;
+  }
+  return null;
+}
+
+/**
+ * Whether a rule matches at the start of the buffer. Contexts are read on
+ * the input, as in the engine: the left context from the decided tokens,
+ * the right context from the buffer. Before the end of the input, a match
+ * that needs more tokens than the buffer holds is undecided.
+ */
+function matchAt(
+  rule: Rule,
+  history: string[],
+  buffer: string[],
+  atStart: boolean,
+  atEnd: boolean
+): 'match' | 'fail' | 'wait' {
+  const { from, leftContext, rightContext } = rule;
+  const missing = atEnd ? 'fail' : 'wait';
+
+  if (leftContext !== undefined) {
+    if (isEdge(leftContext)) {
+      if (!atStart) return 'fail';
+    } else {
+      const offset = history.length - leftContext.length;
+      if (offset < 0) return 'fail';
+      for (let j = 0; j < leftContext.length; j++) {
+        if (history[offset + j] !== leftContext[j]) return 'fail';
+      }
+    }
+  }
+
+  const length = from.length;
+  for (let j = 0; j < length; j++) {
+    if (j >= buffer.length) return missing;
+    if (buffer[j] !== from[j]) return 'fail';
+  }
+
+  if (rightContext !== undefined) {
+    if (isEdge(rightContext)) {
+      if (buffer.length > length) return 'fail';
+      return atEnd ? 'match' : 'wait';
+    }
+    for (let j = 0; j < rightContext.length; j++) {
+      if (length + j >= buffer.length) return missing;
+      if (buffer[length + j] !== rightContext[j]) return 'fail';
+    }
+  }
+
+  return 'match';
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { reverseImage, automatonWords, searchSources } from './inverse';
+import { compileRules, transduce } from './compiler';
+import { parseRules } from '../rules/parser';
+
+function sorted(words: Iterable<string[]>): string[] {
+  return Array.from(words, word => word.join('')).sort();
+}
+
+describe('reverseImage', () => {
+  const transducer = compileRules(parseRules('[b c] > a'))!;
+
+  it('should build one node per reachable configuration', () => {
+    const image = reverseImage(transducer, ['a', 'a'], ['a', 'b', 'c']);
+    expect(sorted(automatonWords(image))).toEqual(['aa', 'ab', 'ac', 'ba', 'bb', 'bc', 'ca', 'cb', 'cc']);
+    // 3 choices per token, but the automaton shares the states between them
+    expect(image.arcs.length).toBeLessThanOrEqual(7);
+  });
+
+  it('should have no start when nothing produces the word', () => {
+    const image = reverseImage(transducer, ['b'], ['a', 'b', 'c']);
+    expect(image.start).toBe(-1);
+    expect(sorted(automatonWords(image))).toEqual([]);
+  });
+
+  it('should only contain inputs that produce the word', () => {
+    const rules = parseRules('a > b / _ c\nb > c / # _');
+    const compiled = compileRules(rules)!;
+    const words = Array.from(automatonWords(reverseImage(compiled, ['c', 'c'], ['a', 'b', 'c'])));
+    expect(sorted(words)).toEqual(['ac', 'bc', 'cc']);
+    for (const word of words) expect(transduce(compiled, word)).toEqual(['c', 'c']);
+  });
+
+  it('should undo each deleting rule at most once', () => {
+    const compiled = compileRules(parseRules('h > ∅'))!;
+    expect(sorted(automatonWords(reverseImage(compiled, ['a'], ['a', 'h'])))).toEqual(['a', 'ah', 'ha']);
+  });
+
+  it('should undo insertions', () => {
+    const compiled = compileRules(parseRules('∅ > ə / k _ t'))!;
+    expect(sorted(automatonWords(reverseImage(compiled, ['k', 'ə', 't'], ['k', 't', 'ə'])))).toEqual(['kt', 'kət']);
+  });
+});
+
+describe('searchSources', () => {
+  const transducer = compileRules(parseRules('[b c] > a'))!;
+
+  it('should find the words of the reverse image', () => {
+    const search = searchSources(transducer, ['a', 'a'], ['a', 'b', 'c'], () => undefined);
+    expect(sorted({ [Symbol.iterator]: () => search })).toEqual(
+      sorted(automatonWords(reverseImage(transducer, ['a', 'a'], ['a', 'b', 'c'])))
+    );
+  });
+
+  it('should drop inputs whose beginning is not viable', () => {
+    const search = searchSources(transducer, ['a', 'a'], ['a', 'b', 'c'], () => undefined, prefix => prefix[0] === 'b');
+    expect(sorted({ [Symbol.iterator]: () => search })).toEqual(['ba', 'bb', 'bc']);
+  });
+
+  it('should stop when the budget runs out', () => {
+    let explored = 0;
+    const search = searchSources(transducer, ['a', 'a', 'a'], ['a', 'b', 'c'], () => (++explored > 2 ? 'candidates' : undefined));
+    let next = search.next();
+    while (!next.done) next = search.next();
+    expect(next.value).toBe('candidates');
+  });
+});
@@ -0,0 +1,204 @@
+import type { ReverseSearchStatus } from '../types';
+import { flush, step, type Transducer } from './compiler';
+
+/**
+ * The inputs that a transducer maps to one word, as an acyclic automaton.
+ * Nodes are numbered; every path from start to an accepting node spells a
+ * source word. start is -1 when no input produces the word.
+ */
+export interface ReverseAutomaton {
+  start: number;
+  accepting: boolean[];
+  arcs: Array<Array<[string, number]>>;   // (input token, next node) per node
+}
+
+/**
+ * A point in the backward search: how much of the target has been produced,
+ * the composed state, and which rule groups have had a deletion undone.
+ */
+interface Configuration {
+  position: number;
+  state: number;
+  undone: number[];
+}
+
+/**
+ * Builds the reverse image of a tokenized word: every input over the
+ * alphabet that the transducer maps to it.
+ *
+ * A deletion can be undone any number of times in principle, so each rule
+ * group that deletes is undone at most once per word, as the interpretive
+ * reverser does. With that bound the image is finite.
+ */
+export function reverseImage(transducer: Transducer, target: string[], alphabet: string[]): ReverseAutomaton {
+  const accepting: boolean[] = [];
+  const arcs: Array<Array<[string, number]>> = [];
+  const nodes = new Map<string, number>();
+
+  const visit = (configuration: Configuration): number => {
+    const key = configurationKey(configuration);
+    const known = nodes.get(key);
+    if (known !== undefined) return known;
+    // Until it is finished, a configuration counts as a dead end, which
+    // also cuts cycles of steps that produce nothing
+    nodes.set(key, -1);
+
+    const out: Array<[string, number]> = [];
+    for (const [symbol, next] of successors(transducer, target, alphabet, configuration)) {
+      const node = visit(next);
+      if (node !== -1) out.push([symbol, node]);
+    }
+    const accepts = isFinal(transducer, target, configuration);
+    if (!accepts && out.length === 0) return -1;
+
+    const id = arcs.length;
+    arcs.push(out);
+    accepting.push(accepts);
+    nodes.set(key, id);
+    return id;
+  };
+
+  return { start: visit({ position: 0, state: 0, undone: [] }), accepting, arcs };
+}
+
+/**
+ * Enumerates the words of a reverse image, depth first
+ */
+export function* automatonWords(automaton: ReverseAutomaton): Generator<string[]> {
+  if (automaton.start === -1) return;
+  const path: string[] = [];
+  function* walk(node: number): Generator<string[]> {
+    if (automaton.accepting[node]) yield [...path];
+    for (const [symbol, next] of automaton.arcs[node]) {
+      path.push(symbol);
+      yield* walk(next);
+      path.pop();
+    }
+  }
+  yield* walk(automaton.start);
+}
+
+/**
+ * Searches for the inputs that map to a word without building the whole
+ * reverse image, yielding each as soon as it is found.
+ *
+ * `budget` is called for every configuration explored and returns the limit
+ * that was hit, if any; the search then stops and returns it. If `viable` is
+ * given, inputs are dropped as soon as their beginning is not viable.
+ */
+export function* searchSources(
+  transducer: Transducer,
+  target: string[],
+  alphabet: string[],
+  budget: () => ReverseSearchStatus['limit'],
+  viable?: (prefix: string[]) => boolean
+): Generator<string[], ReverseSearchStatus['limit']> {
+  const dead = new Set<string>();
+  const active = new Set<string>();
+  const path: string[] = [];
+  // A configuration is only dead for every prefix if nothing below it was
+  // dropped for its prefix
+  const stack: Array<{ key: string; live: boolean; pruned: boolean; next: Iterator<[string, Configuration]> }> = [];
+
+  let pending: Configuration | null = { position: 0, state: 0, undone: [] };
+  while (pending || stack.length > 0) {
+    if (pending) {
+      const configuration = pending;
+      pending = null;
+      const key = configurationKey(configuration);
+      if (dead.has(key) || active.has(key)) {
+        if (stack.length > 0) path.pop();
+        continue;
+      }
+      const limit = budget();
+      if (limit) return limit;
+
+      const accepts = isFinal(transducer, target, configuration);
+      active.add(key);
+      stack.push({ key, live: accepts, pruned: false, next: successors(transducer, target, alphabet, configuration) });
+      if (accepts) yield [...path];
+      continue;
+    }
+
+    const top = stack[stack.length - 1];
+    const next = top.next.next();
+    if (next.done) {
+      stack.pop();
+      active.delete(top.key);
+      if (!top.live && !top.pruned) dead.add(top.key);
+      if (stack.length > 0) {
+        const parent = stack[stack.length - 1];
+        parent.live ||= top.live;
+        parent.pruned ||= top.pruned;
+        path.pop();
+      }
+      continue;
+    }
+
+    const [symbol, configuration] = next.value;
+    path.push(symbol);
+    if (viable && !viable(path)) {
+      path.pop();
+      top.pruned = true;
+      continue;
+    }
+    pending = configuration;
+  }
+
+  return undefined;
+}
+
+function configurationKey({ position, state, undone }: Configuration): string {
+  return `${position}|${state}|${undone.join(',')}`;
+}
+
+/**
+ * Input tokens that can come next, with the configuration they lead to.
+ * A token qualifies if what the transducer writes for it continues the target.
+ */
+function* successors(
+  transducer: Transducer,
+  target: string[],
+  alphabet: string[],
+  { position, state, undone }: Configuration
+): Generator<[string, Configuration]> {
+  for (const symbol of alphabet) {
+    const transition = step(transducer, state, symbol);
+    if (!producesAt(target, position, transition.output)) continue;
+    const groups = undoDeletions(undone, transition.deletions);
+    if (!groups) continue;
+    yield [symbol, { position: position + transition.output.length, state: transition.next, undone: groups }];
+  }
+}
+
+/**
+ * Whether ending the input here completes the target
+ */
+function isFinal(transducer: Transducer, target: string[], { position, state, undone }: Configuration): boolean {
+  const { output, deletions } = flush(transducer, state);
+  return position + output.length === target.length &&
+    producesAt(target, position, output) &&
+    undoDeletions(undone, deletions) !== null;
+}
+
+function producesAt(target: string[], position: number, output: string[]): boolean {
+  if (position + output.length > target.length) return false;
+  for (let j = 0; j < output.length; j++) {
+    if (target[position + j] !== output[j]) return false;
+  }
+  return true;
+}
+
+/**
+ * Adds the groups whose deletions a step undoes, or returns null if one of
+ * them has been undone already
+ */
+function undoDeletions(undone: number[], deletions: number[]): number[] | null {
+  if (deletions.length === 0) return undone;
+  const groups = new Set(undone);
+  for (const group of deletions) {
+    if (groups.has(group)) return null;
+    groups.add(group);
+  }
+  return Array.from(groups).sort((a, b) => a - b);
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseWordPairs, alignSegments, extractCorrespondences, unconditionalCorrespondences, starterRuleset,
+} from './correspondences';
+import { parseRules } from '../rules/parser';
+import { applyRules } from '../rules/engine';
+
+const SOURCE = ['a', 'aː', 'b', 'e', 'i', 'j', 'k', 'l', 'm', 'p', 's', 't', 'ʃ', 'ɬ'];
+const TARGET = ['a', 'aː', 'b', 'e', 'f', 'i', 'k', 'l', 'm', 's', 't', 'ʃ'];
+
+const PAIRS = parseWordPairs(`
+# proto > reflex
+*ɬalaːm- > ʃalaːm
+*ʃamʃ- > sams
+*pam- > fam
+*bajt- > bet
+*kalb- > kalb
+*malik > malke
+`);
+
+describe('parseWordPairs', () => {
+  it('should read pairs with their lines, dropping reconstruction marks', () => {
+    expect(PAIRS[0]).toEqual({ source: 'ɬalaːm', target: 'ʃalaːm', line: 3 });
+    expect(parseWordPairs('kalb\tkalb')).toEqual([{ source: 'kalb', target: 'kalb', line: 1 }]);
+  });
+
+  it('should reject lines that are not pairs', () => {
+    expect(() => parseWordPairs('kalb > kalb\nkalb')).toThrow('Line 2: Expected "proto-form > reflex"');
+  });
+});
+
+describe('alignSegments', () => {
+  it('should pair segments of the same class and drop the rest', () => {
+    expect(alignSegments(['b', 'a', 'j', 't'], ['b', 'e', 't'])).toEqual([
+      { source: 'b', target: 'b' },
+      { source: 'a', target: 'e' },
+      { source: 'j', target: null },
+      { source: 't', target: 't' },
+    ]);
+  });
+
+  it('should insert rather than pair a vowel with a consonant', () => {
+    expect(alignSegments(['m', 'a', 'l', 'i', 'k'], ['m', 'a', 'l', 'k', 'e']).map(s => `${s.source ?? '∅'}:${s.target ?? '∅'}`))
+      .toEqual(['m:m', 'a:a', 'l:l', 'i:∅', 'k:k', '∅:e']);
+  });
+
+  it('should handle empty words', () => {
+    expect(alignSegments([], ['a'])).toEqual([{ source: null, target: 'a' }]);
+    expect(alignSegments([], [])).toEqual([]);
+  });
+});
+
+describe('extractCorrespondences', () => {
+  const table = extractCorrespondences(PAIRS, SOURCE, TARGET);
+  const find = (source: string | null, target: string | null) =>
+    table.correspondences.find(c => c.source === source && c.target === target);
+
+  it('should count each correspondence with the lines it appears on', () => {
+    expect(find('ʃ', 's')).toMatchObject({ count: 2, lines: [4] });
+    expect(find('a', 'a')?.count).toBe(5);
+    expect(find('a', 'e')).toMatchObject({ count: 1, lines: [6] });
+  });
+
+  it('should record the source segments around each occurrence', () => {
+    expect(find('ʃ', 's')?.contexts).toEqual([
+      { before: '#', after: 'a', count: 1 },
+      { before: 'm', after: '#', count: 1 },
+    ]);
+    expect(find(null, 'e')?.contexts).toEqual([{ before: 'k', after: '#', count: 1 }]);
+  });
+
+  it('should sort by source segment, insertions last', () => {
+    const sources = table.correspondences.map(c => c.source);
+    expect(sources[0]).toBe('a');
+    expect(sources[sources.length - 1]).toBeNull();
+  });
+
+  it('should name the line of a word that does not tokenize', () => {
+    expect(() => extractCorrespondences(parseWordPairs('kalb > kalb\nxalb > kalb'), SOURCE, TARGET))
+      .toThrow('Line 2: "xalb": "x" is not in the inventory');
+  });
+});
+
+describe('starterRuleset', () => {
+  const table = extractCorrespondences(PAIRS, SOURCE, TARGET);
+
+  it('should find the segments with a single, different reflex', () => {
+    expect(unconditionalCorrespondences(table).map(c => `${c.source} > ${c.target ?? '∅'}`)).toEqual([
+      'i > ∅', 'j > ∅', 'ɬ > ʃ', 'p > f', 'ʃ > s',
+    ]);
+  });
+
+  it('should order the rules so that none feeds another', () => {
+    const text = starterRuleset(table);
+    expect(text.indexOf('ʃ > s')).toBeLessThan(text.indexOf('ɬ > ʃ'));
+    expect(applyRules('ɬalaːm', parseRules(text), SOURCE, TARGET)).toBe('ʃalaːm');
+  });
+
+  it('should list conditioned correspondences as comments', () => {
+    expect(starterRuleset(table)).toContain('# Conditioned: write these by hand\n# a > e  (1×: b _ j)\n# ∅ > e  (1×: k _ #)\n');
+  });
+
+  it('should mark rules that feed each other in a cycle', () => {
+    const swap = extractCorrespondences(parseWordPairs('pa > ba\nba > pa'), ['a', 'b', 'p'], ['a', 'b', 'p']);
+    expect(starterRuleset(swap)).toContain('# These rules feed each other in a cycle');
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Sound correspondences from pairs of proto-forms and reflexes.
+ *
+ * Each pair is tokenized with the source and target inventories and aligned
+ * segment by segment; every aligned slot is one occurrence of a
+ * correspondence (s : t, s : ∅ for a loss, ∅ : t for an insertion), counted
+ * with the source segments around it.
+ */
+
+import { cleanWord } from '../rules/regression';
+
+export interface WordPair {
+  source: string;           // The proto-form
+  target: string;           // Its reflex
+  line: number;             // Line in the pairs text
+}
+
+/**
+ * One slot of an alignment; null is a gap
+ */
+export interface AlignmentSlot {
+  source: string | null;
+  target: string | null;
+}
+
+export interface AlignedPair {
+  pair: WordPair;
+  slots: AlignmentSlot[];
+}
+
+/**
+ * The source segments on either side of a correspondence ('#' at a word edge)
+ */
+export interface CorrespondenceContext {
+  before: string;
+  after: string;
+  count: number;
+}
+
+export interface Correspondence {
+  source: string | null;    // null: an insertion
+  target: string | null;    // null: a loss
+  count: number;
+  contexts: CorrespondenceContext[];  // Most frequent first
+  lines: number[];          // Lines of the pairs it appears in
+}
+
+export interface CorrespondenceTable {
+  alignments: AlignedPair[];
+  correspondences: Correspondence[];  // By source segment, then most frequent first; insertions last
+}
+
+/**
+ * Parses word pairs, one per line: "*kalb- > kalb" (as in .phono.test files)
+ * or "kalb<TAB>kalb". Reconstruction marks are dropped; lines starting with #
+ * are comments.
+ */
+export function parseWordPairs(text: string): WordPair[] {
+  const pairs: WordPair[] = [];
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '' || line.startsWith('#')) continue;
+
+    const match = line.match(/^(\S+)\s*>\s*(\S+)$/) ?? line.match(/^(\S+)\t+(\S+)$/);
+    if (!match) throw new Error(`Line ${i + 1}: Expected "proto-form > reflex": "${line}"`);
+    pairs.push({ source: cleanWord(match[1]), target: cleanWord(match[2]), line: i + 1 });
+  }
+
+  return pairs;
+}
+
+// Alignment costs: a change within vowels or within consonants is cheaper
+// than losing one segment and gaining another, a change between them dearer
+const COST_SAME_BASE = 0.5;   // t : tˤ, a : aː
+const COST_SAME_CLASS = 1;
+const COST_OTHER_CLASS = 3;
+const COST_GAP = 1;
+
+const VOWEL = /^[aeiouyæɑɐɒɔəɘɛɜɞɤɨɪɯɵøœɶʉʊʌʏ]/;
+
+/**
+ * Whether a segment is a vowel, judged by its first IPA letter (aː, ə̃, ...)
+ */
+export function isVowel(segment: string): boolean {
+  return VOWEL.test(segment);
+}
+
+function substitutionCost(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.codePointAt(0) === b.codePointAt(0)) return COST_SAME_BASE;
+  return isVowel(a) === isVowel(b) ? COST_SAME_CLASS : COST_OTHER_CLASS;
+}
+
+/**
+ * Aligns two segment sequences at the lowest cost (Needleman–Wunsch). On a
+ * tie, segments are paired rather than dropped.
+ */
+export function alignSegments(source: string[], target: string[]): AlignmentSlot[] {
+  const n = source.length;
+  const m = target.length;
+  const cost: number[][] = Array.from({ length: n + 1 }, (_, i) =>
+    Array.from({ length: m + 1 }, (_, j) => (i === 0 ? j * COST_GAP : j === 0 ? i * COST_GAP : 0))
+  );
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + substitutionCost(source[i - 1], target[j - 1]),
+        cost[i - 1][j] + COST_GAP,
+        cost[i][j - 1] + COST_GAP
+      );
+    }
+  }
+
+  const slots: AlignmentSlot[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + substitutionCost(source[i - 1], target[j - 1])) {
+      slots.push({ source: source[--i], target: target[--j] });
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + COST_GAP) {
+      slots.push({ source: source[--i], target: null });
+    } else {
+      slots.push({ source: null, target: target[--j] });
+    }
+  }
+  return slots.reverse();
+}
+
+/**
+ * Aligns every pair and counts the correspondences, with their contexts.
+ * Throws for a word that does not tokenize, naming its line.
+ */
+export function extractCorrespondences(pairs: WordPair[], sourcePhonemes: string[], targetPhonemes: string[]): CorrespondenceTable {
+  const alignments = pairs.map(pair => ({
+    pair,
+    slots: alignSegments(
+      tokenize(pair.source, sourcePhonemes, `Line ${pair.line}: "${pair.source}"`),
+      tokenize(pair.target, targetPhonemes, `Line ${pair.line}: "${pair.target}"`)
+    ),
+  }));
+
+  const byKey = new Map<string, Correspondence>();
+  for (const { pair, slots } of alignments) {
+    slots.forEach((slot, k) => {
+      const key = `${slot.source ?? ''}\u0000${slot.target ?? ''}`;
+      let correspondence = byKey.get(key);
+      if (!correspondence) {
+        correspondence = { source: slot.source, target: slot.target, count: 0, contexts: [], lines: [] };
+        byKey.set(key, correspondence);
+      }
+      correspondence.count++;
+      if (!correspondence.lines.includes(pair.line)) correspondence.lines.push(pair.line);
+
+      const before = slots.slice(0, k).reverse().find(s => s.source !== null)?.source ?? '#';
+      const after = slots.slice(k + 1).find(s => s.source !== null)?.source ?? '#';
+      const context = correspondence.contexts.find(c => c.before === before && c.after === after);
+      if (context) context.count++;
+      else correspondence.contexts.push({ before, after, count: 1 });
+    });
+  }
+
+  const correspondences = Array.from(byKey.values());
+  for (const correspondence of correspondences) {
+    correspondence.contexts.sort((a, b) => b.count - a.count);
+  }
+  correspondences.sort((a, b) =>
+    (a.source === null ? 1 : 0) - (b.source === null ? 1 : 0) ||
+    (a.source ?? '').localeCompare(b.source ?? '') ||
+    b.count - a.count
+  );
+  return { alignments, correspondences };
+}
+
+/**
+ * The correspondences of source segments that always have the same reflex,
+ * leaving out segments that stay the same
+ */
+export function unconditionalCorrespondences(table: CorrespondenceTable): Correspondence[] {
+  const reflexes = new Map<string, Correspondence[]>();
+  for (const correspondence of table.correspondences) {
+    if (correspondence.source === null) continue;
+    reflexes.set(correspondence.source, [...(reflexes.get(correspondence.source) ?? []), correspondence]);
+  }
+  return Array.from(reflexes.values())
+    .filter(list => list.length === 1 && list[0].source !== list[0].target)
+    .map(list => list[0]);
+}
+
+/**
+ * Writes a starter ruleset: a rule for each unconditional correspondence,
+ * ordered so that no rule feeds another (ʃ > s before ɬ > ʃ), and the
+ * conditioned correspondences as comments to write rules for by hand.
+ */
+export function starterRuleset(table: CorrespondenceTable): string {
+  const unconditional = unconditionalCorrespondences(table);
+  const lines = [`# Starter ruleset from ${table.alignments.length} word pair${table.alignments.length !== 1 ? 's' : ''}`];
+
+  // A rule must come before any rule that produces its source
+  const remaining = [...unconditional];
+  const ordered: Correspondence[] = [];
+  while (remaining.length > 0) {
+    const next = remaining.findIndex(rule => !remaining.some(other => other !== rule && other.source === rule.target));
+    if (next === -1) break;
+    ordered.push(...remaining.splice(next, 1));
+  }
+
+  if (ordered.length > 0) lines.push('', '# Unconditional', ...ordered.map(ruleFor));
+  if (remaining.length > 0) {
+    lines.push('', '# These rules feed each other in a cycle; they need an intermediate step', ...remaining.map(ruleFor));
+  }
+
+  const conditioned = table.correspondences.filter(c => !unconditional.includes(c) && c.source !== c.target);
+  if (conditioned.length > 0) {
+    lines.push('', '# Conditioned: write these by hand');
+    for (const c of conditioned) {
+      const contexts = c.contexts.slice(0, 3).map(x => `${x.before} _ ${x.after}`).join(', ');
+      lines.push(`# ${ruleFor(c)}  (${c.count}×: ${contexts}${c.contexts.length > 3 ? ', …' : ''})`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function ruleFor(correspondence: Correspondence): string {
+  return `${correspondence.source ?? '∅'} > ${correspondence.target ?? '∅'}`;
+}
+
+// Greedy longest-match, as in the engine
+function tokenize(word: string, phonemes: string[], what: string): string[] {
+  const sorted = [...phonemes].sort((a, b) => b.length - a.length);
+  const tokens: string[] = [];
+  let pos = 0;
+  while (pos < word.length) {
+    const phoneme = sorted.find(p => word.startsWith(p, pos));
+    if (!phoneme) throw new Error(`${what}: "${word[pos]}" is not in the inventory`);
+    tokens.push(phoneme);
+    pos += phoneme.length;
+  }
+  return tokens;
+}
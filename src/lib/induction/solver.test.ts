@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { induceRules, reorderRules, reorderRulesText } from './solver';
+import { parseWordPairs } from './correspondences';
+import { parseRules } from '../rules/parser';
+import { applyRules } from '../rules/engine';
+
+const SOURCE = ['a', 'aː', 'b', 'e', 'i', 'j', 'k', 'l', 'm', 'p', 's', 't', 'ʃ', 'ɬ'];
+const TARGET = ['a', 'aː', 'b', 'e', 'f', 'i', 'k', 'l', 'm', 's', 't', 'ʃ'];
+
+const PAIRS = parseWordPairs(`
+*ɬalaːm- > ʃalaːm
+*ʃamʃ- > sams
+*pam- > fam
+*bajt- > bet
+*kalb- > kalb
+*malik > malke
+`);
+
+describe('induceRules', () => {
+  const induced = induceRules(PAIRS, SOURCE, TARGET);
+
+  it('should find rules that explain every pair', () => {
+    expect(induced.unexplained).toEqual([]);
+    expect(induced.explained).toHaveLength(PAIRS.length);
+    expect(induced.complete).toBe(true);
+    for (const pair of PAIRS) {
+      expect(applyRules(pair.source, parseRules(induced.rulesText), SOURCE, TARGET)).toBe(pair.target);
+    }
+  });
+
+  it('should order a chain shift so that it does not feed itself', () => {
+    const lines = induced.rulesText.split('\n');
+    expect(lines.indexOf('ʃ > s')).toBeGreaterThan(-1);
+    expect(lines.indexOf('ʃ > s')).toBeLessThan(lines.indexOf('ɬ > ʃ'));
+  });
+
+  it('should prefer general rules to conditioned ones', () => {
+    expect(induced.rulesText).toContain('\np > f\n');
+  });
+
+  it('should condition changes that do not happen everywhere', () => {
+    const vowels = induceRules(parseWordPairs('pata > pate\ntap > tap\nata > ate'), ['a', 'e', 'p', 't'], ['a', 'e', 'p', 't']);
+    expect(vowels.rulesText).toMatch(/^a > e \/ .*_ #$/m);
+    expect(vowels.unexplained).toEqual([]);
+  });
+
+  it('should report the pairs it cannot explain', () => {
+    // p cannot both stay and become f in the same context
+    const result = induceRules(parseWordPairs('pa > pa\npa > fa'), ['a', 'p'], ['a', 'f', 'p']);
+    expect(result.explained).toHaveLength(1);
+    expect(result.unexplained).toHaveLength(1);
+    expect(result.unexplained[0].actual).not.toBe(result.unexplained[0].pair.target);
+  });
+
+  it('should stop at the rule limit', () => {
+    const result = induceRules(PAIRS, SOURCE, TARGET, { timeoutMs: 10000, maxRules: 1 });
+    expect(result.complete).toBe(false);
+    expect(result.unexplained.length).toBeGreaterThan(0);
+  });
+});
+
+describe('reorderRules', () => {
+  const text = '# a chain shift in the wrong order\nɬ > ʃ\nʃ > s\np > f';
+  const ruleset = { rules: parseRules(text), sourcePhonemes: SOURCE, targetPhonemes: TARGET, sourcePhonotactics: null, targetPhonotactics: null };
+  const pairs = parseWordPairs('ɬalaːm > ʃalaːm\nʃamʃ > sams\npam > fam');
+
+  it('should find an order that explains more pairs', () => {
+    const ordering = reorderRules(ruleset, pairs);
+    expect(ordering.rules.map(r => r.source?.text)).toEqual(['ʃ > s', 'ɬ > ʃ', 'p > f']);
+    expect(ordering.unexplained).toEqual([]);
+    expect(ordering.moves).toBe(1);
+  });
+
+  it('should keep an order that already explains every pair', () => {
+    const ordering = reorderRules(ruleset, parseWordPairs('pam > fam'));
+    expect(ordering.moves).toBe(0);
+    expect(ordering.rules).toEqual(ruleset.rules);
+  });
+
+  it('should only move rules within their block', () => {
+    const blocked = (rulesText: string) => ({ ...ruleset, rules: parseRules(rulesText) });
+    const across = blocked('@block early\nɬ > ʃ\n@block late\nʃ > s\np > f');
+    const kept = reorderRules(across, pairs);
+    expect(kept.moves).toBe(0);
+    expect(kept.rules).toEqual(across.rules);
+
+    const within = blocked('@block early\np > f\n@block late\nɬ > ʃ\nʃ > s');
+    const ordering = reorderRules(within, pairs);
+    expect(ordering.rules.map(r => [r.source?.text, r.block?.name])).toEqual([['p > f', 'early'], ['ʃ > s', 'late'], ['ɬ > ʃ', 'late']]);
+    expect(ordering.unexplained).toEqual([]);
+    expect(reorderRulesText('@block early\np > f\n@block late\nɬ > ʃ\nʃ > s', ordering.rules))
+      .toBe('@block early\np > f\n@block late\nʃ > s\nɬ > ʃ');
+  });
+
+  it('should report pairs no order explains', () => {
+    const ordering = reorderRules(ruleset, parseWordPairs('ʃamʃ > sams\nbajt > bet'));
+    expect(ordering.unexplained).toEqual([{ pair: { source: 'bajt', target: 'bet', line: 2 }, actual: 'bajt' }]);
+  });
+});
+
+describe('reorderRulesText', () => {
+  it('should move written rules and leave everything else in place', () => {
+    const text = 'V = [a e]\n# shifts\nɬ > ʃ\nʃ > s\n@block late\na > e / _ V';
+    const rules = parseRules(text);
+    const reordered = [...rules.filter(r => r.source?.text === 'ʃ > s'), ...rules.filter(r => r.source?.text !== 'ʃ > s')];
+    expect(reorderRulesText(text, reordered)).toBe('V = [a e]\n# shifts\nʃ > s\nɬ > ʃ\n@block late\na > e / _ V');
+  });
+
+  it('should give null for rules not parsed from text', () => {
+    expect(reorderRulesText('', [{ from: ['a'], to: ['e'] }])).toBeNull();
+  });
+});
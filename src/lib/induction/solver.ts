@@ -0,0 +1,298 @@
+/**
+ * Searches for rulesets that map known source words to their outputs.
+ *
+ * Both searches are heuristic: induceRules grows a ruleset one rule at a time,
+ * always taking the rule that brings the forms closest to their outputs, and
+ * reorderRules moves the rules of an existing ruleset around while that
+ * explains more pairs. Neither is guaranteed to find the best answer, so both
+ * report the pairs they leave unexplained.
+ */
+
+import type { Rule } from '../types';
+import type { LoadedRuleset } from '../rules/regression';
+import { parseRules } from '../rules/parser';
+import { applyRules, applyRuleGroup } from '../rules/engine';
+import { groupRules } from '../rules/groups';
+import { extractCorrespondences, alignSegments, isVowel, type WordPair } from './correspondences';
+
+export interface SolverLimits {
+  timeoutMs: number;
+  maxRules: number;         // The most rules induceRules writes
+}
+
+export const SOLVER_LIMITS: SolverLimits = { timeoutMs: 10000, maxRules: 40 };
+
+export interface UnexplainedPair {
+  pair: WordPair;
+  actual: string | null;    // What the rules give instead (null if they fail)
+  error?: string;
+}
+
+export interface SolverResult {
+  rules: Rule[];
+  explained: WordPair[];
+  unexplained: UnexplainedPair[];
+  complete: boolean;        // false if the search stopped at a limit
+}
+
+export interface InducedRuleset extends SolverResult {
+  rulesText: string;
+}
+
+export interface RuleOrdering extends SolverResult {
+  moves: number;            // How many times a rule was moved
+}
+
+/**
+ * Proposes a small ordered ruleset that maps each source word to its output.
+ *
+ * Starting from no rules, each round aligns the current forms with their
+ * outputs and tries a rule for every mismatch: unconditioned, then with the
+ * segment or class (V, C) on either side, then on both. The rule that most
+ * reduces the total edit distance is added at the end. When no rule helps,
+ * rules that can be dropped without losing ground are removed.
+ *
+ * Throws for a word that does not tokenize, naming its line.
+ */
+export function induceRules(
+  pairs: WordPair[],
+  sourcePhonemes: string[],
+  targetPhonemes: string[],
+  limits: SolverLimits = SOLVER_LIMITS
+): InducedRuleset {
+  const { alignments } = extractCorrespondences(pairs, sourcePhonemes, targetPhonemes);
+  const segments = (side: 'source' | 'target') => alignments.map(({ slots }) =>
+    slots.map(slot => slot[side]).filter((s): s is string => s !== null)
+  );
+  const sources = segments('source');
+  const targets = segments('target');
+
+  // Contexts may generalize to vowels and consonants, unless a phoneme is
+  // itself called V or C
+  const phonemes = Array.from(new Set([...sourcePhonemes, ...targetPhonemes]));
+  const classes: Record<string, string[]> = phonemes.includes('V') || phonemes.includes('C') ? {} : {
+    V: phonemes.filter(isVowel),
+    C: phonemes.filter(p => !isVowel(p)),
+  };
+  for (const name of Object.keys(classes)) if (classes[name].length === 0) delete classes[name];
+  const classOf = (segment: string) => Object.keys(classes).find(name => classes[name].includes(segment)) ?? null;
+  const definitions = Object.entries(classes).map(([name, members]) => `${name} = [${members.join(' ')}]`);
+
+  const parsed = new Map<string, Rule[][] | null>();
+  const groupsFor = (line: string): Rule[][] | null => {
+    if (!parsed.has(line)) {
+      try {
+        parsed.set(line, groupRules(parseRules([...definitions, line].join('\n'))));
+      } catch {
+        parsed.set(line, null);
+      }
+    }
+    return parsed.get(line)!;
+  };
+  const run = (forms: string[][], groups: Rule[][]) =>
+    forms.map(form => groups.reduce((tokens, group) => applyRuleGroup(tokens, group), form));
+
+  const deadline = Date.now() + limits.timeoutMs;
+  let complete = true;
+  let lines: string[] = [];
+  let forms = sources;
+  let distance = totalDistance(forms, targets);
+
+  search: while (distance > 0) {
+    if (lines.length >= limits.maxRules) {
+      complete = false;
+      break;
+    }
+    let best: { line: string; forms: string[][]; distance: number } | null = null;
+    for (const line of candidateRules(forms, targets, classOf)) {
+      if (Date.now() > deadline) {
+        complete = false;
+        if (best) lines.push(best.line);
+        break search;
+      }
+      const groups = groupsFor(line);
+      if (!groups) continue;
+      const next = run(forms, groups);
+      const d = totalDistance(next, targets);
+      if (d < (best?.distance ?? distance)) best = { line, forms: next, distance: d };
+    }
+    if (!best) break;
+    lines.push(best.line);
+    forms = best.forms;
+    distance = best.distance;
+  }
+
+  // Drop rules, last first, that the rest do as well without
+  const distanceWith = (kept: string[]) => totalDistance(run(sources, kept.flatMap(line => groupsFor(line)!)), targets);
+  distance = distanceWith(lines);
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const kept = lines.filter((_, k) => k !== i);
+    const d = distanceWith(kept);
+    if (d <= distance) {
+      lines = kept;
+      distance = d;
+    }
+  }
+
+  const used = Object.keys(classes)
+    .filter(name => lines.some(line => line.split(' ').includes(name)))
+    .map(name => `${name} = [${classes[name].join(' ')}]`);
+  const header = `# Induced from ${pairs.length} word pair${pairs.length !== 1 ? 's' : ''}`;
+  const rulesText = [header, ...(used.length > 0 ? ['', ...used] : []), '', ...lines].join('\n') + '\n';
+  const rules = parseRules(rulesText);
+  const { explained, unexplained } = evaluate(pairs, { rules, sourcePhonemes, targetPhonemes, sourcePhonotactics: null, targetPhonotactics: null });
+  return { rules, rulesText, explained, unexplained, complete };
+}
+
+// A rule for every mismatch between the forms and their outputs, in every
+// context the search considers, most general first
+function candidateRules(forms: string[][], targets: string[][], classOf: (segment: string) => string | null): string[] {
+  const candidates = new Map<string, number>();
+  const add = (line: string, weight: number) => {
+    if (!candidates.has(line) || candidates.get(line)! > weight) candidates.set(line, weight);
+  };
+  // A class is more general than a segment or boundary
+  const options = (segment: string) => {
+    const cls = segment === '#' ? null : classOf(segment);
+    return [...(cls ? [{ text: cls, weight: 1 }] : []), { text: segment, weight: 2 }];
+  };
+
+  forms.forEach((form, i) => {
+    const slots = alignSegments(form, targets[i]);
+    slots.forEach((slot, k) => {
+      if (slot.source === slot.target) return;
+      const before = slots.slice(0, k).reverse().find(s => s.source !== null)?.source ?? '#';
+      const after = slots.slice(k + 1).find(s => s.source !== null)?.source ?? '#';
+      const change = `${slot.source ?? '∅'} > ${slot.target ?? '∅'}`;
+
+      if (slot.source !== null) add(change, 0);
+      for (const left of options(before)) add(`${change} / ${left.text} _`, left.weight);
+      for (const right of options(after)) add(`${change} / _ ${right.text}`, right.weight);
+      for (const left of options(before)) {
+        for (const right of options(after)) add(`${change} / ${left.text} _ ${right.text}`, left.weight + right.weight + 2);
+      }
+    });
+  });
+
+  return Array.from(candidates).sort((a, b) => a[1] - b[1]).map(([line]) => line);
+}
+
+/**
+ * Looks for an order of a ruleset's rules that explains more of the pairs.
+ *
+ * The expansions of one written rule move together, and only within their
+ * @block, so every rule keeps its block. Each round moves one rule to another
+ * place if that explains more pairs (or as many, with outputs closer to the
+ * expected ones), until no move helps or time runs out.
+ */
+export function reorderRules(ruleset: LoadedRuleset, pairs: WordPair[], limits: SolverLimits = SOLVER_LIMITS): RuleOrdering {
+  const units: Rule[][] = [];
+  for (const rule of ruleset.rules) {
+    const last = units[units.length - 1];
+    if (last && rule.source && last[0].source === rule.source) last.push(rule);
+    else units.push([rule]);
+  }
+
+  const score = (order: number[]) => {
+    const rules = order.flatMap(k => units[k]);
+    return { rules, ...evaluate(pairs, { ...ruleset, rules }) };
+  };
+  const better = (a: ReturnType<typeof score>, b: ReturnType<typeof score>) =>
+    a.explained.length > b.explained.length || (a.explained.length === b.explained.length && a.distance < b.distance);
+
+  const deadline = Date.now() + limits.timeoutMs;
+  let complete = true;
+  let moves = 0;
+  let order = units.map((_, k) => k);
+  let current = score(order);
+  // The block at each position, which every order has to keep
+  const blocks = order.map(k => units[k][0].block);
+  const keepsBlocks = (candidate: number[]) => candidate.every((k, p) => units[k][0].block === blocks[p]);
+
+  search: while (current.unexplained.length > 0) {
+    for (let i = 0; i < order.length; i++) {
+      for (let j = 0; j < order.length; j++) {
+        if (j === i) continue;
+        if (Date.now() > deadline) {
+          complete = false;
+          break search;
+        }
+        const candidate = [...order];
+        candidate.splice(j, 0, ...candidate.splice(i, 1));
+        if (!keepsBlocks(candidate)) continue;
+        const result = score(candidate);
+        if (better(result, current)) {
+          order = candidate;
+          current = result;
+          moves++;
+          continue search;
+        }
+      }
+    }
+    break;
+  }
+
+  const { rules, explained, unexplained } = current;
+  return { rules, explained, unexplained, complete, moves };
+}
+
+/**
+ * Rewrites a rules text with its rules in a new order, e.g. one found by
+ * reorderRules for the rules parsed from this text. Comments, variables and
+ * blocks stay where they are; each written rule takes the place of the rule
+ * at that position in the new order. Returns null for rules that were not
+ * parsed from text.
+ */
+export function reorderRulesText(text: string, rules: Rule[]): string | null {
+  const written = Array.from(new Set(rules.map(rule => rule.source)));
+  if (written.some(source => !source)) return null;
+  const reordered = written as NonNullable<Rule['source']>[];
+  const places = [...reordered].sort((a, b) => a.line - b.line || a.start - b.start);
+
+  const lines = text.split('\n');
+  const originals = reordered.map(source => lines[source.line - 1].substring(source.start, source.end));
+  // Replace from the end, so earlier columns on a line stay valid
+  for (let k = places.length - 1; k >= 0; k--) {
+    const { line, start, end } = places[k];
+    lines[line - 1] = lines[line - 1].substring(0, start) + originals[k] + lines[line - 1].substring(end);
+  }
+  return lines.join('\n');
+}
+
+// Which pairs the rules explain, and the total edit distance of the outputs
+function evaluate(pairs: WordPair[], ruleset: LoadedRuleset) {
+  const { rules, sourcePhonemes, targetPhonemes, sourcePhonotactics, targetPhonotactics } = ruleset;
+  const explained: WordPair[] = [];
+  const unexplained: UnexplainedPair[] = [];
+  let distance = 0;
+
+  for (const pair of pairs) {
+    try {
+      const actual = applyRules(pair.source, rules, sourcePhonemes, targetPhonemes, sourcePhonotactics, targetPhonotactics);
+      if (actual === pair.target) explained.push(pair);
+      else unexplained.push({ pair, actual });
+      distance += editDistance(Array.from(actual), Array.from(pair.target));
+    } catch (e) {
+      unexplained.push({ pair, actual: null, error: e instanceof Error ? e.message : 'Error' });
+      distance += Array.from(pair.target).length;
+    }
+  }
+
+  return { explained, unexplained, distance };
+}
+
+function totalDistance(forms: string[][], targets: string[][]): number {
+  return forms.reduce((sum, form, i) => sum + editDistance(form, targets[i]), 0);
+}
+
+function editDistance(a: string[], b: string[]): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row.push(Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)));
+    }
+    previous = row;
+  }
+  return previous[b.length];
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { matchesPhonotactics } from './matcher';
+import { matchesPhonotactics, matchesPhonotacticsPrefix } from './matcher';
 import type { PhonotacticPattern } from '../types';
 
 describe('matchesPhonotactics', () => {
@@ -53,6 +53,26 @@ describe('matchesPhonotactics', () => {
     expect(matchesPhonotactics(['a'], [])).toBe(false);
   });
 
+  it('should match sequences of syllable-scoped patterns', () => {
+    const patterns: PhonotacticPattern[] = [
+      { positions: [['p', 't'], ['a', 'i']], nucleus: 1, syllable: true }, // CV
+      { positions: [['p', 't'], ['a', 'i'], ['p', 't']], nucleus: 1, syllable: true }, // CVC
+    ];
+    expect(matchesPhonotactics(['p', 'a', 't', 'a'], patterns)).toBe(true); // CV.CV
+    expect(matchesPhonotactics(['p', 'a', 't', 't', 'i'], patterns)).toBe(true); // CVC.CV
+    expect(matchesPhonotactics(['a', 'p'], patterns)).toBe(false);
+    expect(matchesPhonotactics([], patterns)).toBe(false);
+  });
+
+  it('should ignore floating tier marks', () => {
+    const patterns: PhonotacticPattern[] = [
+      { positions: [['p', 't'], ['a', 'i']], floating: ['ˈ'] } // CV
+    ];
+    expect(matchesPhonotactics(['ˈ', 'p', 'a'], patterns)).toBe(true);
+    expect(matchesPhonotactics(['p', 'ˈ', 'a', 'ˈ'], patterns)).toBe(true);
+    expect(matchesPhonotactics(['ˈ'], patterns)).toBe(false);
+  });
+
   it('should handle multi-character phonemes', () => {
     const patterns: PhonotacticPattern[] = [
       { positions: [['th', 'sh'], ['a', 'i']] }
@@ -62,3 +82,39 @@ describe('matchesPhonotactics', () => {
     expect(matchesPhonotactics(['t', 'h', 'a'], patterns)).toBe(false); // wrong tokenization
   });
 });
+
+describe('matchesPhonotacticsPrefix', () => {
+  it('should return true when phonotactics is null (unconstrained)', () => {
+    expect(matchesPhonotacticsPrefix(['a', 'b'], null)).toBe(true);
+  });
+
+  it('should accept beginnings of a word pattern', () => {
+    const patterns: PhonotacticPattern[] = [
+      { positions: [['p', 't'], ['a', 'i'], ['p', 't']] } // CVC
+    ];
+    expect(matchesPhonotacticsPrefix([], patterns)).toBe(true);
+    expect(matchesPhonotacticsPrefix(['p'], patterns)).toBe(true);
+    expect(matchesPhonotacticsPrefix(['p', 'a', 't'], patterns)).toBe(true);
+    expect(matchesPhonotacticsPrefix(['a'], patterns)).toBe(false);
+    expect(matchesPhonotacticsPrefix(['p', 'a', 't', 'a'], patterns)).toBe(false);
+  });
+
+  it('should accept whole syllables followed by the beginning of one', () => {
+    const patterns: PhonotacticPattern[] = [
+      { positions: [['p', 't'], ['a', 'i']], nucleus: 1, syllable: true }, // CV
+      { positions: [['p', 't'], ['a', 'i'], ['p', 't']], nucleus: 1, syllable: true } // CVC
+    ];
+    expect(matchesPhonotacticsPrefix(['p', 'a', 't'], patterns)).toBe(true);
+    expect(matchesPhonotacticsPrefix(['p', 'a', 't', 'p'], patterns)).toBe(true);
+    expect(matchesPhonotacticsPrefix(['p', 'a', 't', 'p', 'p'], patterns)).toBe(false);
+    expect(matchesPhonotacticsPrefix(['a'], patterns)).toBe(false);
+  });
+
+  it('should ignore floating tier marks', () => {
+    const patterns: PhonotacticPattern[] = [
+      { positions: [['p', 't'], ['a', 'i']], floating: ['ˈ'] } // CV
+    ];
+    expect(matchesPhonotacticsPrefix(['ˈ', 'p'], patterns)).toBe(true);
+    expect(matchesPhonotacticsPrefix(['ˈ', 'a'], patterns)).toBe(false);
+  });
+});
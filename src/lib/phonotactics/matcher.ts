@@ -1,7 +1,10 @@
 import type { PhonotacticPattern } from '../types';
+import { syllabify } from './syllabifier';
 
 /**
  * Checks if a tokenized word matches any of the given phonotactic patterns.
+ * Syllable-scoped patterns match a word made of one or more of them.
+ * A pattern's floating tier marks are ignored wherever they occur.
  *
  * @param tokens - The word as an array of phoneme tokens
  * @param phonotactics - Array of valid patterns, or null (unconstrained)
@@ -13,10 +16,77 @@ export function matchesPhonotactics(
 ): boolean {
   if (phonotactics === null) return true;
 
-  return phonotactics.some(pattern => matchesPattern(tokens, pattern));
+  if (phonotactics.some(pattern => !pattern.syllable && matchesPattern(tokens, pattern))) return true;
+
+  const syllablePatterns = phonotactics.filter(pattern => pattern.syllable);
+  return tokens.length > 0 && syllablePatterns.length > 0 && syllabify(tokens, syllablePatterns) !== null;
+}
+
+/**
+ * Checks if a tokenized word is the beginning of some word that matches the
+ * patterns, so that a search building words left to right can drop a prefix
+ * as soon as no continuation of it can be valid.
+ *
+ * @param tokens - The start of a word as an array of phoneme tokens
+ * @param phonotactics - Array of valid patterns, or null (unconstrained)
+ * @returns true if the tokens can be extended to a matching word, or if phonotactics is null
+ */
+export function matchesPhonotacticsPrefix(
+  tokens: string[],
+  phonotactics: PhonotacticPattern[] | null
+): boolean {
+  if (phonotactics === null) return true;
+
+  if (phonotactics.some(pattern => !pattern.syllable && matchesPatternPrefix(tokens, pattern))) return true;
+
+  const syllablePatterns = phonotactics.filter(pattern => pattern.syllable && pattern.positions.length > 0);
+  return syllablePatterns.length > 0 && matchesSyllablesPrefix(tokens, syllablePatterns);
+}
+
+function matchesPatternPrefix(allTokens: string[], pattern: PhonotacticPattern): boolean {
+  const floating = pattern.floating;
+  const tokens = floating ? allTokens.filter(t => !floating.includes(t)) : allTokens;
+  if (tokens.length > pattern.positions.length) return false;
+  return tokens.every((token, i) => pattern.positions[i].includes(token));
+}
+
+// Whole syllables followed by the start of one, reading marks as the syllabifier does
+function matchesSyllablesPrefix(tokens: string[], patterns: PhonotacticPattern[]): boolean {
+  const isMark = (token: string) => patterns.some(p => p.floating?.includes(token));
+  const deadEnds = new Set<number>();
+
+  function parseFrom(start: number): boolean {
+    if (start === tokens.length) return true;
+    if (deadEnds.has(start)) return false;
+
+    for (const pattern of patterns) {
+      let pos = start;
+      let fits = true;
+      for (const allowed of pattern.positions) {
+        while (pos < tokens.length && !allowed.includes(tokens[pos]) && (pattern.floating?.includes(tokens[pos]) ?? false)) pos++;
+        // The word ends inside this syllable
+        if (pos >= tokens.length) return true;
+        if (!allowed.includes(tokens[pos])) {
+          fits = false;
+          break;
+        }
+        pos++;
+      }
+      if (fits && parseFrom(pos)) return true;
+    }
+
+    if (start > 0 && tokens.slice(start).every(isMark)) return true;
+
+    deadEnds.add(start);
+    return false;
+  }
+
+  return parseFrom(0);
 }
 
-function matchesPattern(tokens: string[], pattern: PhonotacticPattern): boolean {
+function matchesPattern(allTokens: string[], pattern: PhonotacticPattern): boolean {
+  const floating = pattern.floating;
+  const tokens = floating ? allTokens.filter(t => !floating.includes(t)) : allTokens;
   if (tokens.length !== pattern.positions.length) return false;
 
   for (let i = 0; i < tokens.length; i++) {
@@ -355,6 +355,39 @@ CV`;
     expect(result.phonotactics!.length).toBe(1);
   });
 
+  it('should record the nucleus position of each pattern', () => {
+    const result = parsePhonotacticsFile('C = [p t]\nV = [a]\n\n(C) V (C)');
+    expect(result.phonotactics!.map(p => p.nucleus)).toEqual([1, 1, 0, 0]);
+  });
+
+  it('should take nucleus names from an @nucleus directive', () => {
+    const result = parsePhonotacticsFile('I = [p t]\nN = [a]\nV = [w]\n@nucleus N\n\nI V N');
+    expect(result.phonemes.sort()).toEqual(['a', 'p', 't', 'w']);
+    expect(result.phonotactics![0].nucleus).toBe(2);
+  });
+
+  it('should leave nucleus unset when no nucleus variable is used', () => {
+    const result = parsePhonotacticsFile('C = [p t]\nA = [a]\n\nC A');
+    expect(result.phonotactics![0].nucleus).toBeUndefined();
+  });
+
+  it('should mark patterns as syllables with @scope syllable', () => {
+    const result = parsePhonotacticsFile('C = [p t]\nV = [a]\n@scope syllable\n\nC V');
+    expect(result.phonotactics![0].syllable).toBe(true);
+    expect(parsePhonotacticsFile('C = [p t]\nV = [a]\n\nC V').phonotactics![0].syllable).toBeUndefined();
+  });
+
+  it('should add tier marks to the inventory and float them in patterns', () => {
+    const result = parsePhonotacticsFile('C = [p t]\nV = [a]\nT = [H]\n@tier tone = [H X]\n\nC V\nC V T');
+    expect(result.phonemes).toEqual(['H', 'X', 'a', 'p', 't']);
+    expect(result.phonotactics![0].floating).toEqual(['H', 'X']);
+    expect(result.phonotactics![1].floating).toEqual(['X']);
+  });
+
+  it('should reject unknown directives', () => {
+    expect(() => parsePhonotacticsFile('C = [p]\n@stress initial\nC')).toThrow('Unknown phonotactics directive');
+  });
+
   it('should handle nested variable references', () => {
     const input = `VOICELESS = [p t]
 VOICED = [b d]
@@ -1,4 +1,5 @@
 import type { PhonotacticPattern } from '../types';
+import { parseTierDeclaration } from '../tiers/parser';
 
 export interface PhonemesFileResult {
   phonemes: string[];
@@ -71,6 +72,10 @@ export function parsePhonemesFile(text: string): PhonemesFileResult {
  *   (C) V (N)     (optional groups: expands to CV N, CV, VN, V)
  *   (C (N)) V     (nested optionals: expands to CNV, CV, V)
  *
+ *   @nucleus N    (names the nucleus variable(s); default V)
+ *   @scope syllable  (patterns are syllable shapes; default word)
+ *   @tier stress = [ˈ ˌ] before   (suprasegmental marks, see tiers/parser.ts)
+ *
  * Any [sectionHeader] lines (e.g. [phonotactics]) are silently ignored.
  */
 export function parsePhonotacticsFile(text: string): PhonemesFileResult {
@@ -79,15 +84,18 @@ export function parsePhonotacticsFile(text: string): PhonemesFileResult {
     .filter(line => !/^\[\w+\]$/.test(line.trim()))
     .join('\n');
 
-  // Parse variables to derive the phoneme inventory
+  // Parse variables (and tier marks) to derive the phoneme inventory
   const variables = new Map<string, string[]>();
+  const marks: string[] = [];
   for (const line of stripped.split('\n')) {
     const trimmed = line.trim().replace(/;$/, '');
     if (trimmed === '' || trimmed.startsWith('#')) continue;
+    if (trimmed.startsWith('@tier ')) marks.push(...parseTierDeclaration(trimmed.slice(5)).marks);
+    if (trimmed.startsWith('@')) continue;
     if (trimmed.includes('=')) parseVariableDefinition(trimmed, variables);
   }
 
-  const phonemes = derivePhonemes(variables);
+  const phonemes = Array.from(new Set([...derivePhonemes(variables), ...marks])).sort();
   const phonotactics = parsePhonotacticsSection(stripped, []);
   return { phonemes, phonotactics: phonotactics.length > 0 ? phonotactics : null };
 }
@@ -250,16 +258,41 @@ function expandPatternOptionals(pattern: string): string[] {
  *   - Optional groups: `(C) V (N)` expands to all present/absent combinations
  *   - Greedy longest-match tokenization against variable and phoneme names
  *   - A word matches if it fits ANY pattern (OR logic)
+ *
+ * `@nucleus NAME...` names the variables that form a syllable nucleus (default V).
+ * A pattern using one of them records its index, which lets rules refer to
+ * onset, nucleus and coda positions.
+ *
+ * `@scope syllable` declares that patterns describe single syllables, so a word
+ * matches if it is a sequence of them. The default, `@scope word`, matches
+ * whole words against one pattern.
+ *
+ * `@tier NAME = [marks]` declares suprasegmental marks (stress, tone, length).
+ * Patterns that do not mention a mark ignore it wherever it occurs.
  */
 function parsePhonotacticsSection(text: string, phonemes: string[]): PhonotacticPattern[] {
   const variables = new Map<string, string[]>();
   const patternLines: string[] = [];
+  let nucleusNames = ['V'];
+  let syllableScope = false;
+  const tierMarks: string[] = [];
 
   for (const line of text.split('\n')) {
     const trimmed = line.trim();
     if (trimmed === '' || trimmed.startsWith('#')) continue;
 
-    if (trimmed.includes('=')) {
+    if (trimmed.startsWith('@')) {
+      const [directive, ...args] = trimmed.slice(1).replace(/;$/, '').trim().split(/\s+/);
+      if (directive === 'nucleus' && args.length > 0) {
+        nucleusNames = args;
+      } else if (directive === 'scope' && (args[0] === 'word' || args[0] === 'syllable') && args.length === 1) {
+        syllableScope = args[0] === 'syllable';
+      } else if (directive === 'tier') {
+        tierMarks.push(...parseTierDeclaration(args.join(' ')).marks);
+      } else {
+        throw new Error(`Unknown phonotactics directive: "${trimmed}" (expected @nucleus, @scope or @tier)`);
+      }
+    } else if (trimmed.includes('=')) {
       parseVariableDefinition(trimmed, variables);
     } else {
       // Strip trailing semicolon from pattern lines (consistent with variable syntax)
@@ -292,9 +325,15 @@ function parsePhonotacticsSection(text: string, phonemes: string[]): Phonotactic
       // Strip all whitespace: token names never contain spaces, so spaces are just separators
       const noSpaces = expanded.replace(/\s+/g, '');
       if (!noSpaces) continue;
-      const positions = tokenizePattern(noSpaces, tokenNames, tokenMap);
+      const { positions, names } = tokenizePattern(noSpaces, tokenNames, tokenMap);
       if (positions.length > 0) {
-        patterns.push({ positions });
+        const pattern: PhonotacticPattern = { positions };
+        const nucleus = names.findIndex(name => nucleusNames.includes(name));
+        if (nucleus !== -1) pattern.nucleus = nucleus;
+        if (syllableScope) pattern.syllable = true;
+        const floating = tierMarks.filter(mark => !positions.some(allowed => allowed.includes(mark)));
+        if (floating.length > 0) pattern.floating = floating;
+        patterns.push(pattern);
       }
     }
   }
@@ -345,7 +384,8 @@ function parseVariableDefinition(line: string, variables: Map<string, string[]>)
 
 /**
  * Tokenizes a pattern string (e.g., "CVC") into an array of positions,
- * where each position is the set of allowed phonemes.
+ * where each position is the set of allowed phonemes, along with the
+ * variable or phoneme name each position was written as.
  *
  * Uses greedy longest-match against variable names and phoneme names.
  */
@@ -353,8 +393,9 @@ function tokenizePattern(
   pattern: string,
   tokenNames: string[],
   tokenMap: Map<string, string[]>
-): string[][] {
+): { positions: string[][]; names: string[] } {
   const positions: string[][] = [];
+  const names: string[] = [];
   let pos = 0;
 
   while (pos < pattern.length) {
@@ -363,6 +404,7 @@ function tokenizePattern(
     for (const name of tokenNames) {
       if (pattern.substring(pos, pos + name.length) === name) {
         positions.push(tokenMap.get(name)!);
+        names.push(name);
         pos += name.length;
         matched = true;
         break;
@@ -376,5 +418,5 @@ function tokenizePattern(
     }
   }
 
-  return positions;
+  return { positions, names };
 }
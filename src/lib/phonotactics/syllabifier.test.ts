@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { syllabify, createSyllabifier } from './syllabifier';
+import { parsePhonotacticsFile } from './parser';
+import type { PhonotacticPattern } from '../types';
+
+function patterns(text: string): PhonotacticPattern[] {
+  return parsePhonotacticsFile(text).phonotactics!;
+}
+
+const CV = patterns('C = [p t k]\nV = [a i]\n\n(C) V (C)');
+
+describe('syllabify', () => {
+  it('should parse a single syllable', () => {
+    expect(syllabify(['t', 'a', 'k'], CV)).toEqual({
+      starts: [0],
+      positions: ['onset', 'nucleus', 'coda']
+    });
+  });
+
+  it('should prefer onsets over codas', () => {
+    expect(syllabify(['a', 't', 'a'], CV)?.starts).toEqual([0, 1]);
+    expect(syllabify(['t', 'a', 'k', 't', 'i'], CV)).toEqual({
+      starts: [0, 3],
+      positions: ['onset', 'nucleus', 'coda', 'onset', 'nucleus']
+    });
+  });
+
+  it('should backtrack when the shortest syllable leads to a dead end', () => {
+    const noOnsetless = patterns('C = [p t k]\nV = [a i]\n\nC V (C)');
+    expect(syllabify(['t', 'a', 'k', 't', 'i'], noOnsetless)?.starts).toEqual([0, 3]);
+  });
+
+  it('should return null when the word fits no sequence of patterns', () => {
+    expect(syllabify(['t', 'k', 'a'], CV)).toBeNull();
+  });
+
+  it('should use the @nucleus directive to find positions', () => {
+    const ltc = patterns('I = [k t]\nN = [a i]\nSC = [n]\n@nucleus N\n\nI N (SC)');
+    expect(syllabify(['k', 'a', 'n'], ltc)?.positions).toEqual(['onset', 'nucleus', 'coda']);
+  });
+
+  it('should leave positions null for patterns without a nucleus', () => {
+    const noNucleus = patterns('C = [p t]\nA = [a]\n\nC A');
+    expect(syllabify(['p', 'a'], noNucleus)).toEqual({ starts: [0], positions: [null, null] });
+  });
+  it('should only use syllable-scoped patterns when there are any', () => {
+    const mixed: PhonotacticPattern[] = [
+      { positions: [['p'], ['a'], ['p'], ['a']] },
+      { positions: [['p'], ['a']], nucleus: 1, syllable: true }
+    ];
+    expect(syllabify(['p', 'a', 'p', 'a'], mixed)?.starts).toEqual([0, 2]);
+  });
+});
+
+describe('syllabify with tier marks', () => {
+  const stress = { name: 'stress', marks: ['ˈ'], scope: 'syllable' as const, side: 'before' as const };
+  const tone = { name: 'tone', marks: ['H'], scope: 'syllable' as const, side: 'after' as const };
+
+  it('should attach "before" marks to the following syllable', () => {
+    expect(syllabify(['t', 'a', 'ˈ', 'k', 'a'], CV, [stress])).toEqual({
+      starts: [0, 2],
+      positions: ['onset', 'nucleus', null, 'onset', 'nucleus']
+    });
+  });
+
+  it('should attach "after" marks to the preceding syllable', () => {
+    expect(syllabify(['t', 'a', 'H', 'k', 'a', 'H'], CV, [tone])?.starts).toEqual([0, 3]);
+  });
+
+  it('should skip floating marks declared in the phonotactics file', () => {
+    const withTone = patterns('C = [p t k]\nV = [a i]\n@tier tone = [H]\n\n(C) V (C)');
+    expect(syllabify(['t', 'a', 'H', 'k', 'a'], withTone)?.starts).toEqual([0, 3]);
+  });
+
+  it('should match marks the pattern has a position for', () => {
+    const toneSlot = patterns('C = [p t k]\nV = [a i]\nT = [H]\n\nC V T');
+    expect(syllabify(['t', 'a', 'H', 'k', 'a', 'H'], toneSlot, [tone])).toEqual({
+      starts: [0, 3],
+      positions: ['onset', 'nucleus', 'coda', 'onset', 'nucleus', 'coda']
+    });
+  });
+});
+
+describe('createSyllabifier', () => {
+  it('should fall back to later pattern sets', () => {
+    const onlyCV = patterns('C = [p t]\nV = [a]\n\nC V');
+    const withCoda = patterns('C = [p t]\nV = [a]\n\nC V C');
+    const syllabifyWord = createSyllabifier([null, onlyCV, withCoda]);
+    expect(syllabifyWord(['p', 'a'])?.starts).toEqual([0]);
+    expect(syllabifyWord(['p', 'a', 't'])?.positions).toEqual(['onset', 'nucleus', 'coda']);
+    expect(syllabifyWord(['a'])).toBeNull();
+  });
+});
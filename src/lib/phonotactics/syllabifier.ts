@@ -0,0 +1,130 @@
+import type { PhonotacticPattern, Syllabification, SyllablePosition, Tier } from '../types';
+
+/**
+ * Finds the syllable structure of a tokenized word, or null if it cannot be parsed
+ */
+export type Syllabifier = (tokens: string[]) => Syllabification | null;
+
+/**
+ * Splits a tokenized word into syllables, treating each phonotactic pattern
+ * as a possible syllable shape. A word parses if it is a sequence of one or
+ * more patterns. If some patterns are syllable-scoped, only those are used.
+ *
+ * When several parses exist, shorter syllables are preferred from the left,
+ * which puts consonants into onsets rather than codas (V.CV, not VC.V).
+ *
+ * Positions before a pattern's nucleus are onset, after it coda. Tokens
+ * matched by a pattern without a nucleus have position null.
+ *
+ * Tier marks (from `tiers` or a pattern's floating marks) are skipped unless
+ * the pattern has a position for them. A skipped mark belongs to the syllable
+ * on its tier's side: "before" marks open the next syllable, all others stay
+ * with the previous one. Skipped marks have position null.
+ *
+ * @returns The syllabification, or null if the word fits no sequence of patterns
+ */
+export function syllabify(
+  tokens: string[],
+  patterns: PhonotacticPattern[],
+  tiers: Tier[] = []
+): Syllabification | null {
+  const syllablePatterns = patterns.filter(p => p.syllable);
+  const byLength = (syllablePatterns.length > 0 ? syllablePatterns : patterns)
+    .filter(p => p.positions.length > 0)
+    .sort((a, b) => a.positions.length - b.positions.length);
+
+  const markSides = new Map<string, Tier['side']>();
+  for (const tier of tiers) {
+    for (const mark of tier.marks) markSides.set(mark, tier.side);
+  }
+  const isMark = (token: string, pattern: PhonotacticPattern) =>
+    markSides.has(token) || (pattern.floating?.includes(token) ?? false);
+
+  const deadEnds = new Set<number>();
+
+  // Each parsed syllable records the token index matched by each pattern position
+  function parseFrom(start: number): Array<{ pattern: PhonotacticPattern; matched: number[] }> | null {
+    if (start === tokens.length) return [];
+    if (deadEnds.has(start)) return null;
+
+    for (const pattern of byLength) {
+      const matched = matchPatternAt(start, pattern);
+      if (!matched) continue;
+      const rest = parseFrom(matched[matched.length - 1] + 1);
+      if (rest) return [{ pattern, matched }, ...rest];
+    }
+
+    // Marks after the last syllable belong to it
+    if (start > 0 && tokens.slice(start).every(t => byLength.some(p => isMark(t, p)))) return [];
+
+    deadEnds.add(start);
+    return null;
+  }
+
+  function matchPatternAt(start: number, pattern: PhonotacticPattern): number[] | null {
+    const matched: number[] = [];
+    let pos = start;
+    for (const allowed of pattern.positions) {
+      while (pos < tokens.length && !allowed.includes(tokens[pos]) && isMark(tokens[pos], pattern)) pos++;
+      if (pos >= tokens.length || !allowed.includes(tokens[pos])) return null;
+      matched.push(pos);
+      pos++;
+    }
+    return matched;
+  }
+
+  const syllables = parseFrom(0);
+  if (!syllables) return null;
+
+  const starts: number[] = [];
+  const positions: Array<SyllablePosition | null> = tokens.map(() => null);
+  let previousEnd = 0;
+  for (const { pattern, matched } of syllables) {
+    let start = matched[0];
+    if (starts.length === 0) {
+      start = 0;
+    } else {
+      while (start > previousEnd && markSides.get(tokens[start - 1]) === 'before') start--;
+    }
+    starts.push(start);
+    matched.forEach((tokenIndex, k) => {
+      positions[tokenIndex] = positionInSyllable(k, pattern.nucleus);
+    });
+    previousEnd = matched[matched.length - 1] + 1;
+  }
+
+  return { starts, positions };
+}
+
+/**
+ * Creates a cached syllabifier that tries each set of patterns in turn and
+ * uses the first that parses the word. Missing sets are skipped.
+ */
+export function createSyllabifier(
+  patternSets: Array<PhonotacticPattern[] | null | undefined>,
+  tiers: Tier[] = []
+): Syllabifier {
+  const sets = patternSets.filter((set): set is PhonotacticPattern[] => !!set && set.length > 0);
+  const cache = new Map<string, Syllabification | null>();
+
+  return function syllabifyWord(tokens: string[]): Syllabification | null {
+    const key = tokens.join('\x01');
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+
+    let result: Syllabification | null = null;
+    for (const patterns of sets) {
+      result = syllabify(tokens, patterns, tiers);
+      if (result) break;
+    }
+    cache.set(key, result);
+    return result;
+  };
+}
+
+function positionInSyllable(index: number, nucleus: number | undefined): SyllablePosition | null {
+  if (nucleus === undefined) return null;
+  if (index < nucleus) return 'onset';
+  if (index === nucleus) return 'nucleus';
+  return 'coda';
+}
@@ -1,6 +1,9 @@
 import { describe, it, expect } from 'vitest';
-import { applyRules } from './engine';
+import { applyRules, applyRulesChecked, applyRulesWithTrace, ruleBlocks, rulesThroughBlock, blockStages } from './engine';
+import { groupRules } from './groups';
 import { parseRules } from './parser';
+import { parseFeaturesFile } from '../features/parser';
+import { parsePhonotacticsFile } from '../phonotactics/parser';
 import type { Rule, PhonotacticPattern } from '../types';
 
 describe('applyRules (forward)', () => {
@@ -242,3 +245,329 @@ describe('applyRules (forward)', () => {
     });
   });
 });
+
+describe('applyRulesWithTrace', () => {
+  it('should produce the same output as applyRules', () => {
+    const rules = parseRules('a > b\nb > c / _ #');
+    const trace = applyRulesWithTrace('aba', rules, ['a', 'b'], ['b', 'c']);
+    expect(trace.output).toBe(applyRules('aba', rules, ['a', 'b'], ['b', 'c']));
+    expect(trace.input).toBe('aba');
+  });
+
+  it('should record one step per rule with intermediate forms', () => {
+    const rules = parseRules('a > b\nb > c / _ #');
+    const trace = applyRulesWithTrace('aba', rules, ['a', 'b'], ['b', 'c']);
+    expect(trace.steps).toHaveLength(2);
+    expect(trace.steps[0].before).toEqual(['a', 'b', 'a']);
+    expect(trace.steps[0].after).toEqual(['b', 'b', 'b']);
+    expect(trace.steps[1].before).toEqual(['b', 'b', 'b']);
+    expect(trace.steps[1].after).toEqual(['b', 'b', 'c']);
+  });
+
+  it('should record rule index, source line and match positions', () => {
+    const rules = parseRules('# comment\na > b\n\nb > c / _ #');
+    const trace = applyRulesWithTrace('aba', rules, ['a', 'b'], ['b', 'c']);
+    expect(trace.steps[0].ruleIndex).toBe(0);
+    expect(trace.steps[0].rule.source?.line).toBe(2);
+    expect(trace.steps[0].positions).toEqual([0, 2]);
+    expect(trace.steps[1].ruleIndex).toBe(1);
+    expect(trace.steps[1].rule.source?.line).toBe(4);
+    expect(trace.steps[1].positions).toEqual([2]);
+  });
+
+  it('should mark rules that did not change the word as not applied', () => {
+    const rules = parseRules('x > y\na > a\na > b');
+    const trace = applyRulesWithTrace('a', rules, ['a'], ['b']);
+    expect(trace.steps.map(s => s.applied)).toEqual([false, false, true]);
+    expect(trace.steps[0].positions).toEqual([]);
+    expect(trace.steps[1].positions).toEqual([0]); // identity rule matched but changed nothing
+  });
+
+  it('should throw if source word does not match source phonotactics', () => {
+    const rules: Rule[] = [{ from: ['a'], to: ['x'] }];
+    const sourcePhonotactics: PhonotacticPattern[] = [{ positions: [['p'], ['a']] }];
+    expect(() => applyRulesWithTrace('a', rules, ['a', 'p'], ['x'], sourcePhonotactics))
+      .toThrow('does not match source phonotactic constraints');
+  });
+
+  it('should flag outputs that break the target phonotactics', () => {
+    const rules = parseRules('a > ∅ / _ #');
+    const targetPhonotactics: PhonotacticPattern[] = [{ positions: [['p'], ['a']] }, { positions: [['p'], ['a'], ['p']] }];
+    expect(applyRulesWithTrace('pap', rules, ['a', 'p'], ['a', 'p'], null, targetPhonotactics).outputValid).toBe(true);
+    expect(applyRulesWithTrace('pa', rules, ['a', 'p'], ['a', 'p'], null, targetPhonotactics).outputValid).toBe(false);
+    expect(applyRulesWithTrace('pa', rules, ['a', 'p'], ['a', 'p']).outputValid).toBe(true);
+  });
+
+  it('should flag forward outputs that break the target phonotactics without tracing', () => {
+    const rules = parseRules('a > ∅ / _ #');
+    const targetPhonotactics: PhonotacticPattern[] = [{ positions: [['p'], ['a']] }, { positions: [['p'], ['a'], ['p']] }];
+    expect(applyRulesChecked('pap', rules, ['a', 'p'], ['a', 'p'], null, targetPhonotactics)).toEqual({ output: 'pap', valid: true });
+    expect(applyRulesChecked('pa', rules, ['a', 'p'], ['a', 'p'], null, targetPhonotactics)).toEqual({ output: 'p', valid: false });
+    expect(applyRulesChecked('pa', rules, ['a', 'p'], ['a', 'p'])).toEqual({ output: 'p', valid: true });
+  });
+});
+
+describe('feature-based rules', () => {
+  it('should voice stops after nasals using feature bundles', () => {
+    const features = parseFeaturesFile(`
+         voice  nasal  stop  labial
+      p  -      -      +     +
+      b  +      -      +     +
+      t  -      -      +     -
+      d  +      -      +     -
+      n  +      +      +     -
+      a  +      -      -     -
+    `);
+    const rules = parseRules('[+stop -voice] > [+voice] / [+nasal] _', { features });
+    expect(applyRules('antapa', rules, ['a', 'p', 't', 'n'], ['a', 'b', 'd', 'n', 'p', 't'])).toBe('andapa');
+  });
+});
+
+describe('application modes', () => {
+  it('should match contexts against the input by default (simultaneous)', () => {
+    const rules = parseRules('a > e / _ e');
+    expect(applyRules('aae', rules, ['a', 'e'], ['a', 'e'])).toBe('aee');
+  });
+
+  it('should spread leftward when applied right to left', () => {
+    const rules = parseRules('a > e / _ e @rtl');
+    expect(applyRules('aae', rules, ['a', 'e'], ['a', 'e'])).toBe('eee');
+  });
+
+  it('should not spread leftward when applied left to right', () => {
+    const rules = parseRules('a > e / _ e @ltr');
+    expect(applyRules('aae', rules, ['a', 'e'], ['a', 'e'])).toBe('aee');
+  });
+
+  it('should spread rightward when applied left to right', () => {
+    const rules = parseRules('@mode ltr\na > e / e _');
+    expect(applyRules('eaa', rules, ['a', 'e'], ['a', 'e'])).toBe('eee');
+    const simultaneous = parseRules('a > e / e _');
+    expect(applyRules('eaa', simultaneous, ['a', 'e'], ['a', 'e'])).toBe('eea');
+  });
+
+  it('should model iterative lenition across a word', () => {
+    // Each stop lenites after a vowel or an already-lenited fricative
+    const rules = parseRules('@mode ltr\n[p t] > [f θ] / [a f θ] _');
+    expect(applyRules('aptp', rules, ['a', 'p', 't'], ['a', 'f', 'θ'])).toBe('afθf');
+  });
+
+  it('should handle iterative deletion without skipping material', () => {
+    const rules = parseRules('h > ∅ / _ h @ltr');
+    expect(applyRules('ahhha', rules, ['a', 'h'], ['a', 'h'])).toBe('aha');
+  });
+
+  it('should group the expansions of one iterative rule', () => {
+    const rules = parseRules('@mode ltr\n[p t] > [f θ] / [a f θ] _\n@mode simultaneous\n[p t] > b');
+    expect(groupRules(rules).map(g => g.length)).toEqual([6, 1, 1]);
+  });
+
+  it('should attribute a whole group to its first step in the trace', () => {
+    const rules = parseRules('@mode ltr\n[p t] > [f θ] / [a f θ] _');
+    const trace = applyRulesWithTrace('aptp', rules, ['a', 'p', 't'], ['a', 'f', 'θ']);
+    expect(trace.steps[0].applied).toBe(true);
+    expect(trace.steps[0].positions).toEqual([1, 2, 3]);
+    expect(trace.steps.slice(1).every(s => !s.applied)).toBe(true);
+    expect(trace.output).toBe('afθf');
+  });
+
+  it('should report original positions in the trace for iterative modes', () => {
+    const rtl = applyRulesWithTrace('aae', parseRules('a > e / _ e @rtl'), ['a', 'e'], ['a', 'e']);
+    expect(rtl.steps[0].positions).toEqual([0, 1]);
+    const ltr = applyRulesWithTrace('abab', parseRules('a b > c @ltr'), ['a', 'b'], ['c']);
+    expect(ltr.steps[0].positions).toEqual([0, 2]);
+  });
+});
+
+describe('syllable-aware rules', () => {
+  const phonotactics = parsePhonotacticsFile('C = [p t k ʔ]\nV = [a i]\n@scope syllable\n\n(C) V (C)').phonotactics;
+  const phonemes = ['p', 't', 'k', 'ʔ', 'a', 'i'];
+  const apply = (word: string, rulesText: string) =>
+    applyRules(word, parseRules(rulesText), phonemes, phonemes, phonotactics, phonotactics);
+
+  it('should debuccalize codas before a syllable boundary', () => {
+    expect(apply('tatka', 't > ʔ / _ $')).toBe('taʔka');
+    expect(apply('tat', 't > ʔ / _ $')).toBe('taʔ');
+    expect(apply('tata', 't > ʔ / _ $')).toBe('tata');
+  });
+
+  it('should match $ in left contexts', () => {
+    expect(apply('patka', 'k > p / $ _')).toBe('patpa');
+    expect(apply('kapa', 'k > p / $ _')).toBe('papa');
+  });
+
+  it('should restrict rules to a syllable position', () => {
+    expect(apply('tatka', 't > k @coda')).toBe('takka');
+    expect(apply('tatka', 't > k @onset')).toBe('katka');
+  });
+
+  it('should restrict rules by syllable count', () => {
+    expect(apply('ta', 'a > i @syllables=1')).toBe('ti');
+    expect(apply('tata', 'a > i @syllables=1')).toBe('tata');
+    expect(apply('tata', 'a > i / _ # @syllables>1')).toBe('tati');
+  });
+
+  it('should syllabify each intermediate form', () => {
+    // Deleting the final vowel leaves the second t in a coda
+    expect(apply('tata', 'a > ∅ / _ #\nt > ʔ @coda')).toBe('taʔ');
+  });
+
+  it('should only match $ at word edges without phonotactics', () => {
+    const rules = parseRules('t > ʔ / _ $');
+    expect(applyRules('tatka', rules, phonemes, phonemes)).toBe('tatka');
+    expect(applyRules('tat', rules, phonemes, phonemes)).toBe('taʔ');
+  });
+});
+
+describe('suprasegmental tiers', () => {
+  const phonotactics = parsePhonotacticsFile(
+    'C = [p t k]\nV = [a i ə]\n@scope syllable\n@tier stress = [ˈ]\n@tier length = [ː]\n\n(C) V (C)'
+  ).phonotactics;
+  const phonemes = ['p', 't', 'k', 'a', 'i', 'ə', 'ˈ', 'ː'];
+  const apply = (word: string, rulesText: string) =>
+    applyRules(word, parseRules(rulesText), phonemes, phonemes, phonotactics, phonotactics);
+  const tiers = '@tier stress = [ˈ] before\n@tier length = [ː] segment\n';
+
+  it('should reduce pretonic vowels', () => {
+    expect(apply('kaˈtapa', tiers + 'a > ə @stress=none @next:stress=ˈ')).toBe('kəˈtapa');
+    expect(apply('ˈkatapa', tiers + 'a > ə @stress=none @next:stress=ˈ')).toBe('ˈkatapa');
+  });
+
+  it('should condition on stress of the matched syllable', () => {
+    expect(apply('kaˈtapa', tiers + 'a > ə @stress=none')).toBe('kəˈtapə');
+  });
+
+  it('should condition on segment-level length', () => {
+    expect(apply('kaːta', tiers + 'a > i @length=ː')).toBe('kiːta');
+    expect(apply('kaːta', tiers + 'a > ə @length=none')).toBe('kaːtə');
+  });
+
+  it('should change marks with ordinary rules', () => {
+    expect(apply('kaːta', tiers + 'ː > ∅ / _ t')).toBe('kata');
+    expect(apply('kaˈta', tiers + 'ˈ > ∅\na > i')).toBe('kiti');
+  });
+
+  it('should skip marks when matching contexts and word edges', () => {
+    expect(apply('kaˈta', tiers + 'a > i / _ t')).toBe('kiˈta');
+    expect(apply('ˈkata', tiers + 'k > g / # _')).toBe('ˈgata');
+    expect(apply('kataː', tiers + 'a > i / _ #')).toBe('katiː');
+  });
+
+  it('should still match marks a context asks for', () => {
+    expect(apply('kaˈta', tiers + 'a > i / _ ˈ')).toBe('kiˈta');
+    expect(apply('kata', tiers + 'a > i / _ ˈ')).toBe('kata');
+  });
+});
+
+describe('rule blocks', () => {
+  const rules = parseRules('a > b\n@block One\nb > c\n@block Two\nc > d\n@block Three\nx > y');
+  const phonemes = ['a', 'b', 'c', 'd', 'x', 'y'];
+
+  it('should list blocks in order', () => {
+    expect(ruleBlocks(rules).map(b => b.name)).toEqual(['One', 'Two', 'Three']);
+  });
+
+  it('should stop after a block to give an intermediate stage', () => {
+    expect(applyRules('a', rulesThroughBlock(rules, 'One'), phonemes, phonemes)).toBe('c');
+    expect(applyRules('a', rulesThroughBlock(rules, 'Two'), phonemes, phonemes)).toBe('d');
+    expect(rulesThroughBlock(rules, 'Three')).toHaveLength(4);
+  });
+
+  it('should throw for unknown blocks', () => {
+    expect(() => rulesThroughBlock(rules, 'Four')).toThrow('Unknown block "Four"');
+  });
+
+  it('should read the form at every block boundary off a derivation', () => {
+    const derivation = applyRulesWithTrace('ax', rules, phonemes, phonemes);
+    expect(blockStages(derivation).map(s => [s.block?.name ?? null, s.form])).toEqual([
+      [null, 'bx'],
+      ['One', 'cx'],
+      ['Two', 'dx'],
+      ['Three', 'dy']
+    ]);
+  });
+});
+
+describe('lexical exceptions', () => {
+  const phonemes = ['k', 'a', 'l', 'b', 'e', 'y', 't', 'o'];
+
+  it('should skip rules for words listed as exceptions', () => {
+    const rules = parseRules('a > e @except=kalb\nl > y');
+    expect(applyRules('kalb', rules, phonemes, phonemes)).toBe('kayb');
+    expect(applyRules('kalt', rules, phonemes, phonemes)).toBe('keyt');
+  });
+
+  it('should match the source word, not intermediate forms', () => {
+    const rules = parseRules('a > e\ne > o @except=kalb,kelb');
+    expect(applyRules('kalb', rules, phonemes, phonemes)).toBe('kelb');
+    expect(applyRules('kelb', rules, phonemes, phonemes)).toBe('kelb');
+  });
+
+  it('should exempt a word from every rule in a block', () => {
+    const rules = parseRules('@block One\n@except kalb\na > e\nl > y\n@block Two\nb > t');
+    expect(applyRules('kalb', rules, phonemes, phonemes)).toBe('kalt');
+  });
+
+  it('should mark exempt steps in the trace', () => {
+    const rules = parseRules('a > e @except=kalb\nl > y');
+    const derivation = applyRulesWithTrace('kalb', rules, phonemes, phonemes);
+    expect(derivation.output).toBe('kayb');
+    expect(derivation.steps[0]).toMatchObject({ applied: false, exempt: true, after: ['k', 'a', 'l', 'b'] });
+    expect(derivation.steps[1].exempt).toBeUndefined();
+  });
+});
+
+describe('back-references', () => {
+  const phonemes = ['s', 'k', 't', 'a', 'i', 'ə'];
+  const apply = (word: string, rulesText: string) =>
+    applyRules(word, parseRules('C = [s k t]\nV = [a i]\n' + rulesText), phonemes, phonemes);
+
+  it('should apply metathesis', () => {
+    expect(apply('aski', 'C₁ C₂ > C₂ C₁ / V _ V')).toBe('aksi');
+  });
+
+  it('should apply all bindings at once', () => {
+    // Applying k s > s k after s k > k s would undo it
+    expect(apply('askta', 'C₁ C₂ > C₂ C₁')).toBe('aksta');
+  });
+
+  it('should geminate and copy vowels', () => {
+    expect(apply('kata', 'C₁ > C₁ C₁ / V _ V')).toBe('katta');
+    expect(apply('kitək', 'ə > V₁ / V₁ C _')).toBe('kitik');
+  });
+
+  it('should trace a back-reference rule as one step', () => {
+    const rules = parseRules('C = [s k]\nV = [a i]\nC₁ V₂ > V₂ C₁');
+    const trace = applyRulesWithTrace('saki', rules, phonemes, phonemes);
+    expect(trace.output).toBe('asik');
+    expect(trace.steps[0]).toMatchObject({ applied: true, positions: [0, 2] });
+  });
+});
+
+describe('insertion', () => {
+  const phonemes = ['k', 't', 'b', 's', 'a', 'ə', 'ʔ', 'i'];
+  const apply = (word: string, rulesText: string) =>
+    applyRules(word, parseRules('C = [k t b s]\n' + rulesText), phonemes, phonemes);
+
+  it('should insert between consonants', () => {
+    expect(apply('ktab', '∅ > ə / C _ C')).toBe('kətab');
+    expect(apply('skt', '∅ > ə / C _ C')).toBe('səkət');
+  });
+
+  it('should insert at word edges', () => {
+    expect(apply('sta', '∅ > ʔ i / # _ C C')).toBe('ʔista');
+    expect(apply('kat', '∅ > ə / C _ #')).toBe('katə');
+  });
+
+  it('should not fill the same gap twice in iterative modes', () => {
+    expect(apply('skt', '∅ > ə / C _ C @ltr')).toBe('səkət');
+    expect(apply('skt', '∅ > ə / C _ C @rtl')).toBe('səkət');
+    expect(apply('ta', '∅ > ə / _ a @ltr')).toBe('təa');
+  });
+
+  it('should report the gap index in the trace', () => {
+    const trace = applyRulesWithTrace('ktab', parseRules('∅ > ə / k _ t'), phonemes, phonemes);
+    expect(trace.steps[0]).toMatchObject({ applied: true, positions: [1], after: ['k', 'ə', 't', 'a', 'b'] });
+  });
+});
+
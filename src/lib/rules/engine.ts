@@ -1,5 +1,11 @@
-import type { Rule, PhonotacticPattern } from '../types';
+import type { Rule, RuleBlock, BlockStage, PhonotacticPattern, Derivation, DerivationStep, SyllableCount, TransformResult } from '../types';
 import { matchesPhonotactics } from '../phonotactics/matcher';
+import { createSyllabifier } from '../phonotactics/syllabifier';
+import type { Syllabifier } from '../phonotactics/syllabifier';
+import { matchesTierConditions, tierMarks } from '../tiers/matcher';
+import { isExempt } from './exceptions';
+import { groupRules, usesSyllables } from './groups';
+import { compileRules, transduce } from '../fst/compiler';
 
 /**
  * Tokenizes a word into phoneme tokens using greedy longest-match
@@ -35,7 +41,8 @@ function tokenize(word: string, phonemes: string[]): string[] {
  * Applies phonological rules to a word in forward direction
  *
  * Rules are applied sequentially. Each rule transforms the entire word
- * before the next rule is applied.
+ * before the next rule is applied. Rules that list the word as an
+ * exception are skipped.
  *
  * @param word - The source word to transform
  * @param rules - Array of rules to apply in order
@@ -53,6 +60,38 @@ export function applyRules(
   sourcePhonotactics?: PhonotacticPattern[] | null,
   targetPhonotactics?: PhonotacticPattern[] | null
 ): string {
+  return applyRulesToTokens(word, rules, sourcePhonemes, sourcePhonotactics, targetPhonotactics).join('');
+}
+
+/**
+ * Applies rules forward like applyRules, and checks the output against the
+ * target phonotactics. An output that breaks them is not an error: it is
+ * returned, flagged as not valid. Batch analyses, the lexicon and the CLI
+ * report forward results through this.
+ */
+export function applyRulesChecked(
+  word: string,
+  rules: Rule[],
+  sourcePhonemes: string[],
+  _targetPhonemes: string[],
+  sourcePhonotactics?: PhonotacticPattern[] | null,
+  targetPhonotactics?: PhonotacticPattern[] | null
+): TransformResult {
+  const tokens = applyRulesToTokens(word, rules, sourcePhonemes, sourcePhonotactics, targetPhonotactics);
+  return { output: tokens.join(''), valid: fitsTarget(tokens, targetPhonotactics) };
+}
+
+function fitsTarget(tokens: string[], targetPhonotactics?: PhonotacticPattern[] | null): boolean {
+  return !targetPhonotactics || matchesPhonotactics(tokens, targetPhonotactics);
+}
+
+function applyRulesToTokens(
+  word: string,
+  rules: Rule[],
+  sourcePhonemes: string[],
+  sourcePhonotactics?: PhonotacticPattern[] | null,
+  targetPhonotactics?: PhonotacticPattern[] | null
+): string[] {
   // Tokenize the word into phonemes
   let tokens = tokenize(word, sourcePhonemes);
 
@@ -65,99 +104,381 @@ export function applyRules(
   // because rules may use intermediate phonemes (phonemes produced by one rule
   // and consumed by another, which don't appear in either the source or target set)
 
-  // Apply each rule to the token sequence
+  // Compiled rulesets run as one transducer pass. Exception words take the
+  // rule-by-rule path, since the transducer ignores exceptions.
+  const transducer = compileRules(rules);
+  if (transducer && !rules.some(rule => isExempt(rule, word))) {
+    return transduce(transducer, tokens);
+  }
+
+  // Syllable-aware rules parse each intermediate form against the phonotactics
+  const syllabify = syllabifierFor(rules, sourcePhonotactics, targetPhonotactics);
+
+  // Apply each rule (or group of iterative expansions) to the token sequence.
+  // Expansions of one written rule share its exceptions.
+  for (const group of groupRules(rules)) {
+    if (isExempt(group[0], word)) continue;
+    tokens = applyRuleGroup(tokens, group, syllabify);
+  }
+
+  return tokens;
+}
+
+/**
+ * Applies phonological rules to a word and records every intermediate form
+ *
+ * Takes the same arguments as applyRules. The returned derivation has one
+ * step per rule, including rules that did not change the word, so callers
+ * can decide whether to show or hide them. Steps skipped because of a
+ * lexical exception are marked exempt. The output is not rejected if it
+ * breaks the target phonotactics; the derivation says whether it fits.
+ *
+ * @returns The derivation: input, final output, per-rule steps and whether the output is valid
+ */
+export function applyRulesWithTrace(
+  word: string,
+  rules: Rule[],
+  sourcePhonemes: string[],
+  _targetPhonemes: string[],
+  sourcePhonotactics?: PhonotacticPattern[] | null,
+  targetPhonotactics?: PhonotacticPattern[] | null
+): Derivation {
+  let tokens = tokenize(word, sourcePhonemes);
+
+  if (sourcePhonotactics && !matchesPhonotactics(tokens, sourcePhonotactics)) {
+    throw new Error(`Source word "${word}" does not match source phonotactic constraints`);
+  }
+
+  const syllabify = syllabifierFor(rules, sourcePhonotactics, targetPhonotactics);
+  const steps: DerivationStep[] = [];
+  let ruleIndex = 0;
+  for (const group of groupRules(rules)) {
+    if (isExempt(group[0], word)) {
+      group.forEach((rule, k) => {
+        steps.push({ ruleIndex: ruleIndex + k, rule, before: tokens, after: tokens, positions: [], applied: false, exempt: true });
+      });
+      ruleIndex += group.length;
+      continue;
+    }
+    const { tokens: after, positions } = applyGroupTracked(tokens, group, syllabify);
+    // A group is one written rule: its first expansion carries the whole change
+    steps.push({
+      ruleIndex,
+      rule: group[0],
+      before: tokens,
+      after,
+      positions: positions.flat().sort((a, b) => a - b),
+      applied: !sameTokens(tokens, after),
+    });
+    for (let k = 1; k < group.length; k++) {
+      steps.push({ ruleIndex: ruleIndex + k, rule: group[k], before: after, after, positions: [], applied: false });
+    }
+    ruleIndex += group.length;
+    tokens = after;
+  }
+
+  const outputValid = fitsTarget(tokens, targetPhonotactics);
+  return { input: word, output: tokens.join(''), steps, outputValid };
+}
+
+function sameTokens(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Lists the blocks of a ruleset in order
+ */
+export function ruleBlocks(rules: Rule[]): RuleBlock[] {
+  const blocks: RuleBlock[] = [];
   for (const rule of rules) {
-    tokens = applyRuleToTokens(tokens, rule, sourcePhonemes);
+    if (rule.block && !blocks.includes(rule.block)) blocks.push(rule.block);
   }
+  return blocks;
+}
 
-  return tokens.join('');
+/**
+ * Returns the rules up to and including the last rule of the named block,
+ * so that applying them produces the intermediate stage at that block
+ */
+export function rulesThroughBlock(rules: Rule[], blockName: string): Rule[] {
+  let last = -1;
+  for (let i = 0; i < rules.length; i++) {
+    if (rules[i].block?.name === blockName) last = i;
+  }
+  if (last === -1) {
+    throw new Error(`Unknown block "${blockName}"`);
+  }
+  return rules.slice(0, last + 1);
 }
 
 /**
- * Applies a single rule to a token array, respecting context if present
+ * Reads the form at every block boundary off a derivation: one stage per
+ * run of consecutive steps in the same block, in order
  */
-function applyRuleToTokens(tokens: string[], rule: Rule, phonemes: string[]): string[] {
-  const { from, to, leftContext, rightContext } = rule;
+export function blockStages(derivation: Derivation): BlockStage[] {
+  const stages: BlockStage[] = [];
+  for (const step of derivation.steps) {
+    const block = step.rule.block ?? null;
+    const form = step.after.join('');
+    const last = stages[stages.length - 1];
+    if (last && last.block === block) {
+      last.form = form;
+    } else {
+      stages.push({ block, form });
+    }
+  }
+  return stages;
+}
 
-  const sequenceLength = from.length;
+/**
+ * Builds the syllabifier for a ruleset: source patterns are tried first, then
+ * target patterns. Returns undefined when no rule needs syllables.
+ */
+export function syllabifierFor(
+  rules: Rule[],
+  sourcePhonotactics?: PhonotacticPattern[] | null,
+  targetPhonotactics?: PhonotacticPattern[] | null
+): Syllabifier | undefined {
+  if (!rules.some(usesSyllables)) return undefined;
+  const tiers = new Set(rules.flatMap(rule => rule.tiers ?? []));
+  return createSyllabifier([sourcePhonotactics, targetPhonotactics], Array.from(tiers));
+}
+
+/**
+ * Applies one group of rules (see groupRules) to a token array
+ */
+export function applyRuleGroup(tokens: string[], group: Rule[], syllabify?: Syllabifier): string[] {
+  return applyGroupTracked(tokens, group, syllabify).tokens;
+}
+
+/**
+ * Applies a group of rules and reports, for each member, the indices into
+ * the input array where its matches started.
+ */
+function applyGroupTracked(
+  tokens: string[],
+  group: Rule[],
+  syllabify?: Syllabifier
+): { tokens: string[]; positions: number[][] } {
+  const mode = group[0].mode;
+  if (mode === 'ltr') return applyIterativeLeftToRight(tokens, group, syllabify);
+  if (mode === 'rtl') return applyIterativeRightToLeft(tokens, group, syllabify);
+
+  return applySimultaneous(tokens, group, syllabify);
+}
+
+/**
+ * Simultaneous application: every match and context is checked against the
+ * input tokens, scanning left to right without overlapping matches. At each
+ * position the first matching group member applies. Insertions (empty
+ * source) match in the gap before token i, including the gap at the end.
+ */
+function applySimultaneous(
+  tokens: string[],
+  group: Rule[],
+  syllabify?: Syllabifier
+): { tokens: string[]; positions: number[][] } {
   const result: string[] = [];
+  const positions: number[][] = group.map(() => []);
   let i = 0;
 
-  while (i < tokens.length) {
-    // Check if we have a sequence match starting at position i
-    let sequenceMatches = true;
-    if (i + sequenceLength <= tokens.length) {
-      for (let j = 0; j < sequenceLength; j++) {
-        if (tokens[i + j] !== from[j]) {
-          sequenceMatches = false;
-          break;
-        }
+  while (i <= tokens.length) {
+    const k = matchingMember(tokens, i, group, syllabify);
+    if (k !== -1) {
+      // Push all phonemes in the target sequence (may be empty for deletion)
+      const { from, to } = group[k];
+      result.push(...to);
+      positions[k].push(i);
+      if (from.length > 0) {
+        i += from.length; // Skip the entire matched sequence
+        continue;
       }
-    } else {
-      sequenceMatches = false;
+      // An insertion fills the gap; the token after it is kept as is
+    }
+    if (i < tokens.length) result.push(tokens[i]);
+    i++;
+  }
+
+  return { tokens: result, positions };
+}
+
+/**
+ * Returns the index of the first group member that matches at position i, or -1
+ */
+function matchingMember(tokens: string[], i: number, group: Rule[], syllabify?: Syllabifier): number {
+  for (let k = 0; k < group.length; k++) {
+    if (matchesAt(tokens, i, group[k], syllabify)) return k;
+  }
+  return -1;
+}
+
+/**
+ * Iterative left-to-right application: after each change, scanning resumes
+ * after the replaced material, so left contexts see earlier changes.
+ */
+function applyIterativeLeftToRight(
+  tokens: string[],
+  group: Rule[],
+  syllabify?: Syllabifier
+): { tokens: string[]; positions: number[][] } {
+  const current = [...tokens];
+  const positions: number[][] = group.map(() => []);
+  let offset = 0; // current index minus original index
+  let i = 0;
+
+  while (i <= current.length) {
+    const k = matchingMember(current, i, group, syllabify);
+    if (k === -1) {
+      i++;
+      continue;
+    }
+    const { from, to } = group[k];
+    current.splice(i, from.length, ...to);
+    positions[k].push(i - offset);
+    offset += to.length - from.length;
+    i += to.length;
+    // Do not fill the same gap again
+    if (from.length === 0) i++;
+  }
+
+  return { tokens: current, positions };
+}
+
+/**
+ * Iterative right-to-left application: after each change, scanning resumes
+ * before the matched material, so right contexts see earlier changes.
+ */
+function applyIterativeRightToLeft(
+  tokens: string[],
+  group: Rule[],
+  syllabify?: Syllabifier
+): { tokens: string[]; positions: number[][] } {
+  const current = [...tokens];
+  const positions: number[][] = group.map(() => []);
+  let i = current.length;
+
+  while (i >= 0) {
+    const k = matchingMember(current, i, group, syllabify);
+    if (k === -1) {
+      i--;
+      continue;
     }
+    const { from, to } = group[k];
+    current.splice(i, from.length, ...to);
+    // Everything left of i is untouched, so i is also the original index
+    positions[k].unshift(i);
+    i -= Math.max(from.length, 1);
+  }
+
+  return { tokens: current, positions };
+}
+
+/**
+ * Checks whether the rule's source sequence and contexts match at position i
+ *
+ * `$` in a context is a syllable boundary: it matches between syllables and
+ * at the word edges. Syllable conditions only hold for words the syllabifier
+ * can parse; without one, `$` matches at the word edges only.
+ *
+ * Marks on the rule's tiers are transparent in contexts and at word edges:
+ * they are skipped unless the context asks for that mark.
+ */
+function matchesAt(tokens: string[], i: number, rule: Rule, syllabify?: Syllabifier): boolean {
+  const { from, leftContext, rightContext } = rule;
+  const sequenceLength = from.length;
+
+  // Check if we have a sequence match starting at position i
+  if (i + sequenceLength > tokens.length) return false;
+  for (let j = 0; j < sequenceLength; j++) {
+    if (tokens[i + j] !== from[j]) return false;
+  }
+
+  const marks = rule.tiers ? tierMarks(rule.tiers) : null;
+  const isMark = (token: string) => marks !== null && marks.has(token);
+  const syllables = syllabify && usesSyllables(rule) ? syllabify(tokens) : null;
+  const isBoundary = (pos: number) =>
+    pos === 0 || pos === tokens.length || (syllables !== null && syllables.starts.includes(pos));
 
-    if (sequenceMatches) {
-      // Check left context (context is relative to the first phoneme of the sequence)
-      let leftMatch = true;
-      if (leftContext !== undefined) {
-        if (leftContext.length === 1 && leftContext[0] === '#') {
-          // Must be at word beginning
-          leftMatch = i === 0;
-        } else {
-          // Must be preceded by the entire left context sequence
-          const contextLength = leftContext.length;
-          if (i >= contextLength) {
-            for (let j = 0; j < contextLength; j++) {
-              if (tokens[i - contextLength + j] !== leftContext[j]) {
-                leftMatch = false;
-                break;
-              }
-            }
-          } else {
-            leftMatch = false;
-          }
+  // Check left context (context is relative to the first phoneme of the sequence)
+  if (leftContext !== undefined) {
+    if (leftContext.length === 1 && leftContext[0] === '#') {
+      // Must be at word beginning
+      let pos = i;
+      while (pos > 0 && isMark(tokens[pos - 1])) pos--;
+      if (pos !== 0) return false;
+    } else {
+      // Must be preceded by the entire left context sequence, read right to left
+      let pos = i;
+      for (let j = leftContext.length - 1; j >= 0; j--) {
+        const token = leftContext[j];
+        if (token === '$') {
+          while (!isBoundary(pos) && pos > 0 && isMark(tokens[pos - 1])) pos--;
+          if (!isBoundary(pos)) return false;
+          continue;
         }
+        pos--;
+        while (pos >= 0 && tokens[pos] !== token && isMark(tokens[pos])) pos--;
+        if (pos < 0 || tokens[pos] !== token) return false;
       }
+    }
+  }
 
-      // Check right context (context is relative to the last phoneme of the sequence)
-      let rightMatch = true;
-      if (rightContext !== undefined) {
-        if (rightContext.length === 1 && rightContext[0] === '#') {
-          // Must be at word end
-          rightMatch = (i + sequenceLength) === tokens.length;
-        } else {
-          // Must be followed by the entire right context sequence
-          const contextLength = rightContext.length;
-          if (i + sequenceLength + contextLength <= tokens.length) {
-            for (let j = 0; j < contextLength; j++) {
-              if (tokens[i + sequenceLength + j] !== rightContext[j]) {
-                rightMatch = false;
-                break;
-              }
-            }
-          } else {
-            rightMatch = false;
-          }
+  // Check right context (context is relative to the last phoneme of the sequence)
+  if (rightContext !== undefined) {
+    if (rightContext.length === 1 && rightContext[0] === '#') {
+      // Must be at word end
+      let pos = i + sequenceLength;
+      while (pos < tokens.length && isMark(tokens[pos])) pos++;
+      if (pos !== tokens.length) return false;
+    } else {
+      // Must be followed by the entire right context sequence
+      let pos = i + sequenceLength;
+      for (const token of rightContext) {
+        if (token === '$') {
+          while (!isBoundary(pos) && pos < tokens.length && isMark(tokens[pos])) pos++;
+          if (!isBoundary(pos)) return false;
+          continue;
         }
+        while (pos < tokens.length && tokens[pos] !== token && isMark(tokens[pos])) pos++;
+        if (pos >= tokens.length || tokens[pos] !== token) return false;
+        pos++;
       }
+    }
+  }
 
-      // Apply replacement if context matches
-      if (leftMatch && rightMatch) {
-        // Push all phonemes in the target sequence (may be empty for deletion)
-        result.push(...to);
-        i += sequenceLength; // Skip the entire matched sequence
-      } else {
-        result.push(tokens[i]);
-        i++;
-      }
-    } else {
-      result.push(tokens[i]);
-      i++;
+  // Check syllable position of every matched phoneme
+  if (rule.position !== undefined) {
+    if (syllables === null) return false;
+    for (let j = 0; j < sequenceLength; j++) {
+      if (syllables.positions[i + j] !== rule.position) return false;
     }
   }
 
-  return result;
+  // Check the number of syllables in the word
+  if (rule.syllables !== undefined) {
+    if (syllables === null || !compareCount(syllables.starts.length, rule.syllables)) return false;
+  }
+
+  // Check marks on suprasegmental tiers
+  if (rule.conditions !== undefined) {
+    if (!matchesTierConditions(tokens, i, sequenceLength, rule.tiers ?? [], rule.conditions, syllables)) return false;
+  }
+
+  return true;
+}
+
+function compareCount(actual: number, { op, count }: SyllableCount): boolean {
+  switch (op) {
+    case '=': return actual === count;
+    case '<': return actual < count;
+    case '>': return actual > count;
+    case '<=': return actual <= count;
+    case '>=': return actual >= count;
+  }
 }
 
 /**
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { parseExceptionsFile, withExceptions, isExempt, exceptionWords } from './exceptions';
+import { parseRules } from './parser';
+
+describe('parseExceptionsFile', () => {
+  it('should parse block and line entries', () => {
+    const entries = parseExceptionsFile('# loans\nkalb: block Canaanite\n\nbayt ʔab: line 12');
+    expect(entries).toEqual([
+      { words: ['kalb'], block: 'Canaanite', fileLine: 2 },
+      { words: ['bayt', 'ʔab'], line: 12, fileLine: 4 }
+    ]);
+  });
+
+  it('should report malformed lines', () => {
+    expect(() => parseExceptionsFile('kalb')).toThrow('Line 1: Expected "words: block NAME" or "words: line N"');
+    expect(() => parseExceptionsFile('\n: block A')).toThrow('Line 2: No words before ":"');
+    expect(() => parseExceptionsFile('kalb: rule 3')).toThrow('Line 1: Expected "block NAME" or "line N" after ":"');
+  });
+});
+
+describe('withExceptions', () => {
+  const rules = parseRules('a > b\n@block One\n[b c] > d\ne > f');
+
+  it('should add words to every rule of a block or written line', () => {
+    const result = withExceptions(rules, parseExceptionsFile('kalb: block One\nbayt: line 3'));
+    expect(result.map(r => r.exceptions)).toEqual([undefined, ['kalb', 'bayt'], ['kalb', 'bayt'], ['kalb']]);
+  });
+
+  it('should not modify the original rules', () => {
+    withExceptions(rules, parseExceptionsFile('kalb: block One'));
+    expect(rules.every(r => r.exceptions === undefined)).toBe(true);
+  });
+
+  it('should keep source and block objects shared', () => {
+    const result = withExceptions(rules, parseExceptionsFile('kalb: line 3'));
+    expect(result[1].source).toBe(result[2].source);
+    expect(result[1].block).toBe(rules[1].block);
+  });
+
+  it('should throw for unknown blocks and lines', () => {
+    expect(() => withExceptions(rules, parseExceptionsFile('kalb: block Two'))).toThrow('Line 1: No block "Two"');
+    expect(() => withExceptions(rules, parseExceptionsFile('\nkalb: line 9'))).toThrow('Line 2: No rule on line 9');
+  });
+});
+
+describe('isExempt and exceptionWords', () => {
+  it('should look up exceptions on rules', () => {
+    const rules = parseRules('a > b @except=kalb\nc > d @except=kalb,bayt\ne > f');
+    expect(isExempt(rules[0], 'kalb')).toBe(true);
+    expect(isExempt(rules[0], 'bayt')).toBe(false);
+    expect(isExempt(rules[2], 'kalb')).toBe(false);
+    expect(exceptionWords(rules)).toEqual(['kalb', 'bayt']);
+  });
+});
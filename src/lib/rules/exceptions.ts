@@ -0,0 +1,94 @@
+import type { Rule } from '../types';
+
+export interface ExceptionEntry {
+  words: string[];          // Source words that are exempt
+  block?: string;           // Exempt from every rule in this block
+  line?: number;            // Exempt from the rule written on this line of the rules file
+  fileLine: number;         // Line in the exceptions file, for error messages
+}
+
+/**
+ * Parses a .exceptions file listing source words that rules do not apply to.
+ *
+ * Format:
+ *   kalb: block Canaanite     (exempt from every rule in the block)
+ *   bayt: line 12             (exempt from the rule on line 12 of the rules file)
+ *   ʔab ʔumm: block Hebrew    (several words at once)
+ *
+ * Lines starting with # are comments; empty lines are ignored.
+ */
+export function parseExceptionsFile(text: string): ExceptionEntry[] {
+  const entries: ExceptionEntry[] = [];
+  const lines = text.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '' || line.startsWith('#')) continue;
+
+    const colon = line.indexOf(':');
+    if (colon === -1) {
+      throw new Error(`Line ${i + 1}: Expected "words: block NAME" or "words: line N": "${line}"`);
+    }
+
+    const words = line.substring(0, colon).trim().split(/\s+/).filter(w => w.length > 0);
+    if (words.length === 0) {
+      throw new Error(`Line ${i + 1}: No words before ":"`);
+    }
+
+    const target = line.substring(colon + 1).trim();
+    const blockMatch = target.match(/^block\s+(.+)$/);
+    const lineMatch = target.match(/^line\s+(\d+)$/);
+    if (blockMatch) {
+      entries.push({ words, block: blockMatch[1].trim(), fileLine: i + 1 });
+    } else if (lineMatch) {
+      entries.push({ words, line: parseInt(lineMatch[1], 10), fileLine: i + 1 });
+    } else {
+      throw new Error(`Line ${i + 1}: Expected "block NAME" or "line N" after ":", got "${target}"`);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Returns copies of the rules with the entries' words added to their exceptions.
+ * Source provenance and block objects are shared with the originals.
+ *
+ * Throws if an entry names a block or line that has no rules.
+ */
+export function withExceptions(rules: Rule[], entries: ExceptionEntry[]): Rule[] {
+  const extra = new Map<Rule, string[]>();
+
+  for (const entry of entries) {
+    const targets = rules.filter(rule =>
+      entry.block !== undefined ? rule.block?.name === entry.block : rule.source?.line === entry.line
+    );
+    if (targets.length === 0) {
+      const what = entry.block !== undefined ? `block "${entry.block}"` : `rule on line ${entry.line}`;
+      throw new Error(`Line ${entry.fileLine}: No ${what}`);
+    }
+    for (const rule of targets) {
+      extra.set(rule, [...(extra.get(rule) ?? []), ...entry.words]);
+    }
+  }
+
+  return rules.map(rule => {
+    const words = extra.get(rule);
+    if (!words) return rule;
+    return { ...rule, exceptions: Array.from(new Set([...(rule.exceptions ?? []), ...words])) };
+  });
+}
+
+/**
+ * Whether a source word is listed as an exception to the rule
+ */
+export function isExempt(rule: Rule, word: string): boolean {
+  return rule.exceptions !== undefined && rule.exceptions.includes(word);
+}
+
+/**
+ * Every word listed as an exception to any of the rules
+ */
+export function exceptionWords(rules: Rule[]): string[] {
+  return Array.from(new Set(rules.flatMap(rule => rule.exceptions ?? [])));
+}
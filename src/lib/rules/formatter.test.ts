@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { formatRules } from './formatter';
+import { parseRules } from './parser';
+
+const files = import.meta.glob('/public/rules/*.phono', { eager: true, query: '?raw', import: 'default' }) as Record<string, string>;
+
+// The parsed rules, without where they were written
+function parsed(text: string) {
+  return parseRules(text).map(({ source: _source, block, ...rule }) => ({ ...rule, block: block?.name }));
+}
+
+describe('formatRules', () => {
+  it('should normalize spacing', () => {
+    expect(formatRules('  a>e /  _  [ m   n ]  ')).toBe('a > e / _ [m n]\n');
+    expect(formatRules('V   =  [ a  i ]')).toBe('V = [a i]\n');
+    expect(formatRules('@block   Early\n#  a comment  ')).toBe('@block Early\n#  a comment\n');
+  });
+
+  it('should align the > and / columns of consecutive rules', () => {
+    // The tie bar takes no column
+    expect(formatRules('t͡s > s / _ i\na i > e\nk > g / n _ @ltr\n\nth > θ')).toBe(
+      't͡s  > s / _ i\n' +
+      'a i > e\n' +
+      'k   > g / n _ @ltr\n' +
+      '\n' +
+      'th > θ\n'
+    );
+  });
+
+  it('should keep semicolons and annotations at the end of the line', () => {
+    expect(formatRules('p>f @onset;\nab > b / _ #;')).toBe('p  > f @onset;\nab > b / _ #;\n');
+  });
+
+  it('should move variables defined after their first use before it', () => {
+    const text = 'C = [p t]\n# Voicing\nC > [b d] / _ V\nk > g\n# Vowels\nV = [a i]\n';
+    expect(formatRules(text)).toBe('C = [p t]\n# Vowels\nV = [a i]\n# Voicing\nC > [b d] / _ V\nk > g\n');
+  });
+
+  it('should move variables used by other variables', () => {
+    expect(formatRules('S = [C V]\np > f / _ S\nC = [p t]\nV = [a]')).toBe('C = [p t]\nV = [a]\nS = [C V]\np > f / _ S\n');
+  });
+
+  it('should leave a variable defined twice in place', () => {
+    const text = 'V > e\nV = [a]\nV = [i]\n';
+    expect(formatRules(text)).toBe(text);
+  });
+
+  it('should collapse blank lines', () => {
+    expect(formatRules('\n\np > f\n\n\n\nt > s\n\n')).toBe('p > f\n\nt > s\n');
+    expect(formatRules('\n \n')).toBe('');
+  });
+
+  for (const [path, text] of Object.entries(files)) {
+    it(`should format ${path.split('/').pop()} to rules that parse the same, and be stable`, () => {
+      const formatted = formatRules(text);
+      expect(parsed(formatted)).toEqual(parsed(text));
+      expect(formatRules(formatted)).toBe(formatted);
+    });
+  }
+});
@@ -0,0 +1,147 @@
+/**
+ * Pretty-printing of rules text.
+ *
+ * The formatter works on the text as written, so variables, classes, feature
+ * bundles and comments survive as they are; only the layout changes. The
+ * rules it produces parse to the same rules as the original.
+ */
+
+type FormattedLine =
+  | { kind: 'blank' }
+  | { kind: 'comment' | 'directive' | 'other'; text: string }
+  | { kind: 'variable'; name: string; value: string; semicolon: boolean }
+  | { kind: 'rule'; from: string; to: string; context?: string; annotations: string[]; semicolon: boolean };
+
+/**
+ * Formats a rules text:
+ * - spacing is normalized: one space between tokens and around > and /, none
+ *   inside brackets and parentheses
+ * - in each run of consecutive rules, the > and / columns are aligned
+ * - a variable defined after its first use moves up to just before it, with
+ *   the comment lines directly above it
+ * - comments and directives stay in place; runs of blank lines become one
+ */
+export function formatRules(text: string): string {
+  const lines = text.split(/\r?\n/).map(readLine);
+  moveDefinitionsBeforeUse(lines);
+
+  const output: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.kind === 'blank') {
+      if (output.length > 0 && output[output.length - 1] !== '') output.push('');
+    } else if (line.kind === 'rule') {
+      let end = i;
+      while (end + 1 < lines.length && lines[end + 1].kind === 'rule') end++;
+      output.push(...alignRules(lines.slice(i, end + 1) as Extract<FormattedLine, { kind: 'rule' }>[]));
+      i = end;
+    } else if (line.kind === 'variable') {
+      output.push(`${line.name} = ${line.value}${line.semicolon ? ';' : ''}`);
+    } else {
+      output.push(line.text);
+    }
+  }
+
+  while (output.length > 0 && output[output.length - 1] === '') output.pop();
+  return output.length > 0 ? output.join('\n') + '\n' : '';
+}
+
+function readLine(raw: string): FormattedLine {
+  const line = raw.trim();
+  if (line === '') return { kind: 'blank' };
+  if (line.startsWith('#')) return { kind: 'comment', text: line };
+  if (line.startsWith('@')) return { kind: 'directive', text: line.replace(/\s+/g, ' ') };
+
+  const semicolon = line.endsWith(';');
+  const body = semicolon ? line.slice(0, -1).trim() : line;
+
+  // A variable definition, as the parser tells them apart from rules
+  const eq = body.indexOf('=');
+  const gt = body.indexOf('>');
+  if (eq > 0 && (gt === -1 || eq < gt)) {
+    return { kind: 'variable', name: body.substring(0, eq).trim(), value: normalizeSpacing(body.substring(eq + 1)), semicolon };
+  }
+
+  const tokens = body.split(/\s+/);
+  const annotations: string[] = [];
+  while (tokens.length > 0 && tokens[tokens.length - 1].startsWith('@')) annotations.unshift(tokens.pop()!);
+  const rule = tokens.join(' ');
+
+  const slash = rule.indexOf('/');
+  const main = slash === -1 ? rule : rule.substring(0, slash);
+  const parts = main.split('>');
+  if (parts.length !== 2) return { kind: 'other', text: normalizeSpacing(line) };
+  return {
+    kind: 'rule',
+    from: normalizeSpacing(parts[0]),
+    to: normalizeSpacing(parts[1]),
+    context: slash === -1 ? undefined : normalizeSpacing(rule.substring(slash + 1)),
+    annotations,
+    semicolon,
+  };
+}
+
+function normalizeSpacing(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/([[(]) /g, '$1').replace(/ ([\])])/g, '$1').trim();
+}
+
+// Width on screen: combining marks (as in t͡s) take no column
+function displayWidth(text: string): number {
+  return Array.from(text.replace(/\p{M}/gu, '')).length;
+}
+
+function padTo(text: string, width: number): string {
+  return text + ' '.repeat(Math.max(0, width - displayWidth(text)));
+}
+
+function alignRules(rules: Extract<FormattedLine, { kind: 'rule' }>[]): string[] {
+  const fromWidth = Math.max(...rules.map(rule => displayWidth(rule.from)));
+  const mains = rules.map(rule => `${padTo(rule.from, fromWidth)} > ${rule.to}`);
+  const mainWidth = Math.max(0, ...mains.filter((_, k) => rules[k].context !== undefined).map(displayWidth));
+
+  return rules.map((rule, k) => {
+    let line = rule.context !== undefined ? `${padTo(mains[k], mainWidth)} / ${rule.context}` : mains[k];
+    if (rule.annotations.length > 0) line += ` ${rule.annotations.join(' ')}`;
+    return (rule.semicolon ? `${line};` : line).trimEnd();
+  });
+}
+
+// Token delimiters, as in the linter
+const DELIMITERS = /[\s[\]>/;()!]+/;
+
+function uses(line: FormattedLine, name: string): boolean {
+  let text: string;
+  if (line.kind === 'variable') text = line.value;
+  else if (line.kind === 'rule') text = `${line.from} > ${line.to} / ${line.context ?? ''}`;
+  else return false;
+  return text.split(DELIMITERS).some(token => token.replace(/[₀-₉]+$/, '') === name);
+}
+
+/**
+ * Moves each variable defined after a line that uses it to before that line
+ * (and the comments directly above that line), taking along the comments
+ * directly above the definition. Variables may refer to each other, so this
+ * repeats until nothing moves. A name defined twice stays put, since the
+ * last definition is the one that counts.
+ */
+function moveDefinitionsBeforeUse(lines: FormattedLine[]): void {
+  for (let pass = 0; pass < lines.length; pass++) {
+    let moved = false;
+    for (let d = 0; d < lines.length && !moved; d++) {
+      const definition = lines[d];
+      if (definition.kind !== 'variable') continue;
+      if (lines.some((line, k) => k !== d && line.kind === 'variable' && line.name === definition.name)) continue;
+      const first = lines.findIndex((line, k) => k !== d && uses(line, definition.name));
+      if (first === -1 || first > d) continue;
+
+      let start = d;
+      while (start > first + 1 && lines[start - 1].kind === 'comment') start--;
+      const chunk = lines.splice(start, d - start + 1);
+      let at = first;
+      while (at > 0 && lines[at - 1].kind === 'comment') at--;
+      lines.splice(at, 0, ...chunk);
+      moved = true;
+    }
+    if (!moved) return;
+  }
+}
@@ -0,0 +1,44 @@
+import type { Rule } from '../types';
+
+/**
+ * Splits rules into application groups. The expansions of one written
+ * iterative rule (same source line, ltr or rtl) form a single group, so that
+ * e.g. harmony over a vowel class can feed itself across class members.
+ * So do the expansions of a rule with back-references, so that e.g.
+ * metathesis swaps every pair at once instead of one binding after another.
+ * Every other rule is a group of one.
+ */
+export function groupRules(rules: Rule[]): Rule[][] {
+  const groups: Rule[][] = [];
+  for (const rule of rules) {
+    const last = groups[groups.length - 1];
+    const iterative = rule.mode === 'ltr' || rule.mode === 'rtl';
+    if ((iterative || rule.backReferences) && last && rule.source && last[0].source === rule.source && last[0].mode === rule.mode) {
+      last.push(rule);
+    } else {
+      groups.push([rule]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Whether a rule refers to syllable structure ($, position, syllable count
+ * or marks on a tier)
+ */
+export function usesSyllables(rule: Rule): boolean {
+  return rule.position !== undefined ||
+    rule.syllables !== undefined ||
+    rule.conditions !== undefined ||
+    (rule.leftContext?.includes('$') ?? false) ||
+    (rule.rightContext?.includes('$') ?? false);
+}
+
+/**
+ * Whether a rule's matches depend on tier marks: either it has tier
+ * conditions, or marks are skipped over when reading its contexts
+ */
+export function usesTiers(rule: Rule): boolean {
+  return rule.conditions !== undefined ||
+    (rule.tiers !== undefined && (rule.leftContext !== undefined || rule.rightContext !== undefined));
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeInteractions, interactionsToJson } from './interactions';
+import { parseRules } from './parser';
+
+const PHONEMES = ['a', 'e', 'f', 'i', 'k', 'p', 's', 't', 'x', 'ʃ', 'tʃ'];
+
+function ruleset(text: string) {
+  return { rules: parseRules(text), sourcePhonemes: PHONEMES, targetPhonemes: PHONEMES, sourcePhonotactics: null, targetPhonotactics: null };
+}
+
+function kinds(text: string, words: string[] = []) {
+  return analyzeInteractions(ruleset(text), words).interactions.map(i => i.kinds);
+}
+
+describe('analyzeInteractions', () => {
+  it('should find feeding: the first rule creates the second rule\'s input', () => {
+    expect(kinds('i > ∅ / _ #\nk > x / _ #')).toEqual([['feeding']]);
+  });
+
+  it('should find bleeding: the first rule removes the second rule\'s input', () => {
+    expect(kinds('i > ∅ / _ #\nk > tʃ / _ i')).toEqual([['bleeding']]);
+  });
+
+  it('should find counter-feeding: the second rule creates input too late', () => {
+    expect(kinds('k > x / _ #\ni > ∅ / _ #')).toEqual([['counter-feeding']]);
+  });
+
+  it('should find counter-bleeding: the second rule removes input too late', () => {
+    expect(kinds('k > tʃ / _ i\ni > ∅ / _ #')).toEqual([['counter-bleeding']]);
+  });
+
+  it('should call rules that share no segments independent', () => {
+    expect(kinds('p > f\na > e / _ #')).toEqual([[]]);
+  });
+
+  it('should classify every ordered pair', () => {
+    const analysis = analyzeInteractions(ruleset('p > f\ni > ∅ / _ #\nk > x / _ #'));
+    expect(analysis.interactions.map(({ first, second }) => [first, second])).toEqual([[0, 1], [0, 2], [1, 2]]);
+    expect(analysis.rules.map(r => r.line)).toEqual([1, 2, 3]);
+    expect(analysis.complete).toBe(true);
+  });
+
+  it('should show each interaction through both orders', () => {
+    const [interaction] = analyzeInteractions(ruleset('i > ∅ / _ #\nk > x / _ #')).interactions;
+    expect(interaction.examples.feeding?.[0]).toEqual({ word: 'ki', actual: ['ki', 'k', 'x'], reversed: ['ki', 'ki', 'k'] });
+  });
+
+  it('should try the expansions of a class rule that touch the other rule', () => {
+    expect(kinds('[p t] > [f s]\ns > ʃ / _ i')).toEqual([['feeding']]);
+  });
+
+  it('should take examples from a lexicon, as the forms that reach the two rules', () => {
+    const text = 'p > f\ni > ∅ / _ #\nk > x / _ #';
+    const analysis = analyzeInteractions(ruleset(text), ['paki', 'pat']);
+    const feeding = analysis.interactions.find(i => i.first === 1 && i.second === 2)!.examples.feeding!;
+    expect(feeding[0]).toEqual({ word: 'faki', lexeme: 'paki', actual: ['faki', 'fak', 'fax'], reversed: ['faki', 'faki', 'fak'] });
+  });
+
+  it('should report lexicon words the rules cannot run on', () => {
+    const analysis = analyzeInteractions(ruleset('p > f'), ['paki', 'qa']);
+    expect(analysis.rejected).toHaveLength(1);
+    expect(analysis.rejected[0].word).toBe('qa');
+  });
+
+  it('should keep at most the given number of examples', () => {
+    const analysis = analyzeInteractions(ruleset('i > ∅ / _ #\nk > x / _ #'), ['aki', 'iki', 'kaki'], { timeoutMs: 10000, maxExamples: 1 });
+    expect(analysis.interactions[0].examples.feeding).toHaveLength(1);
+  });
+});
+
+describe('interactionsToJson', () => {
+  it('should list the rules and the pairs that interact, by line', () => {
+    const json = interactionsToJson(analyzeInteractions(ruleset('# rules\np > f\ni > ∅ / _ #\nk > x / _ #')));
+    expect(json).toMatchObject({
+      rules: [{ line: 2, text: 'p > f' }, { line: 3, text: 'i > ∅ / _ #' }, { line: 4, text: 'k > x / _ #' }],
+      interactions: [{ first: 3, second: 4, kinds: ['feeding'] }],
+      rejected: [],
+      complete: true,
+    });
+  });
+});
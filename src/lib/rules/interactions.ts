@@ -0,0 +1,303 @@
+/**
+ * How the rules of a ruleset interact, pair by pair.
+ *
+ * For rules A and B, with A ordered first, on a word w:
+ * - feeding: A applies and creates a form B applies to, which w was not
+ * - bleeding: both apply to w, but B no longer applies after A
+ * - counter-feeding: B would feed A, but comes too late (A does not apply to
+ *   w, B does, and A would apply to B's output)
+ * - counter-bleeding: B would bleed A, but comes too late (both apply to w,
+ *   and A would not apply to B's output)
+ *
+ * The two rules are applied on their own, one after the other, so rules
+ * between them do not take part. The words come from a lexicon, as the forms
+ * they have when they reach the two rules, or are built from the rules' own
+ * sources and contexts.
+ */
+
+import type { Rule } from '../types';
+import type { LoadedRuleset } from './regression';
+import { applyRuleGroup, applyRulesWithTrace, syllabifierFor } from './engine';
+import { groupRules } from './groups';
+import { isExempt } from './exceptions';
+
+export type InteractionKind = 'feeding' | 'bleeding' | 'counter-feeding' | 'counter-bleeding';
+
+export const INTERACTION_KINDS: InteractionKind[] = ['feeding', 'bleeding', 'counter-feeding', 'counter-bleeding'];
+
+export interface InteractionLimits {
+  timeoutMs: number;
+  maxExamples: number;      // Example words kept per kind and pair
+}
+
+export const INTERACTION_LIMITS: InteractionLimits = { timeoutMs: 10000, maxExamples: 3 };
+
+/**
+ * A rule as written, with its expansions
+ */
+export interface WrittenRule {
+  line: number;
+  text: string;
+  rules: Rule[];
+}
+
+/**
+ * A word that shows an interaction, through both orders of the two rules
+ */
+export interface InteractionExample {
+  word: string;             // The form before either rule
+  lexeme?: string;          // The lexicon word it is a stage of; absent for built words
+  actual: string[];         // word, after A, after A then B
+  reversed: string[];       // word, after B, after B then A
+}
+
+/**
+ * One ordered pair of rules: `first` comes before `second` in the ruleset.
+ * A pair with no kinds is independent (as far as the words tried show).
+ */
+export interface RuleInteraction {
+  first: number;            // Index into InteractionAnalysis.rules
+  second: number;
+  kinds: InteractionKind[];
+  examples: Partial<Record<InteractionKind, InteractionExample[]>>;
+}
+
+export interface InteractionAnalysis {
+  rules: WrittenRule[];
+  interactions: RuleInteraction[];  // Every ordered pair, by first then second rule
+  rejected: { word: string; error: string }[];  // Lexicon words the rules cannot run on
+  complete: boolean;        // false if the analysis stopped at the time limit
+}
+
+/**
+ * Classifies every ordered pair of written rules. Without a lexicon (or in
+ * addition to it), candidate words are built for each pair by overlapping
+ * the two rules' sources and contexts in every way that fits; a rule written
+ * with a class is tried with the expansions that share segments with the
+ * other rule.
+ */
+export function analyzeInteractions(
+  ruleset: LoadedRuleset,
+  words: string[] = [],
+  limits: InteractionLimits = INTERACTION_LIMITS
+): InteractionAnalysis {
+  const written = writtenRules(ruleset.rules);
+  const syllabify = syllabifierFor(ruleset.rules, ruleset.sourcePhonotactics, ruleset.targetPhonotactics);
+  const groups = written.map(rule => groupRules(rule.rules));
+  const apply = (index: number, tokens: string[], word?: string): string[] =>
+    word !== undefined && isExempt(groups[index][0][0], word)
+      ? tokens
+      : groups[index].reduce((current, group) => safely(() => applyRuleGroup(current, group, syllabify), current), tokens);
+
+  const { stages, rejected } = lexiconStages(ruleset, words, written);
+  const deadline = Date.now() + limits.timeoutMs;
+  let complete = true;
+  const interactions: RuleInteraction[] = [];
+
+  for (let i = 0; i < written.length; i++) {
+    for (let j = i + 1; j < written.length; j++) {
+      const interaction: RuleInteraction = { first: i, second: j, kinds: [], examples: {} };
+      interactions.push(interaction);
+      if (!complete) continue;
+      if (Date.now() > deadline) {
+        complete = false;
+        continue;
+      }
+
+      const record = (kind: InteractionKind, example: InteractionExample) => {
+        const examples = interaction.examples[kind] ?? (interaction.examples[kind] = []);
+        if (examples.length < limits.maxExamples && !examples.some(e => e.word === example.word)) examples.push(example);
+      };
+      const tryWord = (tokens: string[], word: string | undefined) => {
+        const { kinds, example } = classify(tokens, t => apply(i, t, word), t => apply(j, t, word));
+        for (const kind of kinds) record(kind, word !== undefined ? { ...example, lexeme: word } : example);
+      };
+
+      for (const { word, forms } of stages) {
+        tryWord(forms[i], word);
+        tryWord(forms[j], word);
+      }
+      for (const tokens of candidateWords(written[i].rules, written[j].rules, t => apply(i, t), t => apply(j, t))) {
+        tryWord(tokens, undefined);
+      }
+      interaction.kinds = INTERACTION_KINDS.filter(kind => interaction.examples[kind]);
+    }
+  }
+
+  return { rules: written, interactions, rejected, complete };
+}
+
+/**
+ * The analysis as plain JSON: rules by line and text, and the pairs that
+ * interact, with their examples
+ */
+export function interactionsToJson(analysis: InteractionAnalysis): object {
+  const { rules, interactions, rejected, complete } = analysis;
+  return {
+    rules: rules.map(({ line, text }) => ({ line, text })),
+    interactions: interactions.filter(i => i.kinds.length > 0).map(({ first, second, kinds, examples }) => ({
+      first: rules[first].line,
+      second: rules[second].line,
+      kinds,
+      examples,
+    })),
+    rejected,
+    complete,
+  };
+}
+
+// The expansions of each written rule, in order
+function writtenRules(rules: Rule[]): WrittenRule[] {
+  const written: WrittenRule[] = [];
+  for (const rule of rules) {
+    const last = written[written.length - 1];
+    if (last && rule.source && last.rules[0].source === rule.source) last.rules.push(rule);
+    else written.push({ line: rule.source?.line ?? 0, text: rule.source?.text ?? `${rule.from.join(' ')} > ${rule.to.join(' ')}`, rules: [rule] });
+  }
+  return written;
+}
+
+// Syllable-aware rules can fail on forms the phonotactics do not parse
+function safely(run: () => string[], fallback: string[]): string[] {
+  try {
+    return run();
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * The form of each lexicon word as it reaches each written rule
+ */
+function lexiconStages(ruleset: LoadedRuleset, words: string[], written: WrittenRule[]) {
+  const stages: { word: string; forms: string[][] }[] = [];
+  const rejected: { word: string; error: string }[] = [];
+  const { rules, sourcePhonemes, targetPhonemes, sourcePhonotactics, targetPhonotactics } = ruleset;
+
+  for (const word of words) {
+    try {
+      const { steps } = applyRulesWithTrace(word, rules, sourcePhonemes, targetPhonemes, sourcePhonotactics, targetPhonotactics);
+      const forms = written.map(rule => steps[rules.indexOf(rule.rules[0])].before);
+      stages.push({ word, forms });
+    } catch (e) {
+      rejected.push({ word, error: e instanceof Error ? e.message : 'Error' });
+    }
+  }
+  return { stages, rejected };
+}
+
+function changed(a: string[], b: string[]): boolean {
+  return a.length !== b.length || a.some((token, i) => token !== b[i]);
+}
+
+/**
+ * The interactions a word shows between rule A (first) and rule B
+ */
+function classify(tokens: string[], a: (tokens: string[]) => string[], b: (tokens: string[]) => string[]) {
+  const afterA = a(tokens);
+  const afterB = b(tokens);
+  const afterAB = b(afterA);
+  const afterBA = a(afterB);
+  const aApplies = changed(tokens, afterA);
+  const bApplies = changed(tokens, afterB);
+
+  const kinds: InteractionKind[] = [];
+  if (aApplies && !bApplies && changed(afterA, afterAB)) kinds.push('feeding');
+  if (aApplies && bApplies && !changed(afterA, afterAB)) kinds.push('bleeding');
+  if (!aApplies && bApplies && changed(afterB, afterBA)) kinds.push('counter-feeding');
+  if (aApplies && bApplies && !changed(afterB, afterBA)) kinds.push('counter-bleeding');
+
+  const word = tokens.join('');
+  return {
+    kinds,
+    example: { word, actual: [word, afterA.join(''), afterAB.join('')], reversed: [word, afterB.join(''), afterBA.join('')] },
+  };
+}
+
+// Expansion pairs tried per pair of written rules
+const MAX_EXPANSION_PAIRS = 16;
+
+/**
+ * A rule's source with its contexts, and whether the contexts pin it to the
+ * start or end of the word. Syllable boundaries are left out.
+ */
+interface Environment {
+  tokens: string[];
+  atStart: boolean;
+  atEnd: boolean;
+}
+
+function environment(rule: Rule): Environment {
+  const left = (rule.leftContext ?? []).filter(t => t !== '$');
+  const right = (rule.rightContext ?? []).filter(t => t !== '$');
+  const atStart = left[0] === '#';
+  const atEnd = right[right.length - 1] === '#';
+  return {
+    tokens: [...left.filter(t => t !== '#'), ...rule.from, ...right.filter(t => t !== '#')],
+    atStart,
+    atEnd,
+  };
+}
+
+/**
+ * Words built from two rules. For feeding, A's environment is placed so that
+ * its output overlaps B's environment; for counter-feeding the reverse; for
+ * bleeding, the two environments overlap as written.
+ */
+function candidateWords(
+  rulesA: Rule[],
+  rulesB: Rule[],
+  applyA: (tokens: string[]) => string[],
+  applyB: (tokens: string[]) => string[]
+): string[][] {
+  const related = (x: Rule, y: Rule) => {
+    const mentioned = new Set([...y.from, ...(y.leftContext ?? []), ...(y.rightContext ?? [])]);
+    // A deletion or insertion can bring any segments together
+    return x.from.length !== x.to.length || [...x.from, ...x.to].some(t => mentioned.has(t));
+  };
+  const pairs: [Rule, Rule][] = [];
+  for (const x of rulesA) {
+    for (const y of rulesB) {
+      if (pairs.length < MAX_EXPANSION_PAIRS && (related(x, y) || related(y, x))) pairs.push([x, y]);
+    }
+  }
+
+  const candidates = new Map<string, string[]>();
+  const add = (tokens: string[]) => {
+    if (tokens.length > 0) candidates.set(tokens.join('\u0000'), tokens);
+  };
+  for (const [x, y] of pairs) {
+    const envA = environment(x);
+    const envB = environment(y);
+    add(envA.tokens);
+    add(envB.tokens);
+    overlaps(envA, applyA(envA.tokens), envB).forEach(add);
+    overlaps(envB, applyB(envB.tokens), envA).forEach(add);
+    overlaps(envA, envA.tokens, envB).forEach(add);
+  }
+  return Array.from(candidates.values());
+}
+
+/**
+ * Every way to place `other` against `outcome` (the form `env` becomes) so
+ * that the tokens they share agree, written out with env's own tokens: the
+ * part of `other` before, env, the part of `other` after. Word edges required
+ * by either side are respected.
+ */
+function overlaps(env: Environment, outcome: string[], other: Environment): string[][] {
+  const words: string[][] = [];
+  const y = other.tokens;
+  for (let offset = -y.length; offset <= outcome.length; offset++) {
+    const before = y.slice(0, Math.max(0, -offset));
+    const after = y.slice(Math.max(0, outcome.length - offset));
+    let fits = true;
+    for (let k = Math.max(0, offset); k < Math.min(outcome.length, offset + y.length); k++) {
+      if (outcome[k] !== y[k - offset]) fits = false;
+    }
+    if (!fits) continue;
+    if ((env.atStart && before.length > 0) || (env.atEnd && after.length > 0)) continue;
+    if ((other.atStart && offset > 0) || (other.atEnd && offset + y.length < outcome.length)) continue;
+    words.push([...before, ...env.tokens, ...after]);
+  }
+  return words;
+}
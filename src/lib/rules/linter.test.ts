@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { lintRules } from './linter';
+import { parseRules } from './parser';
+
+const SOURCE = ['a', 'b', 'i', 'k', 'p', 's', 't', 'ʃ', 'ɬ'];
+const TARGET = ['a', 'b', 'e', 'f', 'i', 'k', 's', 't', 'ʃ'];
+
+function lint(text: string, source = SOURCE, target = TARGET) {
+  return lintRules(text, parseRules(text), source, target).map(({ line, kind }) => `${line} ${kind}`);
+}
+
+describe('lintRules', () => {
+  it('should find nothing wrong with a plain ruleset', () => {
+    expect(lint('ʃ > s\nɬ > ʃ\np > f\na > e / _ #')).toEqual([]);
+  });
+
+  it('should report rules that change nothing', () => {
+    expect(lint('b > b\np > f\n[k t] > [k t]')).toEqual(['1 no-op', '3 no-op']);
+    expect(lintRules('b > b', parseRules('b > b'), SOURCE, TARGET)[0].message).toBe('Rule changes nothing');
+  });
+
+  it('should report rules whose source an unconditional rule already changed', () => {
+    const text = 'ʃ > s\nʃ > t / _ a\nɬ > ʃ\nʃ > k';
+    expect(lint(text)).toEqual(['2 unreachable']);
+    expect(lintRules(text, parseRules(text), SOURCE, TARGET)[0].message)
+      .toBe('Rule can never apply: every ʃ was already changed by line 1');
+  });
+
+  it('should report rules for phonemes nothing produces', () => {
+    const [warning] = lintRules('x > k', parseRules('x > k'), SOURCE, TARGET);
+    expect(warning).toEqual({
+      line: 1, kind: 'unreachable', message: 'Rule can never apply: x is not in the source inventory and no earlier rule produces it',
+    });
+  });
+
+  it('should only report a class rule when none of its expansions can apply', () => {
+    expect(lint('p > f\n[p t] > [b s]')).toEqual([]);
+    expect(lint('p > f\nt > s\n[p t] > [b s]')).toEqual(['3 unreachable']);
+  });
+
+  it('should report rules shadowed by an earlier rule in a wider context', () => {
+    expect(lint('a > e / _ #\na > i / t _ #')).toEqual(['2 shadowed']);
+    expect(lint('a > e / _ #\na > i / _ t')).toEqual([]);
+  });
+
+  it('should not report shadowing when a rule in between can create new matches', () => {
+    expect(lint('a > e / _ #\ni > a\na > i / t _ #')).toEqual([]);
+    expect(lint('a > e / _ t\nk > ∅\na > i / _ t')).toEqual([]);
+    expect(lint('a > e / _ #\na > i / _ # @rtl')).toEqual(['2 shadowed']);
+  });
+
+  it('should report rules a later rule undoes', () => {
+    expect(lint('p > f\nf > p')).toEqual(['1 undone']);
+    expect(lint('p > f\nf > b / a _\nf > p')).toEqual([]);
+    expect(lint('p > f\np > k / _ a\nf > p')).toEqual(['2 unreachable']);
+    // s was already there before the first rule
+    expect(lint('t > s\ns > t')).toEqual([]);
+  });
+
+  it('should report phonemes in neither inventory that stay in the output', () => {
+    expect(lint('p > ɸ')).toEqual(['1 stranded']);
+    expect(lint('p > ɸ\nɸ > f')).toEqual([]);
+    expect(lintRules('p > ɸ', parseRules('p > ɸ'), SOURCE, TARGET)[0].message)
+      .toBe('ɸ is in neither inventory and no later rule changes it');
+  });
+
+  it('should report unused and undefined variables', () => {
+    const text = 'V = [a i]\nC = [p t k]\nSTOP = [p t]\na > e / _ C\ni > e / N _';
+    expect(lint(text)).toEqual(['1 unused-variable', '3 unused-variable', '5 undefined-variable']);
+    expect(lint('V = [a i]\nC = [V]\nC₁ > C₁ C₁')).toEqual([]);
+  });
+
+  it('should skip the inventory checks without inventories', () => {
+    expect(lint('x > y\nb > b', [], [])).toEqual(['2 no-op']);
+  });
+
+  it('should not count tier marks as stranded or unreachable phonemes', () => {
+    expect(lint('@tier stress = [ˈ] before\nˈ > ∅')).toEqual([]);
+  });
+});
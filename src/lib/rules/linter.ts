@@ -0,0 +1,274 @@
+/**
+ * Warnings about rules that can never do anything, found without running
+ * them on words.
+ *
+ * The rules are read in order while tracking which phonemes can still occur:
+ * the source inventory at first, then whatever each rule produces, minus what
+ * an unconditional rule changes everywhere. The checks are conservative: a
+ * rule is only reported when no word could make it apply.
+ */
+
+import type { Rule } from '../types';
+
+export type LintKind =
+  | 'no-op'                 // Changes every segment it matches into itself
+  | 'unreachable'           // Its source can no longer occur
+  | 'shadowed'              // An earlier rule already changes everything it matches
+  | 'undone'                // A later rule changes everything it produces back
+  | 'stranded'              // Produces a phoneme in neither inventory that nothing changes
+  | 'undefined-variable'
+  | 'unused-variable';
+
+export interface LintWarning {
+  line: number;             // 1-based line in the rules text
+  kind: LintKind;
+  message: string;
+}
+
+/**
+ * Lints rules parsed from `text`. The inventories may be empty, in which case
+ * the checks that need them are skipped. Warnings are sorted by line.
+ */
+export function lintRules(text: string, rules: Rule[], sourcePhonemes: string[], targetPhonemes: string[]): LintWarning[] {
+  const warnings: LintWarning[] = [];
+  const units = writtenRules(rules);
+  // Tier marks are written as tokens but belong to no inventory
+  const marks = new Set(rules.flatMap(rule => rule.tiers?.flatMap(tier => tier.marks) ?? []));
+
+  const noOps = new Set(units.filter(unit => unit.every(rule => sameSegments(rule.from, rule.to))));
+  for (const unit of noOps) warn(warnings, unit, 'no-op', 'Rule changes nothing');
+  const changing = units.filter(unit => !noOps.has(unit));
+  let active = changing;
+
+  if (sourcePhonemes.length > 0) {
+    const unreachable = checkReachability(active, sourcePhonemes, marks, warnings);
+    active = active.filter(unit => !unreachable.has(unit));
+  }
+  checkShadowing(active, warnings);
+  // A rule that only the undone rule keeps from applying still counts
+  checkUndone(changing, sourcePhonemes, warnings);
+  if (targetPhonemes.length > 0) checkStranded(active, sourcePhonemes, targetPhonemes, marks, warnings);
+  checkVariables(text, new Set([...sourcePhonemes, ...targetPhonemes, ...marks]), warnings);
+
+  return warnings.sort((a, b) => a.line - b.line);
+}
+
+// The expansions of each written rule, in order
+function writtenRules(rules: Rule[]): Rule[][] {
+  const units: Rule[][] = [];
+  for (const rule of rules) {
+    if (!rule.source) continue;
+    const last = units[units.length - 1];
+    if (last && last[0].source === rule.source) last.push(rule);
+    else units.push([rule]);
+  }
+  return units;
+}
+
+function warn(warnings: LintWarning[], unit: Rule[], kind: LintKind, message: string): void {
+  warnings.push({ line: unit[0].source!.line, kind, message });
+}
+
+function sameSegments(a: string[] = [], b: string[] = []): boolean {
+  return a.length === b.length && a.every((segment, i) => segment === b[i]);
+}
+
+// Whether anything besides the segment itself limits where a rule applies
+function hasConditions(rule: Rule): boolean {
+  return !!(rule.position || rule.syllables || rule.conditions?.length || rule.exceptions?.length);
+}
+
+// Applies wherever its source occurs
+function isUnconditional(rule: Rule): boolean {
+  return !rule.leftContext?.length && !rule.rightContext?.length && !hasConditions(rule);
+}
+
+function lineOf(rule: Rule): number {
+  return rule.source!.line;
+}
+
+/**
+ * Rules whose source can no longer occur: it is in neither the source
+ * inventory nor the output of an earlier rule, or an earlier unconditional
+ * rule changed all of it. Returns the rules it reported.
+ */
+function checkReachability(units: Rule[][], sourcePhonemes: string[], marks: Set<string>, warnings: LintWarning[]): Set<Rule[]> {
+  const unreachable = new Set<Rule[]>();
+  const present = new Set(sourcePhonemes);
+  const consumedBy = new Map<string, number>();
+  const missing = (rule: Rule) => rule.from.find(segment => !present.has(segment) && !marks.has(segment));
+
+  for (const unit of units) {
+    if (unit.every(rule => missing(rule) !== undefined)) {
+      const segment = missing(unit[0])!;
+      const line = consumedBy.get(segment);
+      warn(warnings, unit, 'unreachable', line !== undefined
+        ? `Rule can never apply: every ${segment} was already changed by line ${line}`
+        : `Rule can never apply: ${segment} is not in the source inventory and no earlier rule produces it`);
+      unreachable.add(unit);
+      continue;
+    }
+
+    const produced = new Set(unit.flatMap(rule => rule.to));
+    for (const rule of unit) {
+      const [segment] = rule.from;
+      if (rule.from.length === 1 && isUnconditional(rule) && !produced.has(segment) && present.has(segment)) {
+        present.delete(segment);
+        consumedBy.set(segment, lineOf(rule));
+      }
+    }
+    for (const segment of produced) {
+      present.add(segment);
+      consumedBy.delete(segment);
+    }
+  }
+  return unreachable;
+}
+
+/**
+ * Rules every match of which an earlier rule already changed: same source, and
+ * the earlier rule's contexts are part of this one's. Between the two rules
+ * (and in the earlier one), nothing may produce the source or a context
+ * segment, or delete a segment and so bring new neighbours together.
+ */
+function checkShadowing(units: Rule[][], warnings: LintWarning[]): void {
+  units.forEach((unit, u) => {
+    const shadows = unit.map(rule => {
+      const watched = watchedSegments(rule);
+      // The first earlier unit that could create a match ends the search, so
+      // every unit between a shadowing rule and this one is already checked
+      for (let earlier = u - 1; earlier >= 0; earlier--) {
+        if (units[earlier].some(other => disturbs(other, watched))) return null;
+        const shadow = units[earlier].find(other => covers(other, rule));
+        if (shadow) return shadow;
+      }
+      return null;
+    });
+    if (shadows.every(shadow => shadow)) {
+      const lines = Array.from(new Set(shadows.map(shadow => lineOf(shadow!))));
+      warn(warnings, unit, 'shadowed', `Rule never applies: line${lines.length > 1 ? 's' : ''} ${lines.join(', ')} already change${lines.length > 1 ? '' : 's'} everything it matches`);
+    }
+  });
+}
+
+// Whether `earlier` changes every match of `rule` (contexts as tokens: the
+// earlier rule's left context ends the rule's, its right context starts it)
+function covers(earlier: Rule, rule: Rule): boolean {
+  if (hasConditions(earlier) || (earlier.mode ?? 'simultaneous') !== 'simultaneous') return false;
+  // A second insertion at the same place is still possible
+  if (earlier.from.length === 0) return false;
+  if (sameSegments(earlier.from, earlier.to) || !sameSegments(earlier.from, rule.from)) return false;
+  const left = earlier.leftContext ?? [];
+  const right = earlier.rightContext ?? [];
+  const ruleLeft = rule.leftContext ?? [];
+  const ruleRight = rule.rightContext ?? [];
+  if ([...left, ...right].includes('$')) return false;
+  return left.length <= ruleLeft.length && sameSegments(left, ruleLeft.slice(ruleLeft.length - left.length))
+    && right.length <= ruleRight.length && sameSegments(right, ruleRight.slice(0, right.length));
+}
+
+// The segments a rule's matches are made of
+function watchedSegments(rule: Rule): Set<string> {
+  return new Set([...rule.from, ...(rule.leftContext ?? []), ...(rule.rightContext ?? [])]);
+}
+
+// Whether `other` could create a new match for a rule watching these segments
+function disturbs(other: Rule, watched: Set<string>): boolean {
+  return other.to.length < other.from.length || other.to.some(segment => watched.has(segment));
+}
+
+/**
+ * Rules that a later unconditional rule reverses (p > f, then f > p) when
+ * nothing else produces their output, and no rule in between reads either
+ * segment
+ */
+function checkUndone(units: Rule[][], sourcePhonemes: string[], warnings: LintWarning[]): void {
+  const inSource = new Set(sourcePhonemes);
+
+  units.forEach((unit, u) => {
+    const undoers = unit.map(rule => {
+      if (rule.from.length !== 1 || rule.to.length !== 1) return null;
+      const [segment] = rule.to;
+      if (inSource.has(segment)) return null;
+      if (units.slice(0, u).some(earlier => earlier.some(r => r.to.includes(segment)))) return null;
+
+      for (let later = u + 1; later < units.length; later++) {
+        const undoer = units[later].find(r => isUnconditional(r) && sameSegments(r.from, rule.to) && sameSegments(r.to, rule.from));
+        if (undoer) return undoer;
+        const reads = units[later].some(r =>
+          r.to.includes(segment) || [...r.from, ...(r.leftContext ?? []), ...(r.rightContext ?? [])].some(s => s === segment || s === rule.from[0])
+        );
+        if (reads) return null;
+      }
+      return null;
+    });
+    if (undoers.every(undoer => undoer)) {
+      const lines = Array.from(new Set(undoers.map(undoer => lineOf(undoer!))));
+      warn(warnings, unit, 'undone', `Rule is undone by line${lines.length > 1 ? 's' : ''} ${lines.join(', ')}`);
+    }
+  });
+}
+
+/**
+ * Phonemes a rule produces that are in neither inventory and that no later
+ * rule changes, so they end up in the output
+ */
+function checkStranded(units: Rule[][], sourcePhonemes: string[], targetPhonemes: string[], marks: Set<string>, warnings: LintWarning[]): void {
+  const known = new Set([...sourcePhonemes, ...targetPhonemes, ...marks]);
+
+  units.forEach((unit, u) => {
+    const produced = Array.from(new Set(unit.flatMap(rule => rule.to))).filter(segment => !known.has(segment));
+    const stranded = produced.filter(segment => !units.slice(u + 1).some(later => later.some(rule => rule.from.includes(segment))));
+    if (stranded.length > 0) {
+      warn(warnings, unit, 'stranded', `${stranded.join(', ')} ${stranded.length > 1 ? 'are' : 'is'} in neither inventory and no later rule changes ${stranded.length > 1 ? 'them' : 'it'}`);
+    }
+  });
+}
+
+// Token delimiters, as in the parser's variable substitution
+const DELIMITERS = /[\s[\]>/;()!]+/;
+const VARIABLE_NAME = /^[A-Z][A-Z0-9_]*$/;
+const SUBSCRIPT = /[₀-₉]+$/;
+
+/**
+ * Variables that are defined but never used, and tokens written like a
+ * variable name (V, STOPS) that are neither defined nor phonemes
+ */
+function checkVariables(text: string, phonemes: Set<string>, warnings: LintWarning[]): void {
+  const definitions = new Map<string, number>();
+  const uses: { name: string; line: number }[] = [];
+  const collect = (part: string, line: number) => {
+    for (const token of part.split(DELIMITERS)) {
+      const name = token.replace(SUBSCRIPT, '');
+      if (name !== '') uses.push({ name, line });
+    }
+  };
+
+  text.split('\n').forEach((raw, i) => {
+    const line = raw.trim();
+    if (line === '' || line.startsWith('#') || line.startsWith('@')) return;
+    const eq = line.indexOf('=');
+    const gt = line.indexOf('>');
+    if (eq !== -1 && (gt === -1 || eq < gt)) {
+      const name = line.substring(0, eq).trim();
+      if (name === '') return;
+      definitions.set(name, i + 1);
+      collect(line.substring(eq + 1), i + 1);
+    } else {
+      collect(line.split(/\s+/).filter(token => !token.startsWith('@')).join(' '), i + 1);
+    }
+  });
+
+  for (const [name, line] of definitions) {
+    if (!uses.some(use => use.name === name)) {
+      warnings.push({ line, kind: 'unused-variable', message: `Variable ${name} is never used` });
+    }
+  }
+  const reported = new Set<string>();
+  for (const { name, line } of uses) {
+    if (VARIABLE_NAME.test(name) && !definitions.has(name) && !phonemes.has(name) && !reported.has(name)) {
+      reported.add(name);
+      warnings.push({ line, kind: 'undefined-variable', message: `${name} is not a defined variable or a phoneme` });
+    }
+  }
+}
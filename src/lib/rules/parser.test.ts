@@ -1,10 +1,17 @@
 import { describe, it, expect } from 'vitest';
 import { parseRules } from './parser';
+import { parseFeaturesFile } from '../features/parser';
+import type { Rule } from '../types';
+
+// Drops source provenance so assertions can compare the rule shape alone
+function shapes(rules: Rule[]): Rule[] {
+  return rules.map(({ source: _source, ...rule }) => rule);
+}
 
 describe('parseRules', () => {
   it('should parse simple rules', () => {
     const rules = parseRules('a > x\nb > y');
-    expect(rules).toEqual([
+    expect(shapes(rules)).toEqual([
       { from: ['a'], to: ['x'] },
       { from: ['b'], to: ['y'] }
     ]);
@@ -12,7 +19,7 @@ describe('parseRules', () => {
 
   it('should handle whitespace around >', () => {
     const rules = parseRules('a>x\nb  >  y');
-    expect(rules).toEqual([
+    expect(shapes(rules)).toEqual([
       { from: ['a'], to: ['x'] },
       { from: ['b'], to: ['y'] }
     ]);
@@ -20,7 +27,7 @@ describe('parseRules', () => {
 
   it('should handle empty lines', () => {
     const rules = parseRules('a > x\n\nb > y\n');
-    expect(rules).toEqual([
+    expect(shapes(rules)).toEqual([
       { from: ['a'], to: ['x'] },
       { from: ['b'], to: ['y'] }
     ]);
@@ -28,7 +35,7 @@ describe('parseRules', () => {
 
   it('should handle comments', () => {
     const rules = parseRules('# This is a comment\na > x\n# Another comment\nb > y');
-    expect(rules).toEqual([
+    expect(shapes(rules)).toEqual([
       { from: ['a'], to: ['x'] },
       { from: ['b'], to: ['y'] }
     ]);
@@ -36,22 +43,22 @@ describe('parseRules', () => {
 
   it('should allow empty target (deletion)', () => {
     const rules = parseRules('a > ');
-    expect(rules).toEqual([{ from: ['a'], to: [] }]);
+    expect(shapes(rules)).toEqual([{ from: ['a'], to: [] }]);
   });
 
   it('should allow ∅ as deletion target', () => {
     const rules = parseRules('a > ∅');
-    expect(rules).toEqual([{ from: ['a'], to: [] }]);
+    expect(shapes(rules)).toEqual([{ from: ['a'], to: [] }]);
   });
 
   it('should allow ∅ deletion with context', () => {
     const rules = parseRules('h > ∅ / _ #');
-    expect(rules).toEqual([{ from: ['h'], to: [], leftContext: undefined, rightContext: ['#'] }]);
+    expect(shapes(rules)).toEqual([{ from: ['h'], to: [], leftContext: undefined, rightContext: ['#'] }]);
   });
 
   it('should handle multi-character phonemes', () => {
     const rules = parseRules('th > x\nsh > y');
-    expect(rules).toEqual([
+    expect(shapes(rules)).toEqual([
       { from: ['th'], to: ['x'] },
       { from: ['sh'], to: ['y'] }
     ]);
@@ -67,28 +74,28 @@ describe('parseRules', () => {
 
   it('should parse rule with left context (word boundary)', () => {
     const rules = parseRules('w > j / # _');
-    expect(rules).toEqual([
+    expect(shapes(rules)).toEqual([
       { from: ['w'], to: ['j'], leftContext: ['#'], rightContext: undefined }
     ]);
   });
 
   it('should parse rule with right context (word boundary)', () => {
     const rules = parseRules('t > d / _ #');
-    expect(rules).toEqual([
+    expect(shapes(rules)).toEqual([
       { from: ['t'], to: ['d'], leftContext: undefined, rightContext: ['#'] }
     ]);
   });
 
   it('should parse rule with both contexts', () => {
     const rules = parseRules('a > e / b _ c');
-    expect(rules).toEqual([
+    expect(shapes(rules)).toEqual([
       { from: ['a'], to: ['e'], leftContext: ['b'], rightContext: ['c'] }
     ]);
   });
 
   it('should parse rule with left phoneme context', () => {
     const rules = parseRules('k > g / n _');
-    expect(rules).toEqual([
+    expect(shapes(rules)).toEqual([
       { from: ['k'], to: ['g'], leftContext: ['n'], rightContext: undefined }
     ]);
   });
@@ -100,7 +107,7 @@ describe('parseRules', () => {
   describe('phoneme classes', () => {
     it('should parse simple class expansion: [a b] > c', () => {
       const rules = parseRules('[a b] > c');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['c'] },
         { from: ['b'], to: ['c'] }
       ]);
@@ -108,7 +115,7 @@ describe('parseRules', () => {
 
     it('should parse paired classes: [a b] > [x y]', () => {
       const rules = parseRules('[a b] > [x y]');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['x'] },
         { from: ['b'], to: ['y'] }
       ]);
@@ -116,7 +123,7 @@ describe('parseRules', () => {
 
     it('should parse class with three phonemes', () => {
       const rules = parseRules('[a b c] > [x y z]');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['x'] },
         { from: ['b'], to: ['y'] },
         { from: ['c'], to: ['z'] }
@@ -125,7 +132,7 @@ describe('parseRules', () => {
 
     it('should parse class in left context: a > b / [c d] _', () => {
       const rules = parseRules('a > b / [c d] _');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['b'], leftContext: ['c'], rightContext: undefined },
         { from: ['a'], to: ['b'], leftContext: ['d'], rightContext: undefined }
       ]);
@@ -133,7 +140,7 @@ describe('parseRules', () => {
 
     it('should parse class in right context: a > b / _ [c d]', () => {
       const rules = parseRules('a > b / _ [c d]');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['b'], leftContext: undefined, rightContext: ['c'] },
         { from: ['a'], to: ['b'], leftContext: undefined, rightContext: ['d'] }
       ]);
@@ -141,7 +148,7 @@ describe('parseRules', () => {
 
     it('should handle class with multi-character phonemes: [th sh] > [θ ʃ]', () => {
       const rules = parseRules('[th sh] > [θ ʃ]');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['th'], to: ['θ'] },
         { from: ['sh'], to: ['ʃ'] }
       ]);
@@ -149,7 +156,7 @@ describe('parseRules', () => {
 
     it('should expand multiple classes: [a b] > [x y] / [c d] _', () => {
       const rules = parseRules('[a b] > [x y] / [c d] _');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['x'], leftContext: ['c'], rightContext: undefined },
         { from: ['a'], to: ['x'], leftContext: ['d'], rightContext: undefined },
         { from: ['b'], to: ['y'], leftContext: ['c'], rightContext: undefined },
@@ -159,7 +166,7 @@ describe('parseRules', () => {
 
     it('should expand classes in both contexts', () => {
       const rules = parseRules('a > b / [c d] _ [e f]');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['b'], leftContext: ['c'], rightContext: ['e'] },
         { from: ['a'], to: ['b'], leftContext: ['c'], rightContext: ['f'] },
         { from: ['a'], to: ['b'], leftContext: ['d'], rightContext: ['e'] },
@@ -169,7 +176,7 @@ describe('parseRules', () => {
 
     it('should expand [a b c] > d; to three rules', () => {
       const rules = parseRules('[a b c] > d');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['d'] },
         { from: ['b'], to: ['d'] },
         { from: ['c'], to: ['d'] }
@@ -178,7 +185,7 @@ describe('parseRules', () => {
 
     it('should handle whitespace inside classes', () => {
       const rules = parseRules('[  a   b  ] > [x y]');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['x'] },
         { from: ['b'], to: ['y'] }
       ]);
@@ -198,7 +205,7 @@ describe('parseRules', () => {
 
     it('should work with deletion: [a b] > ', () => {
       const rules = parseRules('[a b] > ');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: [] },
         { from: ['b'], to: [] }
       ]);
@@ -206,7 +213,7 @@ describe('parseRules', () => {
 
     it('should work with ∅ deletion: [a b] > ∅', () => {
       const rules = parseRules('[a b] > ∅');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: [] },
         { from: ['b'], to: [] }
       ]);
@@ -214,7 +221,7 @@ describe('parseRules', () => {
 
     it('should handle complex Unicode in classes', () => {
       const rules = parseRules('[ɬ ɬʼ] > [ʃ dˤ]');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['ɬ'], to: ['ʃ'] },
         { from: ['ɬʼ'], to: ['dˤ'] }
       ]);
@@ -224,7 +231,7 @@ describe('parseRules', () => {
   describe('variables', () => {
     it('should parse simple variable definition and usage', () => {
       const rules = parseRules('C = [p t k]\nC > x');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['p'], to: ['x'] },
         { from: ['t'], to: ['x'] },
         { from: ['k'], to: ['x'] }
@@ -233,7 +240,7 @@ describe('parseRules', () => {
 
     it('should handle single phoneme variables', () => {
       const rules = parseRules('X = a\nX > b');
-      expect(rules).toEqual([{ from: ['a'], to: ['b'] }]);
+      expect(shapes(rules)).toEqual([{ from: ['a'], to: ['b'] }]);
     });
 
     it('should allow variables in target position with single source', () => {
@@ -247,7 +254,7 @@ describe('parseRules', () => {
 
     it('should allow variables in context', () => {
       const rules = parseRules('C = [p t]\nV = [a e]\na > b / C _ V');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['b'], leftContext: ['p'], rightContext: ['a'] },
         { from: ['a'], to: ['b'], leftContext: ['p'], rightContext: ['e'] },
         { from: ['a'], to: ['b'], leftContext: ['t'], rightContext: ['a'] },
@@ -262,7 +269,7 @@ describe('parseRules', () => {
         V = [V1 V2];
         V > x;
       `);
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['x'] },
         { from: ['e'], to: ['x'] },
         { from: ['i'], to: ['x'] },
@@ -277,7 +284,7 @@ describe('parseRules', () => {
         C = B;
         C > z;
       `);
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['x'], to: ['z'] },
         { from: ['y'], to: ['z'] }
       ]);
@@ -297,7 +304,7 @@ describe('parseRules', () => {
 
     it('should handle multi-character phonemes in variables', () => {
       const rules = parseRules('F = [th sh]\nF > x');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['th'], to: ['x'] },
         { from: ['sh'], to: ['x'] }
       ]);
@@ -305,7 +312,7 @@ describe('parseRules', () => {
 
     it('should allow variables with paired class mapping', () => {
       const rules = parseRules('C = [p t k]\nV = [b d g]\nC > V');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['p'], to: ['b'] },
         { from: ['t'], to: ['d'] },
         { from: ['k'], to: ['g'] }
@@ -314,12 +321,12 @@ describe('parseRules', () => {
 
     it('should treat undefined tokens as phonemes', () => {
       const rules = parseRules('a > b');
-      expect(rules).toEqual([{ from: ['a'], to: ['b'] }]);
+      expect(shapes(rules)).toEqual([{ from: ['a'], to: ['b'] }]);
     });
 
     it('should allow variable names that look like phonemes', () => {
       const rules = parseRules('a = [b c]\na > x');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['b'], to: ['x'] },
         { from: ['c'], to: ['x'] }
       ]);
@@ -327,12 +334,12 @@ describe('parseRules', () => {
 
     it('should handle deletion rules with variables', () => {
       const rules = parseRules('X = a\nX > ');
-      expect(rules).toEqual([{ from: ['a'], to: [] }]);
+      expect(shapes(rules)).toEqual([{ from: ['a'], to: [] }]);
     });
 
     it('should handle ∅ deletion rules with variables', () => {
       const rules = parseRules('X = a\nX > ∅');
-      expect(rules).toEqual([{ from: ['a'], to: [] }]);
+      expect(shapes(rules)).toEqual([{ from: ['a'], to: [] }]);
     });
 
     it('should allow comments mixed with variables', () => {
@@ -346,7 +353,7 @@ describe('parseRules', () => {
       `);
       // Paired class mapping: p>a, t>e, k>i
       expect(rules.length).toBe(3);
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['p'], to: ['a'] },
         { from: ['t'], to: ['e'] },
         { from: ['k'], to: ['i'] }
@@ -363,7 +370,7 @@ describe('parseRules', () => {
       // Paired from/to (2 rules) × context combinations (2) = 4 rules
       // p>a and t>e, each with leftContext m or n
       expect(rules.length).toBe(4);
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['p'], to: ['a'], leftContext: ['m'], rightContext: undefined },
         { from: ['p'], to: ['a'], leftContext: ['n'], rightContext: undefined },
         { from: ['t'], to: ['e'], leftContext: ['m'], rightContext: undefined },
@@ -373,7 +380,7 @@ describe('parseRules', () => {
 
     it('should handle nested classes directly (without variables)', () => {
       const rules = parseRules('[[a b] [c d]] > x');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['x'] },
         { from: ['b'], to: ['x'] },
         { from: ['c'], to: ['x'] },
@@ -388,7 +395,7 @@ describe('parseRules', () => {
         STOPS = [VOICELESS VOICED];
         STOPS > x;
       `);
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['p'], to: ['x'] },
         { from: ['t'], to: ['x'] },
         { from: ['k'], to: ['x'] },
@@ -400,19 +407,19 @@ describe('parseRules', () => {
 
     it('should not confuse variables with rule syntax', () => {
       const rules = parseRules('a = b\na > x');
-      expect(rules).toEqual([{ from: ['b'], to: ['x'] }]);
+      expect(shapes(rules)).toEqual([{ from: ['b'], to: ['x'] }]);
     });
 
     it('should handle variables with special regex characters in names', () => {
       const rules = parseRules('C+V = [a]\nC+V > x');
-      expect(rules).toEqual([{ from: ['a'], to: ['x'] }]);
+      expect(shapes(rules)).toEqual([{ from: ['a'], to: ['x'] }]);
     });
   });
 
   describe('embedded classes in context', () => {
     it('should expand embedded class in right context', () => {
       const rules = parseRules('a > b / _ [d e] f');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['b'], leftContext: undefined, rightContext: ['d', 'f'] },
         { from: ['a'], to: ['b'], leftContext: undefined, rightContext: ['e', 'f'] }
       ]);
@@ -420,7 +427,7 @@ describe('parseRules', () => {
 
     it('should expand embedded class in left context', () => {
       const rules = parseRules('a > b / c [x y] _');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['b'], leftContext: ['c', 'x'], rightContext: undefined },
         { from: ['a'], to: ['b'], leftContext: ['c', 'y'], rightContext: undefined }
       ]);
@@ -428,7 +435,7 @@ describe('parseRules', () => {
 
     it('should expand embedded classes in both contexts', () => {
       const rules = parseRules('a > b / c [x y] _ [p q] d');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['b'], leftContext: ['c', 'x'], rightContext: ['p', 'd'] },
         { from: ['a'], to: ['b'], leftContext: ['c', 'x'], rightContext: ['q', 'd'] },
         { from: ['a'], to: ['b'], leftContext: ['c', 'y'], rightContext: ['p', 'd'] },
@@ -440,7 +447,7 @@ describe('parseRules', () => {
   describe('optional groups in context', () => {
     it('simple optional left context', () => {
       const rules = parseRules('a > b / (c) _');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['b'], leftContext: ['c'], rightContext: undefined },
         { from: ['a'], to: ['b'], leftContext: undefined, rightContext: undefined }
       ]);
@@ -448,7 +455,7 @@ describe('parseRules', () => {
 
     it('simple optional right context', () => {
       const rules = parseRules('a > b / _ (c)');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['b'], leftContext: undefined, rightContext: ['c'] },
         { from: ['a'], to: ['b'], leftContext: undefined, rightContext: undefined }
       ]);
@@ -456,7 +463,7 @@ describe('parseRules', () => {
 
     it('multiple optional elements (Cartesian product)', () => {
       const rules = parseRules('a > b / (c) _ (d)');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['b'], leftContext: ['c'], rightContext: ['d'] },
         { from: ['a'], to: ['b'], leftContext: ['c'], rightContext: undefined },
         { from: ['a'], to: ['b'], leftContext: undefined, rightContext: ['d'] },
@@ -466,7 +473,7 @@ describe('parseRules', () => {
 
     it('nested optional: (c (d))', () => {
       const rules = parseRules('a > b / (c (d)) _');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['b'], leftContext: ['c', 'd'], rightContext: undefined },
         { from: ['a'], to: ['b'], leftContext: ['c'], rightContext: undefined },
         { from: ['a'], to: ['b'], leftContext: undefined, rightContext: undefined }
@@ -475,7 +482,7 @@ describe('parseRules', () => {
 
     it('optional multi-phoneme sequence', () => {
       const rules = parseRules('a > b / (c d) _');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['b'], leftContext: ['c', 'd'], rightContext: undefined },
         { from: ['a'], to: ['b'], leftContext: undefined, rightContext: undefined }
       ]);
@@ -483,7 +490,7 @@ describe('parseRules', () => {
 
     it('optional with class inside', () => {
       const rules = parseRules('a > b / ([x y]) _');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['b'], leftContext: ['x'], rightContext: undefined },
         { from: ['a'], to: ['b'], leftContext: ['y'], rightContext: undefined },
         { from: ['a'], to: ['b'], leftContext: undefined, rightContext: undefined }
@@ -492,7 +499,7 @@ describe('parseRules', () => {
 
     it('optional combined with fixed', () => {
       const rules = parseRules('a > b / c (d) _');
-      expect(rules).toEqual([
+      expect(shapes(rules)).toEqual([
         { from: ['a'], to: ['b'], leftContext: ['c', 'd'], rightContext: undefined },
         { from: ['a'], to: ['b'], leftContext: ['c'], rightContext: undefined }
       ]);
@@ -506,8 +513,8 @@ describe('parseRules', () => {
       // Phonemes in ruleset: a, b, p, t
       // Negative set ![p t] expands to [a b]
       expect(rules.length).toBe(2);
-      expect(rules).toContainEqual({ from: ['a'], to: ['b'], leftContext: ['a'] });
-      expect(rules).toContainEqual({ from: ['a'], to: ['b'], leftContext: ['b'] });
+      expect(shapes(rules)).toContainEqual({ from: ['a'], to: ['b'], leftContext: ['a'] });
+      expect(shapes(rules)).toContainEqual({ from: ['a'], to: ['b'], leftContext: ['b'] });
     });
 
     it('should expand negative set in right context', () => {
@@ -515,8 +522,8 @@ describe('parseRules', () => {
       // Phonemes: a, b, x, y
       // ![x y] expands to [a b]
       expect(rules.length).toBe(2);
-      expect(rules).toContainEqual({ from: ['a'], to: ['b'], rightContext: ['a'] });
-      expect(rules).toContainEqual({ from: ['a'], to: ['b'], rightContext: ['b'] });
+      expect(shapes(rules)).toContainEqual({ from: ['a'], to: ['b'], rightContext: ['a'] });
+      expect(shapes(rules)).toContainEqual({ from: ['a'], to: ['b'], rightContext: ['b'] });
     });
 
     it('should expand negative set on both sides', () => {
@@ -532,8 +539,8 @@ describe('parseRules', () => {
       // Phonemes: a, b, th, sh
       // ![th sh] expands to [a b]
       expect(rules.length).toBe(2);
-      expect(rules).toContainEqual({ from: ['a'], to: ['b'], leftContext: ['a'] });
-      expect(rules).toContainEqual({ from: ['a'], to: ['b'], leftContext: ['b'] });
+      expect(shapes(rules)).toContainEqual({ from: ['a'], to: ['b'], leftContext: ['a'] });
+      expect(shapes(rules)).toContainEqual({ from: ['a'], to: ['b'], leftContext: ['b'] });
     });
 
     it('should combine negative set with regular class', () => {
@@ -564,8 +571,8 @@ describe('parseRules', () => {
       // Empty negative set expands to all phonemes
       // Phonemes: a, b
       expect(rules.length).toBe(2);
-      expect(rules).toContainEqual({ from: ['a'], to: ['b'], leftContext: ['a'] });
-      expect(rules).toContainEqual({ from: ['a'], to: ['b'], leftContext: ['b'] });
+      expect(shapes(rules)).toContainEqual({ from: ['a'], to: ['b'], leftContext: ['a'] });
+      expect(shapes(rules)).toContainEqual({ from: ['a'], to: ['b'], leftContext: ['b'] });
     });
 
     it('should throw error if negative set excludes all phonemes', () => {
@@ -589,4 +596,321 @@ describe('parseRules', () => {
       expect(rules.length).toBe(9);
     });
   });
+
+  describe('source provenance', () => {
+    it('should record line, column span and original text', () => {
+      const rules = parseRules('# header\n\n  a > b / _ c  \n');
+      expect(rules[0].source).toEqual({ line: 3, start: 2, end: 13, text: 'a > b / _ c' });
+    });
+
+    it('should give every class expansion the same source', () => {
+      const rules = parseRules('a > x\n[p t k] > [b d g] / [m n] _');
+      expect(rules).toHaveLength(7);
+      for (const rule of rules.slice(1)) {
+        expect(rule.source).toEqual({ line: 2, start: 0, end: 27, text: '[p t k] > [b d g] / [m n] _' });
+      }
+    });
+
+    it('should keep the unsubstituted text for variables', () => {
+      const rules = parseRules('V = [a i]\nV > e / _ #');
+      expect(rules.map(r => r.source?.text)).toEqual(['V > e / _ #', 'V > e / _ #']);
+      expect(rules.map(r => r.source?.line)).toEqual([2, 2]);
+    });
+
+    it('should track optional groups and negative sets to their line', () => {
+      const rules = parseRules('x > y\n\na > b / (c) _ ![a b c]');
+      expect(rules.length).toBeGreaterThan(1);
+      expect(rules.slice(1).every(r => r.source?.line === 3)).toBe(true);
+    });
+
+    it('should prefix expansion errors with the line number', () => {
+      expect(() => parseRules('a > b\nc > d / ![a b c d] _')).toThrow(/^Line 2: Negative set/);
+      expect(() => parseRules('a > b\n\nc > d / _ (e')).toThrow(/^Line 3: Unclosed optional group/);
+    });
+  });
+
+  describe('feature bundles', () => {
+    const features = parseFeaturesFile(`
+         voice  nasal  stop  labial  glottal
+      p  -      -      +     +       -
+      b  +      -      +     +       -
+      m  +      +      +     +       -
+      t  -      -      +     -       -
+      d  +      -      +     -       -
+      n  +      +      +     -       -
+      ʔ  -      -      +     -       +
+      a  +      -      -     -       -
+    `);
+
+    it('should expand a bundle in the source into a class', () => {
+      const rules = parseRules('[+stop -voice -labial] > x', { features });
+      expect(shapes(rules)).toEqual([
+        { from: ['t'], to: ['x'] },
+        { from: ['ʔ'], to: ['x'] }
+      ]);
+    });
+
+    it('should resolve a target bundle by changing features on each source segment', () => {
+      const rules = parseRules('[+stop -voice] > [+voice]', { features });
+      // ʔ has no voiced counterpart in the table, so it is left out
+      expect(shapes(rules)).toEqual([
+        { from: ['p'], to: ['b'] },
+        { from: ['t'], to: ['d'] }
+      ]);
+    });
+
+    it('should expand bundles in contexts', () => {
+      const rules = parseRules('[+stop -voice] > [+voice] / [+nasal] _', { features });
+      expect(shapes(rules)).toEqual([
+        { from: ['p'], to: ['b'], leftContext: ['m'], rightContext: undefined },
+        { from: ['p'], to: ['b'], leftContext: ['n'], rightContext: undefined },
+        { from: ['t'], to: ['d'], leftContext: ['m'], rightContext: undefined },
+        { from: ['t'], to: ['d'], leftContext: ['n'], rightContext: undefined }
+      ]);
+    });
+
+    it('should allow a target bundle on a plain phoneme or class source', () => {
+      expect(shapes(parseRules('p > [+voice]', { features }))).toEqual([{ from: ['p'], to: ['b'] }]);
+      expect(shapes(parseRules('[p t] > [+nasal +voice]', { features }))).toEqual([
+        { from: ['p'], to: ['m'] },
+        { from: ['t'], to: ['n'] }
+      ]);
+    });
+
+    it('should work through variables and negative sets', () => {
+      const rules = parseRules('NASAL = [+nasal]\na > b / ![NASAL] _ #', { features });
+      const lefts = rules.map(r => r.leftContext?.[0]);
+      expect(lefts).not.toContain('m');
+      expect(lefts).not.toContain('n');
+      expect(lefts).not.toContain('+nasal');
+      expect(lefts).toEqual(['a', 'b']);
+    });
+
+    it('should throw without a feature table', () => {
+      expect(() => parseRules('[+voice] > x')).toThrow('Line 1: Feature bundles require a feature table');
+    });
+
+    it('should throw on unknown features and empty bundles', () => {
+      expect(() => parseRules('[+round] > x', { features })).toThrow('Unknown feature "round"');
+      expect(() => parseRules('[+nasal -voice] > x', { features })).toThrow('matches no segments');
+    });
+
+    it('should throw when no source segment has a counterpart', () => {
+      expect(() => parseRules('ʔ > [+voice]', { features })).toThrow('No source segment has a counterpart');
+    });
+  });
+
+  describe('application modes', () => {
+    it('should leave mode unset by default', () => {
+      expect(parseRules('a > b')[0].mode).toBeUndefined();
+    });
+
+    it('should apply a @mode directive to following rules', () => {
+      const rules = parseRules('a > b\n@mode rtl\nc > d\ne > f\n@mode simultaneous\ng > h');
+      expect(rules.map(r => r.mode)).toEqual([undefined, 'rtl', 'rtl', 'simultaneous']);
+    });
+
+    it('should let a trailing annotation override the directive for one rule', () => {
+      const rules = parseRules('@mode ltr\n[a o] > e / _ i @rtl\nc > d');
+      expect(rules.map(r => r.mode)).toEqual(['rtl', 'rtl', 'ltr']);
+    });
+
+    it('should not include annotations in the rule itself', () => {
+      const rules = parseRules('a > e / _ i @rtl;');
+      expect(shapes(rules)).toEqual([
+        { from: ['a'], to: ['e'], leftContext: undefined, rightContext: ['i'], mode: 'rtl' }
+      ]);
+      expect(rules[0].source?.text).toBe('a > e / _ i @rtl;');
+    });
+
+    it('should throw on unknown modes, annotations and directives', () => {
+      expect(() => parseRules('@mode sideways')).toThrow('Line 1: Unknown application mode "sideways"');
+      expect(() => parseRules('a > b @sometimes')).toThrow('Line 1: Unknown annotation "@sometimes"');
+      expect(() => parseRules('a > b\n@frobnicate')).toThrow('Line 2: Unknown directive "@frobnicate"');
+    });
+  });
+
+  describe('syllable conditions', () => {
+    it('should keep $ as a context token', () => {
+      expect(shapes(parseRules('t > ʔ / _ $'))).toEqual([
+        { from: ['t'], to: ['ʔ'], leftContext: undefined, rightContext: ['$'] }
+      ]);
+    });
+
+    it('should not treat $ as a phoneme in negative sets', () => {
+      const rules = parseRules('a > b / _ $\nc > d / _ ![c]');
+      expect(rules.slice(1).map(r => r.rightContext)).toEqual([['a'], ['b'], ['d']]);
+    });
+
+    it('should parse syllable position annotations', () => {
+      expect(parseRules('t > d @onset')[0].position).toBe('onset');
+      expect(parseRules('a > ə @nucleus')[0].position).toBe('nucleus');
+      expect(parseRules('[p t] > ʔ @coda').map(r => r.position)).toEqual(['coda', 'coda']);
+    });
+
+    it('should parse syllable count annotations', () => {
+      expect(parseRules('a > b @syllables=1')[0].syllables).toEqual({ op: '=', count: 1 });
+      expect(parseRules('a > b @syllables>=2')[0].syllables).toEqual({ op: '>=', count: 2 });
+      expect(parseRules('a > b @syllables<3 @ltr')[0]).toMatchObject({ syllables: { op: '<', count: 3 }, mode: 'ltr' });
+    });
+
+    it('should reject $ outside contexts', () => {
+      expect(() => parseRules('t $ > ʔ')).toThrow('Line 1: Syllable boundary $ can only appear in a context');
+      expect(() => parseRules('t > $')).toThrow('Syllable boundary $');
+    });
+  });
+
+  describe('suprasegmental tiers', () => {
+    it('should attach declared tiers to following rules only', () => {
+      const rules = parseRules('a > b\n@tier stress = [ˈ] before\nc > d');
+      expect(rules[0].tiers).toBeUndefined();
+      expect(rules[1].tiers).toEqual([{ name: 'stress', marks: ['ˈ'], scope: 'syllable', side: 'before' }]);
+    });
+
+    it('should replace a redeclared tier', () => {
+      const rules = parseRules('@tier tone = [H]\n@tier tone = [H X]\na > b');
+      expect(rules[0].tiers?.map(t => t.marks)).toEqual([['H', 'X']]);
+    });
+
+    it('should parse tier conditions', () => {
+      const rules = parseRules('@tier stress = [ˈ ˌ] before\na > ə @stress=none @next:stress=ˈ\ne > i @prev:stress=ˌ');
+      expect(rules[0].conditions).toEqual([
+        { tier: 'stress', value: null, target: 'this' },
+        { tier: 'stress', value: 'ˈ', target: 'next' }
+      ]);
+      expect(rules[1].conditions).toEqual([{ tier: 'stress', value: 'ˌ', target: 'previous' }]);
+    });
+
+    it('should reject conditions on unknown tiers or marks', () => {
+      expect(() => parseRules('a > ə @stress=ˈ')).toThrow('Line 1: Unknown tier "stress"');
+      expect(() => parseRules('@tier tone = [H X]\na > ə @tone=Q')).toThrow('Line 2: "Q" is not a mark on tier "tone"');
+      expect(() => parseRules('@tier tone')).toThrow('Line 1: Invalid tier declaration');
+    });
+  });
+
+  describe('blocks', () => {
+    const text = [
+      'a > b',
+      '@block Proto-Canaanite',
+      '@period c. 1500 BCE',
+      '@description Early mergers',
+      'c > d',
+      '[e f] > g',
+      '@block Hebrew',
+      'h > i'
+    ].join('\n');
+
+    it('should assign rules to the block they follow', () => {
+      const rules = parseRules(text);
+      expect(rules.map(r => r.block?.name)).toEqual([undefined, 'Proto-Canaanite', 'Proto-Canaanite', 'Proto-Canaanite', 'Hebrew']);
+    });
+
+    it('should share one block object with metadata between its rules', () => {
+      const rules = parseRules(text);
+      expect(rules[1].block).toBe(rules[3].block);
+      expect(rules[1].block).toEqual({ name: 'Proto-Canaanite', line: 2, period: 'c. 1500 BCE', description: 'Early mergers' });
+      expect(rules[4].block).toEqual({ name: 'Hebrew', line: 7 });
+    });
+
+    it('should reject duplicate and unnamed blocks', () => {
+      expect(() => parseRules('@block A\na > b\n@block A')).toThrow('Line 3: Duplicate block "A" (first declared on line 1)');
+      expect(() => parseRules('@block')).toThrow('Line 1: @block needs a name');
+    });
+
+    it('should reject block metadata outside a block', () => {
+      expect(() => parseRules('@period 1000 BCE')).toThrow('Line 1: @period must follow a @block directive');
+    });
+  });
+
+  describe('exceptions', () => {
+    it('should attach inline exceptions to every expansion of the rule', () => {
+      const rules = parseRules('[a e] > i @except=kalb,bayt');
+      expect(rules).toHaveLength(2);
+      for (const rule of rules) expect(rule.exceptions).toEqual(['kalb', 'bayt']);
+    });
+
+    it('should combine inline exceptions with other annotations', () => {
+      const [rule] = parseRules('a > i @rtl @except=kalb');
+      expect(rule.mode).toBe('rtl');
+      expect(rule.exceptions).toEqual(['kalb']);
+    });
+
+    it('should exempt words from a whole block, including earlier rules', () => {
+      const rules = parseRules('a > b\n@block One\nb > c @except=x\n@except kalb bayt\nc > d');
+      expect(rules[0].exceptions).toBeUndefined();
+      expect(rules[1].exceptions).toEqual(['x', 'kalb', 'bayt']);
+      expect(rules[2].exceptions).toEqual(['kalb', 'bayt']);
+      expect(rules[1].block?.exceptions).toEqual(['kalb', 'bayt']);
+    });
+
+    it('should reject exceptions without words or outside a block', () => {
+      expect(() => parseRules('a > b @except=')).toThrow('Line 1: @except= needs at least one word');
+      expect(() => parseRules('@except kalb')).toThrow('Line 1: @except must follow a @block directive');
+      expect(() => parseRules('@block A\n@except')).toThrow('Line 2: @except needs at least one word');
+    });
+  });
+
+  describe('back-references', () => {
+    const pairs = (rules: Rule[]) => rules.map(r => `${r.from.join(' ')} > ${r.to.join(' ')}`);
+
+    it('should expand metathesis into one rule per binding', () => {
+      const rules = parseRules('C = [s t]\nV = [a i]\nC₁ V₂ > V₂ C₁');
+      expect(pairs(rules)).toEqual(['s a > a s', 's i > i s', 't a > a t', 't i > i t']);
+      expect(rules.every(r => r.backReferences)).toBe(true);
+    });
+
+    it('should copy segments for gemination', () => {
+      const rules = parseRules('C = [p t]\nC₁ > C₁ C₁ / V _ V\nV = [a]');
+      expect(pairs(rules)).toEqual(['p > p p', 't > t t']);
+    });
+
+    it('should bind indices in contexts', () => {
+      const rules = parseRules('V = [a i]\nC = [k]\nə > V₁ / V₁ C _');
+      expect(rules.map(r => [r.to, r.leftContext])).toEqual([
+        [['a'], ['a', 'k']],
+        [['i'], ['i', 'k']]
+      ]);
+    });
+
+    it('should pair classes of equal size sharing an index', () => {
+      const rules = parseRules('[p t k]₁ a > a [b d g]₁');
+      expect(pairs(rules)).toEqual(['p a > a b', 't a > a d', 'k a > a g']);
+    });
+
+    it('should leave subscripted phonemes alone', () => {
+      const rules = parseRules('h₁ > ∅ / _ C\nC = [t]');
+      expect(rules).toHaveLength(1);
+      expect(rules[0].from).toEqual(['h₁']);
+      expect(rules[0].backReferences).toBeUndefined();
+    });
+
+    it('should not count indices as phonemes in negative sets', () => {
+      const rules = parseRules('C = [p t]\nC₁ > C₁ C₁ / _ ![p]');
+      expect(rules.flatMap(r => r.rightContext)).not.toContain('₁');
+    });
+
+    it('should reject indices that bind nothing or disagree in size', () => {
+      expect(() => parseRules('V = [a i]\nə > V₁')).toThrow('Line 2: Back-reference ₁ in the target does not refer to anything');
+      expect(() => parseRules('[p t]₁ > [b d g]₁')).toThrow('Line 1: Back-reference ₁ is used with classes of different sizes');
+    });
+  });
+
+  describe('insertion', () => {
+    it('should parse ∅ as an empty source', () => {
+      const rules = parseRules('∅ > ə / C _ C\nC = [k t]');
+      expect(rules).toHaveLength(4);
+      expect(rules[0]).toMatchObject({ from: [], to: ['ə'], leftContext: ['k'], rightContext: ['k'] });
+    });
+
+    it('should allow word-edge contexts for prothesis', () => {
+      const [rule] = parseRules('∅ > ʔ a / # _ s t');
+      expect(rule).toMatchObject({ from: [], to: ['ʔ', 'a'], leftContext: ['#'], rightContext: ['s', 't'] });
+    });
+
+    it('should reject insertions without a context', () => {
+      expect(() => parseRules('∅ > ə')).toThrow('Line 1: Insertion needs a context on at least one side');
+      expect(() => parseRules('∅ > ə / (k) _')).toThrow('Line 1: Insertion needs a context on at least one side');
+      expect(() => parseRules('∅ > ∅ / k _')).toThrow('Line 1: Rule must change something');
+    });
+  });
 });
@@ -1,4 +1,10 @@
-import type { Rule } from '../types';
+import type { Rule, RuleSource, RuleBlock, FeatureTable, ApplicationMode, SyllablePosition, SyllableCount, Tier, TierCondition } from '../types';
+import { parseFeatureBundle, matchingSegments, changeFeatures } from '../features/matcher';
+import { parseTierDeclaration } from '../tiers/parser';
+
+export interface ParseOptions {
+  features?: FeatureTable | null;  // Feature table for resolving bundles like [+voice -nasal]
+}
 
 /**
  * Parses a string of phonological rules into structured Rule objects
@@ -13,6 +19,7 @@ import type { Rule } from '../types';
  * - Classes in context: "a > b / [c d] _;" (expands to two rules)
  * - Optional groups: "a > b / (c) _;" (expands to two rules: with c, without c)
  * - Nested optionals: "a > b / (c (d)) _;" (expands to three rules)
+ * - Insertion: "∅ > ə / C _ C;" (epenthesis; needs a context on at least one side)
  * - Comments: "# This is a comment" (lines starting with # are ignored)
  * - Variables: "C = [p t k];" (define a variable)
  * - Variable usage: "C > x;" (use variable in rules)
@@ -37,6 +44,52 @@ import type { Rule } from '../types';
  * Comments:
  * - Lines starting with # are treated as comments and ignored
  * - Empty lines are also ignored
+ *
+ * Feature bundles (need a feature table in ParseOptions):
+ * - [+stop -voice] = class of all segments with those feature values
+ * - A bundle as the whole target changes features on each source segment:
+ *   "[+stop -voice] > [+voice]" pairs p→b, t→d, k→g (segments without a
+ *   counterpart in the table are left out of the rule)
+ * - Bundles resolve at parse time, so the engine and reverser see plain rules
+ *
+ * Application modes:
+ * - "@mode ltr" on its own line: following rules apply iteratively left to right
+ * - "@mode rtl": iteratively right to left; "@mode simultaneous": the default
+ * - A trailing annotation sets the mode for one rule: "a > e / _ C e @rtl"
+ *
+ * Syllables (parsed from the phonotactics passed to the engine):
+ * - $ = syllable boundary in a context: "t > ʔ / _ $" (also matches word edges)
+ * - @onset, @nucleus, @coda: only match segments in that syllable position
+ * - @syllables=1 (also <, >, <=, >=): only apply to words with that many syllables
+ *
+ * Suprasegmental tiers:
+ * - "@tier stress = [ˈ ˌ] before" declares marks written as their own tokens
+ *   (options: syllable|segment, before|after; see tiers/parser.ts)
+ * - Marks are skipped over when matching contexts and word edges
+ * - @stress=ˈ: the matched syllable (or segment) carries ˈ; @stress=none: no stress mark
+ * - @next:stress=ˈ / @prev:stress=ˈ: the same for the following / preceding one
+ *   ("a > ə @next:stress=ˈ" is pretonic reduction)
+ *
+ * Blocks:
+ * - "@block Proto-Canaanite" starts a named block; following rules belong to it
+ * - "@period c. 1200 BCE" and "@description ..." describe the current block
+ * - Block names must be unique; the engine can stop after any block
+ *
+ * Lexical exceptions (matched against the source word as given):
+ * - "a > e @except=kalb,bayt": the rule does not apply to these words
+ * - "@except kalb bayt" inside a block: the words are exempt from the whole block
+ * - A side .exceptions file can add more (see exceptions.ts)
+ *
+ * Back-references (subscript digits on a variable or class):
+ * - "C₁ V₂ > V₂ C₁": metathesis; every occurrence of an index is the same segment
+ * - "C₁ > C₁ C₁" (gemination), "ə > V₁ / V₁ C _" (vowel copy)
+ * - "[p t k]₁ > [b d g]₁": one index on classes of equal size pairs them by position
+ * - Literal phonemes with subscripts (e.g. h₁) are left alone
+ * - The expansions of such a rule apply together as one rule
+ *
+ * Provenance:
+ * - Every expanded Rule carries `source` (line, column span, original text)
+ *   pointing back at the line the user wrote
  */
 
 /**
@@ -417,7 +470,8 @@ function substituteVariables(
  * - a > b / [c d] _; → a > b / c _; and a > b / d _; (context expands)
  * - a > b / (c) _; → a > b / c _; and a > b / _; (optional group expands)
  */
-function expandRule(baseRule: { from: string; to: string; leftContext?: string; rightContext?: string }, lineNum: number, originalLine: string): Rule[] {
+function expandRule(baseRule: { from: string; to: string; leftContext?: string; rightContext?: string }, source: RuleSource): Rule[] {
+  const { line: lineNum, text: originalLine } = source;
   const fromClass = extractClass(baseRule.from);
   const toClass = extractClass(baseRule.to);
   const leftContextClass = baseRule.leftContext ? extractClass(baseRule.leftContext) : null;
@@ -478,9 +532,13 @@ function expandRule(baseRule: { from: string; to: string; leftContext?: string;
     for (const leftContext of leftContextOptions) {
       for (const rightContext of rightContextOptions) {
         // Convert strings to arrays of phonemes
-        // ∅ in the target position means deletion (same as empty target)
-        const fromArray = from.split(/\s+/).filter(p => p.length > 0);
+        // ∅ in the target position means deletion (same as empty target),
+        // in the source position insertion
+        const fromArray = from.trim() === '∅' ? [] : from.split(/\s+/).filter(p => p.length > 0);
         const toArray = (to === '' || to.trim() === '∅') ? [] : to.split(/\s+/).filter(p => p.length > 0);
+        if (fromArray.length === 0 && toArray.length === 0) {
+          throw new Error(`Line ${lineNum}: Rule must change something: "${originalLine}"`);
+        }
 
         // Convert contexts to arrays (undefined stays undefined)
         const leftContextArray = leftContext === undefined
@@ -490,11 +548,17 @@ function expandRule(baseRule: { from: string; to: string; leftContext?: string;
           ? undefined
           : rightContext.split(/\s+/).filter(p => p.length > 0);
 
+        // Without a context, an insertion would fill every gap in the word
+        if (fromArray.length === 0 && !leftContextArray?.length && !rightContextArray?.length) {
+          throw new Error(`Line ${lineNum}: Insertion needs a context on at least one side: "${originalLine}"`);
+        }
+
         expandedRules.push({
           from: fromArray,
           to: toArray,
           leftContext: leftContextArray && leftContextArray.length > 0 ? leftContextArray : undefined,
-          rightContext: rightContextArray && rightContextArray.length > 0 ? rightContextArray : undefined
+          rightContext: rightContextArray && rightContextArray.length > 0 ? rightContextArray : undefined,
+          source
         });
       }
     }
@@ -519,7 +583,7 @@ function collectAllPhonemes(
     const withoutBrackets = str.replace(/\[|\]/g, ' ');
     // Split by spaces and filter out empty strings and special markers
     const tokens = withoutBrackets.split(/\s+/).filter(t =>
-      t && t !== '_' && t !== '#' && t !== '!' && t !== '∅' && !t.startsWith('!')
+      t && t !== '_' && t !== '#' && t !== '$' && t !== '!' && t !== '∅' && !t.startsWith('!') && !BACK_REFERENCE.test(t)
     );
     tokens.forEach(t => phonemes.add(t));
   }
@@ -623,26 +687,334 @@ function expandNegativeSets(str: string, universe: Set<string>): string {
   return result;
 }
 
-export function parseRules(rulesText: string): Rule[] {
+const SUBSCRIPT_DIGITS = '₀₁₂₃₄₅₆₇₈₉';
+const BACK_REFERENCE = /^[₀₁₂₃₄₅₆₇₈₉]+$/;
+
+/**
+ * Substitutes variables that carry a back-reference index, always as a class
+ * so the index stays attached to brackets: "C₁" → "[p t k]₁", "X₂" → "[a]₂"
+ */
+function substituteIndexedVariables(line: string, variables: Map<string, string>): string {
+  const sortedVars = Array.from(variables.entries()).sort((a, b) => b[0].length - a[0].length);
+  let result = line;
+
+  for (const [name, value] of sortedVars) {
+    const pattern = `(^|[\\s\\[\\]>/_;(])${escapeRegex(name)}([${SUBSCRIPT_DIGITS}]+)(?=[\\s\\[\\]>/_;)]|$)`;
+    const asClass = extractClass(value) ? value : `[${value}]`;
+    result = result.replace(new RegExp(pattern, 'g'), (match, delimiter, index) => delimiter + asClass + index);
+  }
+
+  return result;
+}
+
+/**
+ * An indexed class in a rule line, e.g. "[p t k]₁"
+ */
+interface BackReference {
+  start: number;
+  end: number;
+  index: string;
+  members: string[];
+}
+
+function findBackReferences(str: string): BackReference[] {
+  const references: BackReference[] = [];
+
+  for (let i = 0; i < str.length - 1; i++) {
+    if (str[i] !== ']' || !SUBSCRIPT_DIGITS.includes(str[i + 1])) continue;
+
+    // Walk back to the matching [
+    let depth = 0;
+    let open = i;
+    for (; open >= 0; open--) {
+      if (str[open] === ']') depth++;
+      else if (str[open] === '[' && --depth === 0) break;
+    }
+    if (open < 0) {
+      throw new Error(`Unmatched "]" before back-reference in "${str}"`);
+    }
+
+    let end = i + 1;
+    while (end < str.length && SUBSCRIPT_DIGITS.includes(str[end])) end++;
+
+    references.push({ start: open, end, index: str.substring(i + 1, end), members: flattenNestedClass(str.substring(open, i + 1)) });
+  }
+
+  return references;
+}
+
+/**
+ * Expands back-references in a rule line into one line per binding.
+ * Every occurrence of an index takes the member at the same position of its
+ * class, so "[p t]₁ a > a [p t]₁" gives "p a > a p" and "t a > a t".
+ *
+ * @returns The expanded lines, or null if the line has no back-references
+ */
+function expandBackReferences(rulePart: string): string[] | null {
+  const references = findBackReferences(rulePart);
+  if (references.length === 0) return null;
+
+  // The target lies between ">" and "/"; an index used only there binds nothing
+  const arrow = rulePart.indexOf('>');
+  const slash = rulePart.indexOf('/');
+  const inTarget = (ref: BackReference) => arrow !== -1 && ref.start > arrow && (slash === -1 || ref.start < slash);
+
+  const byIndex = new Map<string, BackReference[]>();
+  for (const ref of references) {
+    byIndex.set(ref.index, [...(byIndex.get(ref.index) ?? []), ref]);
+  }
+
+  const sizes: Array<{ index: string; size: number }> = [];
+  for (const [index, refs] of byIndex) {
+    const size = refs[0].members.length;
+    if (refs.some(ref => ref.members.length !== size)) {
+      throw new Error(`Back-reference ${index} is used with classes of different sizes: "${rulePart}"`);
+    }
+    if (refs.every(inTarget)) {
+      throw new Error(`Back-reference ${index} in the target does not refer to anything in the source or context: "${rulePart}"`);
+    }
+    sizes.push({ index, size });
+  }
+
+  // Cartesian product of member positions, one per index
+  let bindings: Array<Map<string, number>> = [new Map()];
+  for (const { index, size } of sizes) {
+    bindings = bindings.flatMap(binding =>
+      Array.from({ length: size }, (_, k) => new Map(binding).set(index, k))
+    );
+  }
+
+  return bindings.map(binding => {
+    let result = rulePart;
+    for (const ref of [...references].reverse()) {
+      result = result.substring(0, ref.start) + ref.members[binding.get(ref.index)!] + result.substring(ref.end);
+    }
+    return result;
+  });
+}
+
+const MODES: ApplicationMode[] = ['simultaneous', 'ltr', 'rtl'];
+
+/**
+ * Per-rule settings that come from directives and annotations rather than
+ * from the rule text itself. Only defined keys are copied onto expanded rules.
+ */
+interface RuleSettings {
+  mode?: ApplicationMode;
+  position?: SyllablePosition;
+  syllables?: SyllableCount;
+  tiers?: Tier[];
+  conditions?: TierCondition[];
+  block?: RuleBlock;
+  exceptions?: string[];
+}
+
+const SYLLABLE_POSITIONS: SyllablePosition[] = ['onset', 'nucleus', 'coda'];
+
+/**
+ * Splits trailing @annotations off a rule line
+ * Example: "a > e / _ C e @rtl" → { body: "a > e / _ C e", annotations: ["rtl"] }
+ */
+function splitAnnotations(line: string): { body: string; annotations: string[] } {
+  const tokens = line.replace(/;\s*$/, '').trim().split(/\s+/);
+  const annotations: string[] = [];
+  while (tokens.length > 0 && tokens[tokens.length - 1].startsWith('@')) {
+    annotations.unshift(tokens.pop()!.slice(1));
+  }
+  return { body: annotations.length > 0 ? tokens.join(' ') : line, annotations };
+}
+
+/**
+ * Applies one rule annotation (without the @) to the rule's settings
+ */
+function applyAnnotation(annotation: string, settings: RuleSettings, lineNum: number): void {
+  if ((MODES as string[]).includes(annotation)) {
+    settings.mode = annotation as ApplicationMode;
+    return;
+  }
+  if ((SYLLABLE_POSITIONS as string[]).includes(annotation)) {
+    settings.position = annotation as SyllablePosition;
+    return;
+  }
+  const count = annotation.match(/^syllables(<=|>=|=|<|>)(\d+)$/);
+  if (count) {
+    settings.syllables = { op: count[1] as SyllableCount['op'], count: parseInt(count[2], 10) };
+    return;
+  }
+  if (annotation.startsWith('except=')) {
+    const words = annotation.slice('except='.length).split(',').filter(w => w.length > 0);
+    if (words.length === 0) {
+      throw new Error(`Line ${lineNum}: @except= needs at least one word`);
+    }
+    settings.exceptions = [...(settings.exceptions ?? []), ...words];
+    return;
+  }
+  const condition = annotation.match(/^(?:(next|prev):)?([\w-]+)=(\S+)$/);
+  if (condition) {
+    const [, relative, tierName, value] = condition;
+    const tier = settings.tiers?.find(t => t.name === tierName);
+    if (!tier) {
+      throw new Error(`Line ${lineNum}: Unknown tier "${tierName}" in "@${annotation}" (declare it with @tier)`);
+    }
+    if (value !== 'none' && !tier.marks.includes(value)) {
+      throw new Error(`Line ${lineNum}: "${value}" is not a mark on tier "${tierName}" (expected ${tier.marks.join(' ')} or none)`);
+    }
+    const target = relative === 'next' ? 'next' : relative === 'prev' ? 'previous' : 'this';
+    settings.conditions = [...(settings.conditions ?? []), { tier: tierName, value: value === 'none' ? null : value, target }];
+    return;
+  }
+  throw new Error(`Line ${lineNum}: Unknown annotation "@${annotation}"`);
+}
+
+/**
+ * Applies a directive line (e.g. "@mode rtl") to the settings used for following rules.
+ * `blocks` collects every block declared so far, to catch duplicate names.
+ */
+function applyDirective(line: string, settings: RuleSettings, blocks: RuleBlock[], lineNum: number): void {
+  const [name, ...args] = line.slice(1).trim().split(/\s+/);
+  const value = args.join(' ');
+
+  switch (name) {
+    case 'mode':
+      if (!(MODES as string[]).includes(value)) {
+        throw new Error(`Line ${lineNum}: Unknown application mode "${value}" (expected ${MODES.join(', ')})`);
+      }
+      settings.mode = value as ApplicationMode;
+      return;
+    case 'tier': {
+      let tier: Tier;
+      try {
+        tier = parseTierDeclaration(value);
+      } catch (e) {
+        throw new Error(`Line ${lineNum}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      // A new array, so rules before this line keep the tiers they were declared with
+      settings.tiers = [...(settings.tiers ?? []).filter(t => t.name !== tier.name), tier];
+      return;
+    }
+    case 'block': {
+      if (value === '') {
+        throw new Error(`Line ${lineNum}: @block needs a name`);
+      }
+      const existing = blocks.find(b => b.name === value);
+      if (existing) {
+        throw new Error(`Line ${lineNum}: Duplicate block "${value}" (first declared on line ${existing.line})`);
+      }
+      settings.block = { name: value, line: lineNum };
+      blocks.push(settings.block);
+      return;
+    }
+    case 'except':
+      if (!settings.block) {
+        throw new Error(`Line ${lineNum}: @except must follow a @block directive (use @except=word on a rule instead)`);
+      }
+      if (args.length === 0) {
+        throw new Error(`Line ${lineNum}: @except needs at least one word`);
+      }
+      settings.block.exceptions = [...(settings.block.exceptions ?? []), ...args];
+      return;
+    case 'period':
+    case 'description':
+      if (!settings.block) {
+        throw new Error(`Line ${lineNum}: @${name} must follow a @block directive`);
+      }
+      settings.block[name] = value;
+      return;
+    default:
+      throw new Error(`Line ${lineNum}: Unknown directive "@${name}"`);
+  }
+}
+
+/**
+ * Replaces every feature bundle in a string with the class of segments it matches
+ */
+function replaceFeatureBundles(str: string, table: FeatureTable): string {
+  return str.replace(/\[[^\[\]]*\]/g, match => {
+    const bundle = parseFeatureBundle(match);
+    if (!bundle) return match;
+    const segments = matchingSegments(table, bundle);
+    if (segments.length === 0) {
+      throw new Error(`Feature bundle ${match} matches no segments`);
+    }
+    return `[${segments.join(' ')}]`;
+  });
+}
+
+/**
+ * Resolves feature bundles in a (variable-substituted) rule line into phoneme classes.
+ * A bundle that forms the whole target is a feature change: the source becomes
+ * a class of the segments that have a counterpart, paired with those counterparts.
+ */
+function resolveFeatureBundles(line: string, table: FeatureTable | null | undefined): string {
+  if (!/\[\s*[+-]/.test(line)) return line;
+  if (!table) {
+    throw new Error(`Feature bundles require a feature table: "${line}"`);
+  }
+
+  const rule = line.replace(/;\s*$/, '');
+  const slashIndex = rule.indexOf('/');
+  const mainPart = slashIndex === -1 ? rule : rule.substring(0, slashIndex);
+  const contextPart = slashIndex === -1 ? '' : rule.substring(slashIndex);
+  const parts = mainPart.split('>');
+
+  const toBundle = parts.length === 2 ? parseFeatureBundle(parts[1]) : null;
+  if (!toBundle) {
+    return replaceFeatureBundles(rule, table);
+  }
+
+  const from = parts[0].trim();
+  const fromBundle = parseFeatureBundle(from);
+  const sources = fromBundle ? matchingSegments(table, fromBundle) : extractClass(from) ?? [from];
+  if (sources.some(s => /\s/.test(s))) {
+    throw new Error(`Feature change in target requires a single segment or class as source: "${line}"`);
+  }
+
+  const pairs = sources
+    .map(s => [s, changeFeatures(table, s, toBundle)] as const)
+    .filter((pair): pair is readonly [string, string] => pair[1] !== null);
+  if (pairs.length === 0) {
+    throw new Error(`No source segment has a counterpart for ${parts[1].trim()}: "${line}"`);
+  }
+
+  const fromClass = `[${pairs.map(([s]) => s).join(' ')}]`;
+  const toClass = `[${pairs.map(([, t]) => t).join(' ')}]`;
+  return `${fromClass} > ${toClass} ${replaceFeatureBundles(contextPart, table)}`.trim();
+}
+
+export function parseRules(rulesText: string, options: ParseOptions = {}): Rule[] {
   const lines = rulesText.split('\n');
 
   // Phase 1: Collect variable definitions
   const variables = new Map<string, string>();
-  const ruleLines: { line: string; lineNum: number }[] = [];
+  const ruleLines: { line: string; source: RuleSource; settings: RuleSettings }[] = [];
+  const directiveSettings: RuleSettings = {};
+  const blocks: RuleBlock[] = [];
 
   for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
+    const rawLine = lines[i];
+    const line = rawLine.trim();
 
     // Skip empty lines and comments
     if (line === '' || line.startsWith('#')) continue;
 
+    // Directives apply to all following rules
+    if (line.startsWith('@')) {
+      applyDirective(line, directiveSettings, blocks, i + 1);
+      continue;
+    }
+
     // Try to parse as variable definition
     const varDef = parseVariableDefinition(line);
     if (varDef) {
       variables.set(varDef.name, varDef.value);
     } else {
-      // It's a rule line
-      ruleLines.push({ line, lineNum: i + 1 });
+      // It's a rule line, possibly with trailing annotations
+      const { body, annotations } = splitAnnotations(line);
+      const settings: RuleSettings = { ...directiveSettings };
+      for (const annotation of annotations) applyAnnotation(annotation, settings, i + 1);
+
+      const start = rawLine.indexOf(line);
+      ruleLines.push({ line: body, source: { line: i + 1, start, end: start + line.length, text: line }, settings });
     }
   }
 
@@ -650,88 +1022,147 @@ export function parseRules(rulesText: string): Rule[] {
   const resolvedVars = resolveVariables(variables);
 
   // Phase 3: Collect all phonemes (for negative set expansion)
-  const substitutedLines = ruleLines.map(({ line }) =>
-    substituteVariables(line, resolvedVars)
-  );
-  const allPhonemes = collectAllPhonemes(resolvedVars, substitutedLines);
+  // Feature bundles count as the segments they match
+  const substitutedLines = ruleLines.map(({ line }) => {
+    const substituted = substituteVariables(substituteIndexedVariables(line, resolvedVars), resolvedVars);
+    return options.features ? replaceFeatureBundles(substituted, options.features) : substituted;
+  });
+  const universeVars = options.features
+    ? new Map(Array.from(resolvedVars, ([name, value]) => [name, replaceFeatureBundles(value, options.features!)]))
+    : resolvedVars;
+  const allPhonemes = collectAllPhonemes(universeVars, substitutedLines);
 
   // Phase 4: Parse rules with variable substitution and negative set expansion
   const rules: Rule[] = [];
 
-  for (const { line, lineNum } of ruleLines) {
-    // Substitute variables
-    let substituted = substituteVariables(line, resolvedVars);
+  for (const { line, source, settings } of ruleLines) {
+    try {
+      const expanded = parseRuleLine(line, source, resolvedVars, allPhonemes, options.features);
+      for (const rule of expanded) Object.assign(rule, settings);
+      rules.push(...expanded);
+    } catch (e) {
+      // Expansion helpers do not know which line they are working on
+      const message = e instanceof Error ? e.message : String(e);
+      throw new Error(message.startsWith('Line ') ? message : `Line ${source.line}: ${message}`);
+    }
+  }
 
-    // Expand negative sets
-    substituted = expandNegativeSets(substituted, allPhonemes);
+  // Block-level exceptions cover rules written before the @except line too
+  for (const rule of rules) {
+    const blockExceptions = rule.block?.exceptions;
+    if (blockExceptions) {
+      rule.exceptions = Array.from(new Set([...(rule.exceptions ?? []), ...blockExceptions]));
+    }
+  }
 
-    // Strip optional trailing semicolon
-    const rulePart = substituted.endsWith(';') ? substituted.slice(0, -1).trim() : substituted.trim();
+  return rules;
+}
 
-    // Check for context (/ separates main rule from context)
-    let mainPart: string;
-    let contextPart: string | undefined;
+/**
+ * Parses a single rule line (after variable collection) into expanded rules.
+ * Every expanded rule carries the same source provenance.
+ */
+function parseRuleLine(
+  line: string,
+  source: RuleSource,
+  resolvedVars: Map<string, string>,
+  allPhonemes: Set<string>,
+  features: FeatureTable | null | undefined
+): Rule[] {
+  // Substitute variables (indexed ones first, so C₁ is not read as a phoneme)
+  let substituted = substituteVariables(substituteIndexedVariables(line, resolvedVars), resolvedVars);
 
-    const slashIndex = rulePart.indexOf('/');
-    if (slashIndex !== -1) {
-      mainPart = rulePart.substring(0, slashIndex).trim();
-      contextPart = rulePart.substring(slashIndex + 1).trim();
-    } else {
-      mainPart = rulePart;
-    }
+  // Resolve feature bundles into phoneme classes
+  substituted = resolveFeatureBundles(substituted, features);
 
-    // Split main part by >
-    const parts = mainPart.split('>');
+  // Expand negative sets
+  substituted = expandNegativeSets(substituted, allPhonemes);
 
-    if (parts.length !== 2) {
-      throw new Error(`Line ${lineNum}: Rule must have format "from > to;": "${line}"`);
-    }
+  // Strip optional trailing semicolon
+  const rulePart = substituted.endsWith(';') ? substituted.slice(0, -1).trim() : substituted.trim();
+
+  // Back-references bind a segment across the rule; each binding is its own line
+  const bound = expandBackReferences(rulePart);
+  if (bound) {
+    const rules = bound.flatMap(variant => parseRuleBody(variant, line, source));
+    for (const rule of rules) rule.backReferences = true;
+    return rules;
+  }
 
-    const from = parts[0].trim();
-    const to = parts[1].trim();
+  return parseRuleBody(rulePart, line, source);
+}
 
-    if (from === '') {
-      throw new Error(`Line ${lineNum}: Source pattern cannot be empty`);
-    }
+/**
+ * Parses a rule after substitution ("from > to / left _ right") and expands
+ * its classes and optional groups
+ */
+function parseRuleBody(rulePart: string, line: string, source: RuleSource): Rule[] {
+  const lineNum = source.line;
 
-    // Parse context if present
-    let leftContext: string | undefined;
-    let rightContext: string | undefined;
-
-    if (contextPart) {
-      // Find the placeholder _ (not inside brackets or parentheses)
-      let underscoreIndex = -1;
-      let depth = 0;
-
-      for (let i = 0; i < contextPart.length; i++) {
-        const char = contextPart[i];
-        if (char === '[' || char === '(') {
-          depth++;
-        } else if (char === ']' || char === ')') {
-          depth--;
-        } else if (char === '_' && depth === 0) {
-          underscoreIndex = i;
-          break;
-        }
-      }
+  // Check for context (/ separates main rule from context)
+  let mainPart: string;
+  let contextPart: string | undefined;
 
-      if (underscoreIndex === -1) {
-        throw new Error(`Line ${lineNum}: Context must contain _ to mark phoneme position: "${line}"`);
-      }
+  const slashIndex = rulePart.indexOf('/');
+  if (slashIndex !== -1) {
+    mainPart = rulePart.substring(0, slashIndex).trim();
+    contextPart = rulePart.substring(slashIndex + 1).trim();
+  } else {
+    mainPart = rulePart;
+  }
+
+  // Split main part by >
+  const parts = mainPart.split('>');
+
+  if (parts.length !== 2) {
+    throw new Error(`Line ${lineNum}: Rule must have format "from > to;": "${line}"`);
+  }
+
+  const from = parts[0].trim();
+  const to = parts[1].trim();
+
+  if (from === '') {
+    throw new Error(`Line ${lineNum}: Source pattern cannot be empty`);
+  }
+
+  if (/(^|\s)\$(\s|$)/.test(from) || /(^|\s)\$(\s|$)/.test(to)) {
+    throw new Error(`Line ${lineNum}: Syllable boundary $ can only appear in a context: "${line}"`);
+  }
 
-      leftContext = contextPart.substring(0, underscoreIndex).trim();
-      rightContext = contextPart.substring(underscoreIndex + 1).trim();
+  // Parse context if present
+  let leftContext: string | undefined;
+  let rightContext: string | undefined;
 
-      // Empty string means no context on that side
-      if (leftContext === '') leftContext = undefined;
-      if (rightContext === '') rightContext = undefined;
+  if (contextPart) {
+    // Find the placeholder _ (not inside brackets or parentheses)
+    let underscoreIndex = -1;
+    let depth = 0;
+
+    for (let i = 0; i < contextPart.length; i++) {
+      const char = contextPart[i];
+      if (char === '[' || char === '(') {
+        depth++;
+      } else if (char === ']' || char === ')') {
+        depth--;
+      } else if (char === '_' && depth === 0) {
+        underscoreIndex = i;
+        break;
+      }
     }
 
-    // Expand phoneme classes into multiple rules
-    const baseRule = { from, to, leftContext, rightContext };
-    const expandedRules = expandRule(baseRule, lineNum, line);
-    rules.push(...expandedRules);
+    if (underscoreIndex === -1) {
+      throw new Error(`Line ${lineNum}: Context must contain _ to mark phoneme position: "${line}"`);
+    }
+
+    leftContext = contextPart.substring(0, underscoreIndex).trim();
+    rightContext = contextPart.substring(underscoreIndex + 1).trim();
+
+    // Empty string means no context on that side
+    if (leftContext === '') leftContext = undefined;
+    if (rightContext === '') rightContext = undefined;
   }
 
-  return rules;
+  // Expand phoneme classes into multiple rules
+  const baseRule = { from, to, leftContext, rightContext };
+  return expandRule(baseRule, source);
 }
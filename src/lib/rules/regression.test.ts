@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { parseRegressionFile, loadRuleset, runRegressionTests, formatFailure } from './regression';
+
+describe('parseRegressionFile', () => {
+  it('should parse forward and backward expectations', () => {
+    const tests = parseRegressionFile('# Arabic\n*kalb- > kalb\n\nsams < ʃamʃ sams\nxyz < ∅\n');
+    expect(tests).toEqual([
+      { direction: 'forward', input: 'kalb', expected: ['kalb'], line: 2 },
+      { direction: 'backward', input: 'sams', expected: ['sams', 'ʃamʃ'], line: 4 },
+      { direction: 'backward', input: 'xyz', expected: [], line: 5 },
+    ]);
+  });
+
+  it('should report malformed lines', () => {
+    expect(() => parseRegressionFile('kalb')).toThrow('Line 1: Expected "source > output" or "target < sources"');
+    expect(() => parseRegressionFile('\nkalb > kalb kelb')).toThrow('Line 2: Expected exactly one output after ">", got 2');
+    expect(() => parseRegressionFile('kalb <')).toThrow('Line 1: Expected sources after "<"');
+  });
+});
+
+describe('runRegressionTests', () => {
+  const ruleset = loadRuleset({
+    rules: 'p > f\nʃ > s',
+    sourcePhonemes: 'a l m p s ʃ',
+    targetPhonemes: 'a f l m s',
+  });
+
+  it('should count passing and failing tests', () => {
+    const report = runRegressionTests(parseRegressionFile('pam > fam\nʃamʃ > ʃams\nsams < sams samʃ ʃams ʃamʃ\nfam < fam'), ruleset);
+    expect(report.passed).toBe(2);
+    expect(report.failed).toBe(2);
+    expect(report.results.map(r => r.actual)).toEqual([['fam'], ['sams'], ['sams', 'samʃ', 'ʃams', 'ʃamʃ'], ['pam']]);
+  });
+
+  it('should trace the words behind a failure', () => {
+    const [forward, backward] = runRegressionTests(parseRegressionFile('ʃamʃ > ʃams\nfam < pam sam'), ruleset).results;
+    expect(forward.derivations.map(d => d.input)).toEqual(['ʃamʃ']);
+    expect(backward.derivations.map(d => d.output)).toEqual(['sam']);
+  });
+
+  it('should fail words that cannot be analyzed', () => {
+    const [result] = runRegressionTests(parseRegressionFile('xyz > xyz'), ruleset).results;
+    expect(result.passed).toBe(false);
+    expect(result.error).toContain('Cannot tokenize');
+  });
+
+  it('should fail backward searches cut short by a limit', () => {
+    const [result] = runRegressionTests(parseRegressionFile('sams < sams samʃ ʃams ʃamʃ'), ruleset, { maxResults: 1 }).results;
+    expect(result.passed).toBe(false);
+    expect(result.error).toBe('Search stopped at the results limit');
+  });
+});
+
+describe('formatFailure', () => {
+  it('should list the rules that changed the word', () => {
+    const ruleset = loadRuleset({ rules: 'p > f\nʃ > s', sourcePhonemes: 'a m p ʃ', targetPhonemes: 'a f m s' });
+    const [result] = runRegressionTests(parseRegressionFile('*ʃamʃ- > ʃams'), ruleset).results;
+    expect(formatFailure(result)).toBe(
+      'Line 1: ʃamʃ > expected ʃams, got sams\n' +
+      '  ʃamʃ\n' +
+      '  → sams    ʃ > s (rules line 2)'
+    );
+  });
+});
@@ -0,0 +1,219 @@
+import type { Derivation, PhonotacticPattern, ReverseLimits, Rule } from '../types';
+import { parseRules } from './parser';
+import { parseExceptionsFile, withExceptions } from './exceptions';
+import { applyRules, applyRulesWithTrace } from './engine';
+import { createLazyReverser, collectCandidates } from './reverser';
+import { parsePhonemesFile } from '../phonotactics/parser';
+import { parseFeaturesFile, mergeFeatureTables } from '../features/parser';
+
+/**
+ * One expectation from a .phono.test file
+ */
+export interface RegressionTest {
+  direction: 'forward' | 'backward';
+  input: string;
+  expected: string[];       // Forward: the one output. Backward: every source, sorted.
+  line: number;             // Line in the test file
+}
+
+/**
+ * The text of a ruleset's files, as found next to each other under public/
+ */
+export interface RulesetFiles {
+  rules: string;
+  exceptions?: string;
+  sourcePhonemes: string;
+  targetPhonemes: string;
+  sourceFeatures?: string;
+  targetFeatures?: string;
+}
+
+export interface LoadedRuleset {
+  rules: Rule[];
+  sourcePhonemes: string[];
+  targetPhonemes: string[];
+  sourcePhonotactics: PhonotacticPattern[] | null;
+  targetPhonotactics: PhonotacticPattern[] | null;
+}
+
+export interface RegressionResult {
+  test: RegressionTest;
+  passed: boolean;
+  actual: string[];         // Forward: the output. Backward: the sources found, sorted.
+  error?: string;           // Why the word could not be analyzed, or why the search stopped
+  derivations: Derivation[];  // For failures: how the mismatching words actually evolve
+}
+
+export interface RegressionReport {
+  passed: number;
+  failed: number;
+  results: RegressionResult[];
+}
+
+/**
+ * Bounds each backward test, so one runaway search cannot hang a run
+ */
+export const REGRESSION_LIMITS: ReverseLimits = { timeoutMs: 5000, maxCandidates: 1000000 };
+
+/**
+ * Parses a .phono.test file of expected forward and backward results.
+ *
+ * Format:
+ *   *kalb- > kalb            (forward: the source word gives exactly this output)
+ *   kalb < kalb              (backward: these are all the sources of the target word)
+ *   ʔab < ʔab ʔabː           (several sources, in any order)
+ *   xyz < ∅                  (no source at all)
+ *
+ * Words may be written as reconstructions: a leading * and hyphens at either
+ * end are dropped. Lines starting with # are comments; empty lines are ignored.
+ */
+export function parseRegressionFile(text: string): RegressionTest[] {
+  const tests: RegressionTest[] = [];
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '' || line.startsWith('#')) continue;
+
+    const match = line.match(/^(\S+)\s*([<>])\s*(.*)$/);
+    if (!match) {
+      throw new Error(`Line ${i + 1}: Expected "source > output" or "target < sources": "${line}"`);
+    }
+    const [, input, arrow, rest] = match;
+    const words = rest.split(/\s+/).filter(w => w.length > 0);
+
+    if (arrow === '>') {
+      if (words.length !== 1) {
+        throw new Error(`Line ${i + 1}: Expected exactly one output after ">", got ${words.length}`);
+      }
+      tests.push({ direction: 'forward', input: cleanWord(input), expected: [cleanWord(words[0])], line: i + 1 });
+    } else {
+      if (words.length === 0) {
+        throw new Error(`Line ${i + 1}: Expected sources after "<" (∅ for none)`);
+      }
+      const expected = words.length === 1 && words[0] === '∅' ? [] : words.map(cleanWord);
+      tests.push({ direction: 'backward', input: cleanWord(input), expected: Array.from(new Set(expected)).sort(), line: i + 1 });
+    }
+  }
+
+  return tests;
+}
+
+/**
+ * Drops the reconstruction marks of a word: *kalb- → kalb
+ */
+export function cleanWord(word: string): string {
+  return word.replace(/^\*/, '').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Parses a ruleset's files the way the app does: rules with their lexical
+ * exceptions, phoneme sets with optional phonotactics, and feature tables.
+ */
+export function loadRuleset(files: RulesetFiles): LoadedRuleset {
+  const features = files.sourceFeatures || files.targetFeatures
+    ? mergeFeatureTables(parseFeaturesFile(files.sourceFeatures ?? ''), parseFeaturesFile(files.targetFeatures ?? ''))
+    : null;
+  const rules = withExceptions(parseRules(files.rules, { features }), parseExceptionsFile(files.exceptions ?? ''));
+  const source = parsePhonemesFile(files.sourcePhonemes);
+  const target = parsePhonemesFile(files.targetPhonemes);
+  return {
+    rules,
+    sourcePhonemes: source.phonemes,
+    targetPhonemes: target.phonemes,
+    sourcePhonotactics: source.phonotactics,
+    targetPhonotactics: target.phonotactics,
+  };
+}
+
+/**
+ * Checks every test against a ruleset.
+ *
+ * A forward test passes when the source word gives exactly the expected
+ * output; a backward test passes when the search completes and finds exactly
+ * the expected sources. Failures carry the derivation of each mismatching
+ * word: the source of a forward test, or each expected source a backward
+ * search missed.
+ */
+export function runRegressionTests(
+  tests: RegressionTest[],
+  ruleset: LoadedRuleset,
+  limits: ReverseLimits = REGRESSION_LIMITS
+): RegressionReport {
+  const { rules, sourcePhonemes, targetPhonemes, sourcePhonotactics, targetPhonotactics } = ruleset;
+  let search: ReturnType<typeof createLazyReverser> | null = null;
+  const results: RegressionResult[] = [];
+
+  const trace = (word: string): Derivation[] => {
+    try {
+      return [applyRulesWithTrace(word, rules, sourcePhonemes, targetPhonemes, sourcePhonotactics, targetPhonotactics)];
+    } catch {
+      return [];
+    }
+  };
+
+  for (const test of tests) {
+    try {
+      if (test.direction === 'forward') {
+        const output = applyRules(test.input, rules, sourcePhonemes, targetPhonemes, sourcePhonotactics, targetPhonotactics);
+        const passed = output === test.expected[0];
+        results.push({ test, passed, actual: [output], derivations: passed ? [] : trace(test.input) });
+      } else {
+        search ??= createLazyReverser(rules, sourcePhonemes, targetPhonemes, sourcePhonotactics, targetPhonotactics);
+        const { candidates, status } = collectCandidates(search(test.input, limits));
+        const actual = candidates.map(c => c.word);
+        const passed = status.complete && sameWords(actual, test.expected);
+        const missing = test.expected.filter(word => !actual.includes(word));
+        const result: RegressionResult = { test, passed, actual, derivations: passed ? [] : missing.flatMap(trace) };
+        if (!status.complete) result.error = `Search stopped at the ${status.limit} limit`;
+        results.push(result);
+      }
+    } catch (e) {
+      results.push({ test, passed: false, actual: [], error: e instanceof Error ? e.message : 'Error', derivations: [] });
+    }
+  }
+
+  const passed = results.filter(r => r.passed).length;
+  return { passed, failed: results.length - passed, results };
+}
+
+function sameWords(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((word, i) => word === b[i]);
+}
+
+/**
+ * Describes a failed test in plain text, with the rules that changed each
+ * mismatching word:
+ *
+ *   Line 3: kalb > expected kalb, got kelb
+ *     kalb
+ *     → kelb    a > e / _ l (rules line 12)
+ */
+export function formatFailure(result: RegressionResult): string {
+  const { test } = result;
+  const arrow = test.direction === 'forward' ? '>' : '<';
+  const expected = test.expected.length > 0 ? test.expected.join(' ') : '∅';
+  const lines = [result.error !== undefined && result.actual.length === 0
+    ? `Line ${test.line}: ${test.input} ${arrow} ${expected}: ${result.error}`
+    : `Line ${test.line}: ${test.input} ${arrow} expected ${expected}, got ${result.actual.length > 0 ? result.actual.join(' ') : '∅'}` +
+      (result.error !== undefined ? ` (${result.error})` : '')];
+
+  for (const derivation of result.derivations) {
+    lines.push(`  ${derivation.input}`);
+    for (const step of derivation.steps) {
+      if (!step.applied) continue;
+      const where = step.rule.source ? ` (rules line ${step.rule.source.line})` : '';
+      lines.push(`  → ${step.after.join('')}    ${describeRule(step.rule)}${where}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// Falls back to a reconstructed rule when it was not parsed from text
+function describeRule(rule: Rule): string {
+  if (rule.source) return rule.source.text;
+  const from = rule.from.length > 0 ? rule.from.join(' ') : '∅';
+  const to = rule.to.length > 0 ? rule.to.join(' ') : '∅';
+  return `${from} > ${to}`;
+}
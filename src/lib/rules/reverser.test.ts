@@ -1,6 +1,9 @@
 import { describe, it, expect } from 'vitest';
-import { reverseRules } from './reverser';
+import { reverseRules, createDetailedReverser, createLazyReverser, collectCandidates } from './reverser';
+import { applyRules } from './engine';
 import { parseRules } from './parser';
+import { parseFeaturesFile } from '../features/parser';
+import { parsePhonotacticsFile } from '../phonotactics/parser';
 import type { Rule, PhonotacticPattern } from '../types';
 
 describe('reverseRules (backward)', () => {
@@ -290,3 +293,218 @@ describe('reverseRules (backward)', () => {
     });
   });
 });
+
+describe('feature-based rules', () => {
+  it('should reverse a feature-change rule', () => {
+    const features = parseFeaturesFile('voice nasal\np - -\nb + -\nm + +\na + -');
+    const rules = parseRules('[-voice -nasal] > [+voice] / [+nasal] _', { features });
+    const result = reverseRules('amba', rules, ['a', 'p', 'm'], ['a', 'b', 'm']);
+    expect(result).toEqual(['ampa']);
+  });
+});
+
+describe('application modes', () => {
+  it('should only return sources that an rtl rule really maps to the target', () => {
+    const rules = parseRules('a > e / _ e @rtl');
+    expect(reverseRules('eee', rules, ['a', 'e'], ['a', 'e'])).toEqual(['aae', 'aee', 'eae', 'eee']);
+  });
+
+  it('should reject sources an ltr rule would not fully change', () => {
+    // Forward ltr: aae → aee (the first a never sees a following e)
+    const rules = parseRules('a > e / _ e @ltr');
+    expect(reverseRules('eee', rules, ['a', 'e'], ['a', 'e'])).toEqual(['aee', 'eae', 'eee']);
+  });
+
+  it('should reverse iterative spreading beyond the original environment', () => {
+    const rules = parseRules('@mode ltr\na > e / e _');
+    const result = reverseRules('eee', rules, ['a', 'e'], ['a', 'e']);
+    expect(result).toContain('eaa');
+    for (const source of result) {
+      expect(applyRules(source, rules, ['a', 'e'], ['a', 'e'])).toBe('eee');
+    }
+  });
+});
+
+describe('syllable-aware rules', () => {
+  const phonotactics = parsePhonotacticsFile('C = [p t k ʔ]\nV = [a i]\n@scope syllable\n\n(C) V (C)').phonotactics;
+  const source = ['p', 't', 'k', 'a', 'i'];
+  const target = ['p', 't', 'k', 'ʔ', 'a', 'i'];
+
+  it('should reverse coda debuccalization', () => {
+    const rules = parseRules('t > ʔ / _ $');
+    expect(reverseRules('taʔka', rules, source, target, phonotactics, phonotactics)).toEqual(['tatka']);
+  });
+
+  it('should only undo changes in the right syllable position', () => {
+    const rules = parseRules('t > k @coda');
+    const result = reverseRules('kakka', rules, source, ['k', 'a'], phonotactics, phonotactics);
+    expect(result).toEqual(['kakka', 'katka']);
+    for (const word of result) {
+      expect(applyRules(word, rules, source, ['k', 'a'], phonotactics, phonotactics)).toBe('kakka');
+    }
+  });
+});
+
+describe('suprasegmental tiers', () => {
+  const phonotactics = parsePhonotacticsFile(
+    'C = [p t k]\nV = [a ə]\n@scope syllable\n@tier stress = [ˈ]\n\n(C) V (C)'
+  ).phonotactics;
+
+  it('should only undo reductions in pretonic syllables', () => {
+    const rules = parseRules('@tier stress = [ˈ] before\na > ə @stress=none @next:stress=ˈ');
+    const phonemes = ['k', 't', 'a', 'ə', 'ˈ'];
+    // The stressed ə cannot come from a, so it is never undone
+    const result = reverseRules('kəˈtə', rules, phonemes, phonemes, phonotactics, phonotactics);
+    expect(result).toEqual(['kaˈtə', 'kəˈtə']);
+  });
+
+  it('should reverse rules whose contexts skip over marks', () => {
+    const rules = parseRules('@tier stress = [ˈ] before\na > ə / _ t');
+    const result = reverseRules('kəˈta', rules, ['k', 't', 'a', 'ˈ'], ['k', 't', 'a', 'ə', 'ˈ']);
+    expect(result).toEqual(['kaˈta']);
+  });
+});
+
+describe('lexical exceptions', () => {
+  const phonemes = ['k', 'a', 'e', 'l', 'b'];
+
+  it('should find exception words that keep their old form', () => {
+    const rules = parseRules('a > e @except=kalb');
+    expect(reverseRules('kalb', rules, phonemes, phonemes)).toEqual(['kalb']);
+    expect(createDetailedReverser(rules, phonemes, phonemes)('kalb')).toEqual([{ word: 'kalb', exceptional: true }]);
+  });
+
+  it('should drop exception words that regular reversal proposes', () => {
+    const rules = parseRules('a > e @except=kalb');
+    expect(reverseRules('kelb', rules, phonemes, phonemes)).toEqual(['kelb']);
+  });
+
+  it('should keep regular candidates alongside exceptional ones', () => {
+    const rules = parseRules('e > a @except=kalb');
+    expect(createDetailedReverser(rules, phonemes, phonemes)('kalb')).toEqual([
+      { word: 'kalb', exceptional: false },
+      { word: 'kelb', exceptional: false }
+    ]);
+  });
+});
+
+describe('back-references', () => {
+  const phonemes = ['s', 'k', 'a', 'i', 'ə'];
+  const consonants = 'C = [s k]\nV = [a i]\n';
+
+  it('should reverse metathesis', () => {
+    const rules = parseRules(consonants + 'C₁ C₂ > C₂ C₁ / V _ V');
+    const result = reverseRules('aksi', rules, phonemes, phonemes);
+    expect(result).toContain('aski');
+    for (const word of result) {
+      expect(applyRules(word, rules, phonemes, phonemes)).toBe('aksi');
+    }
+  });
+
+  it('should reverse gemination', () => {
+    const rules = parseRules(consonants + 'C₁ > C₁ C₁ / V _ V');
+    expect(reverseRules('akka', rules, phonemes, phonemes)).toEqual(['aka', 'akka']);
+  });
+
+  it('should reverse vowel copy', () => {
+    const rules = parseRules(consonants + 'ə > V₁ / V₁ C _');
+    expect(reverseRules('kisi', rules, phonemes, phonemes)).toEqual(['kisi', 'kisə']);
+  });
+});
+
+describe('insertion', () => {
+  const source = ['k', 't', 'b', 'a'];
+  const target = ['k', 't', 'b', 'a', 'ə'];
+
+  it('should undo anaptyxis as optional deletion', () => {
+    const rules = parseRules('C = [k t b]\n∅ > ə / C _ C');
+    expect(reverseRules('kətab', rules, source, target)).toEqual(['ktab']);
+  });
+
+  it('should keep inserted vowels that could be original', () => {
+    const rules = parseRules('C = [k t b]\n∅ > ə / C _ C');
+    expect(reverseRules('kətab', rules, [...source, 'ə'], target)).toEqual(['ktab', 'kətab']);
+  });
+
+  it('should undo prothesis', () => {
+    const rules = parseRules('∅ > a / # _ k t');
+    expect(reverseRules('akta', rules, source, target)).toEqual(['akta', 'kta']);
+  });
+});
+
+describe('lazy search', () => {
+  // Every a may come from a, b or c: 3^n sources for n a's
+  const rules = parseRules('[b c] > a');
+  const phonemes = ['a', 'b', 'c'];
+  const search = createLazyReverser(rules, phonemes, ['a']);
+
+  it('should find the same sources as the eager reverser', () => {
+    const { candidates, status } = collectCandidates(search('aaa'));
+    expect(candidates.map(c => c.word)).toEqual(reverseRules('aaa', rules, phonemes, ['a']));
+    expect(status.complete).toBe(true);
+  });
+
+  it('should yield candidates before the search finishes', () => {
+    const generator = search('aaaaaaaa');
+    const first = generator.next();
+    expect(first.done).toBe(false);
+    expect(first.value).toMatchObject({ exceptional: false });
+  });
+
+  it('should stop at the result limit', () => {
+    const { candidates, status } = collectCandidates(search('aaaaaaaa', { maxResults: 5 }));
+    expect(candidates).toHaveLength(5);
+    expect(status).toMatchObject({ complete: false, limit: 'results' });
+  });
+
+  it('should stop at the candidate limit', () => {
+    const { status } = collectCandidates(search('aaaaaaaa', { maxCandidates: 3 }));
+    expect(status).toMatchObject({ complete: false, limit: 'candidates', explored: 4 });
+  });
+
+  it('should stop at the time limit', () => {
+    const { status } = collectCandidates(search('aaaaaaaa', { timeoutMs: -1 }));
+    expect(status).toMatchObject({ complete: false, limit: 'time' });
+  });
+
+  it('should report how many forms it explored', () => {
+    // The ruleset compiles, so the search walks the transducer: the start,
+    // then each of a, b and c as first source token, then each pair
+    expect(collectCandidates(search('aa')).status).toEqual({ complete: true, explored: 1 + 3 + 9 });
+  });
+});
+
+
+describe('compiled rulesets', () => {
+  it('should only find sources that produce the word', () => {
+    // a > ɐ applies to every a, so an a in the output must come from aː
+    const rules = parseRules('a > ɐ\naː > a');
+    expect(reverseRules('bala', rules, ['b', 'l', 'a', 'aː'], ['b', 'l', 'a', 'ɐ'])).toEqual(['baːlaː']);
+  });
+
+  it('should find sources whose contexts were changed by later rules', () => {
+    const rules = parseRules('t > d / _ i\ni > e');
+    expect(reverseRules('de', rules, ['t', 'd', 'i', 'e'], ['t', 'd', 'e'])).toEqual(['de', 'di', 'ti']);
+  });
+});
+
+describe('phonotactics', () => {
+  const rules = parseRules('[b c] > a');
+  const phonemes = ['a', 'b', 'c'];
+
+  it('should reject words that break the target phonotactics', () => {
+    const targetPhonotactics: PhonotacticPattern[] = [{ positions: [['a'], ['a']] }];
+    expect(() => reverseRules('a', rules, phonemes, ['a'], null, targetPhonotactics))
+      .toThrow('Target word "a" does not match target phonotactic constraints');
+    expect(reverseRules('aa', rules, phonemes, ['a'], null, targetPhonotactics)).toHaveLength(9);
+  });
+
+  it('should drop sources as soon as they break the source phonotactics', () => {
+    // Sources alternate b and c: only two of the 3^6 inputs fit
+    const alternating = parsePhonotacticsFile('X = [b]\nY = [c]\nXYXYXY\nYXYXYX').phonotactics!;
+    const search = createLazyReverser(rules, phonemes, ['a'], alternating);
+    const { candidates, status } = collectCandidates(search('aaaaaa'));
+    expect(candidates.map(c => c.word)).toEqual(['bcbcbc', 'cbcbcb']);
+    expect(status.explored).toBeLessThan(20);
+  });
+});
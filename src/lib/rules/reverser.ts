@@ -1,5 +1,11 @@
-import type { Rule, PhonotacticPattern } from '../types';
-import { matchesPhonotactics } from '../phonotactics/matcher';
+import type { Rule, PhonotacticPattern, ReverseCandidate, ReverseLimits, ReverseSearchStatus } from '../types';
+import { matchesPhonotactics, matchesPhonotacticsPrefix } from '../phonotactics/matcher';
+import { applyRuleGroup, applyRules, syllabifierFor } from './engine';
+import { groupRules, usesSyllables, usesTiers } from './groups';
+import { exceptionWords } from './exceptions';
+import { compileRules } from '../fst/compiler';
+import { searchSources } from '../fst/inverse';
+import type { Syllabifier } from '../phonotactics/syllabifier';
 
 // Separator for serializing token arrays. Must not appear in any phoneme text.
 // \x01 (SOH) is safe: IPA, Latin with diacritics, digits, etc. never include it.
@@ -59,8 +65,68 @@ export function createReverser(
   sourcePhonemes: string[],
   targetPhonemes: string[],
   sourcePhonotactics?: PhonotacticPattern[] | null,
-  _targetPhonotactics?: PhonotacticPattern[] | null
+  targetPhonotactics?: PhonotacticPattern[] | null
 ): (word: string) => string[] {
+  const reverseDetailed = createDetailedReverser(rules, sourcePhonemes, targetPhonemes, sourcePhonotactics, targetPhonotactics);
+  return (word: string) => reverseDetailed(word).map(candidate => candidate.word);
+}
+
+/**
+ * Like createReverser, but reports for each candidate whether it is one of
+ * the ruleset's lexical exceptions.
+ */
+export function createDetailedReverser(
+  rules: Rule[],
+  sourcePhonemes: string[],
+  targetPhonemes: string[],
+  sourcePhonotactics?: PhonotacticPattern[] | null,
+  targetPhonotactics?: PhonotacticPattern[] | null
+): (word: string) => ReverseCandidate[] {
+  const search = createLazyReverser(rules, sourcePhonemes, targetPhonemes, sourcePhonotactics, targetPhonotactics);
+
+  // Per-word result cache — survives across re-analysis calls as long as
+  // the same createReverser instance is reused.
+  const cache = new Map<string, ReverseCandidate[]>();
+
+  return function reverseWord(word: string): ReverseCandidate[] {
+    const cached = cache.get(word);
+    if (cached !== undefined) return cached;
+
+    const { candidates } = collectCandidates(search(word));
+    cache.set(word, candidates);
+    return candidates;
+  };
+}
+
+/**
+ * Creates a backward search that yields source candidates as they are found.
+ *
+ * The search walks the rules from last to first, depth first, so the first
+ * candidates appear without building every intermediate form. Intermediate
+ * forms already explored at a rule are not explored again. Candidates come
+ * in search order, not sorted. Rulesets that compile to a transducer (see
+ * compileRules) are searched on the transducer instead, which finds exactly
+ * the words it maps to the target, and drops a source as soon as its
+ * beginning breaks the source phonotactics.
+ *
+ * A word that breaks the target phonotactics is rejected before searching:
+ * the generator throws on its first step.
+ *
+ * Reversal assumes every rule applied, so exception words are checked by
+ * running them forward instead, after the search: an exception word is a
+ * candidate if it produces the target when its exceptions are honoured, and
+ * is marked exceptional if it would not have produced it regularly.
+ *
+ * The generator returns a status saying whether a limit cut the search short.
+ * Callers can also stop early by not asking for more candidates.
+ */
+export function createLazyReverser(
+  rules: Rule[],
+  sourcePhonemes: string[],
+  targetPhonemes: string[],
+  sourcePhonotactics?: PhonotacticPattern[] | null,
+  targetPhonotactics?: PhonotacticPattern[] | null
+): (word: string, limits?: ReverseLimits) => Generator<ReverseCandidate, ReverseSearchStatus> {
   // Expand source phonemes to include phonemes deleted by deletion rules
   const allSourcePhonemes = new Set<string>(sourcePhonemes);
   for (const rule of rules) {
@@ -72,52 +138,148 @@ export function createReverser(
   const sortedTargetPhonemes = [...targetPhonemes].sort((a, b) => b.length - a.length);
   const sortedSourcePhonemes = [...expandedSourcePhonemes].sort((a, b) => b.length - a.length);
 
-  // Per-word result cache — survives across re-analysis calls as long as
-  // the same createReverser instance is reused.
-  const cache = new Map<string, string[]>();
-
-  return function reverseWord(word: string): string[] {
-    const cached = cache.get(word);
-    if (cached !== undefined) return cached;
+  // Expansions of one iterative rule are applied (and reversed) together
+  const groups = groupRules(rules);
+  const syllabify = syllabifierFor(rules, sourcePhonotactics, targetPhonotactics);
+
+  const exceptional = new Set(exceptionWords(rules));
+  const regularRules = rules.map(rule => (rule.exceptions ? { ...rule, exceptions: undefined } : rule));
+  const produces = (ruleList: Rule[], source: string, target: string): boolean => {
+    try {
+      return applyRules(source, ruleList, sourcePhonemes, targetPhonemes, sourcePhonotactics, targetPhonotactics) === target;
+    } catch {
+      return false;
+    }
+  };
 
-    let possibilityKeys: Set<string> = new Set([
-      serializeTokens(tokenizeWith(word, sortedTargetPhonemes))
-    ]);
+  // A fully reversed form is a candidate if it is a valid source word
+  const isSourceWord = (tokens: string[]): boolean => {
+    try {
+      tokenizeWith(tokens.join(''), sortedSourcePhonemes);
+    } catch {
+      return false;
+    }
+    return !sourcePhonotactics || matchesPhonotactics(tokens, sourcePhonotactics);
+  };
 
-    // Apply rules in reverse order
-    for (let i = rules.length - 1; i >= 0; i--) {
-      const rule = rules[i];
-      const newKeys: Set<string> = new Set();
+  // The transducer search builds sources left to right, so it can drop a
+  // source as soon as its beginning breaks the source phonotactics
+  const isSourcePrefix = sourcePhonotactics
+    ? (tokens: string[]) => matchesPhonotacticsPrefix(tokens, sourcePhonotactics)
+    : undefined;
+
+  // Undoes the groups from last to first, yielding fully reversed forms
+  function* undoGroups(start: string[], budget: () => ReverseSearchStatus['limit']): Generator<string[], ReverseSearchStatus['limit']> {
+    if (groups.length === 0) {
+      yield start;
+      return undefined;
+    }
 
-      for (const key of possibilityKeys) {
-        const tokens = deserializeTokens(key);
-        for (const reversed of reverseOneRule(tokens, rule, expandedSourcePhonemes)) {
-          newKeys.add(serializeTokens(reversed));
-        }
+    // Forms already explored before each group is undone
+    const seen = groups.map(() => new Set<string>());
+    const stack: Array<{ level: number; candidates: Iterator<string[]> }> = [];
+
+    const enter = (level: number, tokens: string[]): ReverseSearchStatus['limit'] => {
+      const key = serializeTokens(tokens);
+      if (seen[level].has(key)) return undefined;
+      seen[level].add(key);
+      const limit = budget();
+      if (limit) return limit;
+      stack.push({ level, candidates: reverseOneGroup(tokens, groups[level], expandedSourcePhonemes, syllabify)[Symbol.iterator]() });
+      return undefined;
+    };
+
+    const limit = enter(groups.length - 1, start);
+    if (limit) return limit;
+
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      const next = top.candidates.next();
+      if (next.done) {
+        stack.pop();
+      } else if (top.level === 0) {
+        yield next.value;
+      } else {
+        const limit = enter(top.level - 1, next.value);
+        if (limit) return limit;
       }
+    }
+    return undefined;
+  }
+
+  return function* searchWord(word: string, limits: ReverseLimits = {}): Generator<ReverseCandidate, ReverseSearchStatus> {
+    const deadline = limits.timeoutMs !== undefined ? Date.now() + limits.timeoutMs : Infinity;
+    const found = new Set<string>();
+    let explored = 0;
+
+    // Counts an explored form and returns the limit that was hit, if any
+    const budget = (): ReverseSearchStatus['limit'] => {
+      explored++;
+      if (limits.maxCandidates !== undefined && explored > limits.maxCandidates) return 'candidates';
+      if (Date.now() > deadline) return 'time';
+      return undefined;
+    };
+
+    const start = tokenizeWith(word, sortedTargetPhonemes);
+    if (targetPhonotactics && !matchesPhonotactics(start, targetPhonotactics)) {
+      throw new Error(`Target word "${word}" does not match target phonotactic constraints`);
+    }
 
-      possibilityKeys = newKeys;
+    // Looked up per word, so that a long batch moves on to a fresh
+    // transducer once this one has grown too large (see compileRules)
+    const transducer = compileRules(rules);
+    const sources = transducer
+      ? searchSources(transducer, start, expandedSourcePhonemes, budget, isSourcePrefix)
+      : undoGroups(start, budget);
+
+    let limit: ReverseSearchStatus['limit'];
+    for (let next = sources.next(); ; next = sources.next()) {
+      if (next.done) {
+        limit = next.value;
+        break;
+      }
+      const w = next.value.join('');
+      if (found.has(w) || exceptional.has(w) || !isSourceWord(next.value)) continue;
+      found.add(w);
+      yield { word: w, exceptional: false };
+      if (limits.maxResults !== undefined && found.size >= limits.maxResults) {
+        limit = 'results';
+        break;
+      }
     }
 
-    // Convert to final words; validate tokenization and phonotactics
-    const results: string[] = [];
-    for (const key of possibilityKeys) {
-      const tokens = deserializeTokens(key);
-      const w = tokens.join('');
-      try {
-        tokenizeWith(w, sortedSourcePhonemes);
-      } catch {
-        continue;
+    if (limit !== undefined) return { complete: false, limit, explored };
+
+    for (const w of exceptional) {
+      if (Date.now() > deadline) return { complete: false, limit: 'time', explored };
+      if (!produces(rules, w, word)) continue;
+      yield { word: w, exceptional: !produces(regularRules, w, word) };
+      found.add(w);
+      if (limits.maxResults !== undefined && found.size >= limits.maxResults) {
+        return { complete: false, limit: 'results', explored };
       }
-      if (sourcePhonotactics && !matchesPhonotactics(tokens, sourcePhonotactics)) continue;
-      results.push(w);
     }
-    results.sort();
-    cache.set(word, results);
-    return results;
+
+    return { complete: true, explored };
   };
 }
 
+/**
+ * Runs a backward search to the end and returns its candidates sorted
+ */
+export function collectCandidates(
+  search: Generator<ReverseCandidate, ReverseSearchStatus>
+): { candidates: ReverseCandidate[]; status: ReverseSearchStatus } {
+  const candidates: ReverseCandidate[] = [];
+  let next = search.next();
+  while (!next.done) {
+    candidates.push(next.value);
+    next = search.next();
+  }
+  candidates.sort((a, b) => (a.word < b.word ? -1 : a.word > b.word ? 1 : 0));
+  return { candidates, status: next.value };
+}
+
 /**
  * Applies phonological rules in reverse to find all possible source words
  * that could have produced the given target word.
@@ -134,29 +296,82 @@ export function reverseRules(
 }
 
 /**
- * Reverses a single rule application on token arrays.
+ * Reverses one rule group (see groupRules) on token arrays.
+ *
+ * Iterative rules (ltr/rtl) can match in environments that only exist after
+ * earlier changes, syllable conditions depend on how the whole input parses,
+ * and tier marks may sit between a match and its context, so none of these
+ * can be read off the output. Neither can the bindings of a back-reference
+ * group, which apply together. For all of them, candidates are
+ * generated by undoing every member without context checks and then kept only
+ * if applying the group forward reproduces the tokens.
  */
-function reverseOneRule(tokens: string[], rule: Rule, sourcePhonemes: string[]): string[][] {
+function reverseOneGroup(
+  tokens: string[],
+  group: Rule[],
+  sourcePhonemes: string[],
+  syllabify?: Syllabifier
+): Iterable<string[]> {
+  const mode = group[0].mode;
+  const iterative = mode === 'ltr' || mode === 'rtl';
+  if (!iterative && group.length === 1 && !usesSyllables(group[0]) && !usesTiers(group[0])) {
+    return reverseCandidates(tokens, group[0], sourcePhonemes);
+  }
+
+  let candidateKeys = new Set<string>([serializeTokens(tokens)]);
+  const undone = new Set<string>();
+  for (const rule of group) {
+    // Members differing only in context undo the same way
+    const change = `${serializeTokens(rule.from)}>${serializeTokens(rule.to)}`;
+    if (undone.has(change)) continue;
+    undone.add(change);
+
+    const unconditioned: Rule = { from: rule.from, to: rule.to };
+    const next = new Set<string>();
+    for (const key of candidateKeys) {
+      for (const candidate of reverseCandidates(deserializeTokens(key), unconditioned, sourcePhonemes)) {
+        next.add(serializeTokens(candidate));
+      }
+    }
+    candidateKeys = next;
+  }
+
+  return Array.from(candidateKeys, deserializeTokens)
+    .filter(candidate => sameTokens(applyRuleGroup(candidate, group, syllabify), tokens));
+}
+
+function sameTokens(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Generates candidate inputs for a single rule by undoing any subset of the
+ * places where the rule's output appears in a matching context. Candidates
+ * are produced lazily, since there are 2^n of them for n places.
+ */
+function* reverseCandidates(tokens: string[], rule: Rule, sourcePhonemes: string[]): Generator<string[]> {
   const { from, to, leftContext, rightContext } = rule;
   const toLength = to.length;
 
   // Deletion rule (from → empty): reversing is insertion at all valid positions
   if (to.length === 0) {
-    const results: string[][] = [];
-
     const fromPhonemeInSource = from.every(p => sourcePhonemes.includes(p));
     if (fromPhonemeInSource) {
-      results.push(tokens);
+      yield tokens;
     }
 
     for (let i = 0; i <= tokens.length; i++) {
       const testTokens = [...tokens.slice(0, i), ...from, ...tokens.slice(i)];
       if (matchesContextForSequence(testTokens, i, from.length, leftContext, rightContext)) {
-        results.push(testTokens);
+        yield testTokens;
       }
     }
 
-    return results;
+    return;
   }
 
   // Find all positions where the target sequence appears in the token array
@@ -171,12 +386,14 @@ function reverseOneRule(tokens: string[], rule: Rule, sourcePhonemes: string[]):
     }
   }
 
-  if (positions.length === 0) return [tokens];
+  if (positions.length === 0) {
+    yield tokens;
+    return;
+  }
 
   // Map from token position → positions-array index for O(1) lookup
   const positionMap = new Map<number, number>(positions.map((pos, idx) => [pos, idx]));
 
-  const results: string[][] = [];
   const numCombinations = 1 << positions.length; // 2^n
 
   for (let mask = 0; mask < numCombinations; mask++) {
@@ -192,10 +409,8 @@ function reverseOneRule(tokens: string[], rule: Rule, sourcePhonemes: string[]):
         i++;
       }
     }
-    results.push(result);
+    yield result;
   }
-
-  return results;
 }
 
 /**
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { parseRegressionFile, loadRuleset, runRegressionTests, formatFailure } from './regression';
+import { parseFamilyTree } from '../chains/family';
+import familyTreeText from '/public/family_tree.json?raw';
+
+// Regression tests for the bundled rulesets: every public/rules/X_Y.phono.test
+// is checked against X_Y.phono and the phoneme files of X and Y.
+const files = import.meta.glob(
+  ['/public/rules/*.phono', '/public/rules/*.phono.test', '/public/rules/*.exceptions', '/public/phonemes/*'],
+  { eager: true, query: '?raw', import: 'default' }
+) as Record<string, string>;
+
+// .phonotactics is preferred over .phonemes, as in the app
+function phonemesFile(lang: string): string {
+  return files[`/public/phonemes/${lang}.phonotactics`] ?? files[`/public/phonemes/${lang}.phonemes`] ?? '';
+}
+
+const testFiles = Object.keys(files).filter(path => path.endsWith('.phono.test'));
+
+describe('bundled rulesets', () => {
+  it('should have regression tests', () => {
+    expect(testFiles.length).toBeGreaterThan(0);
+  });
+
+  for (const path of testFiles) {
+    const id = path.split('/').pop()!.replace('.phono.test', '');
+    const [source, target] = id.split('_');
+
+    describe(id, () => {
+      const tests = parseRegressionFile(files[path]);
+      const ruleset = loadRuleset({
+        rules: files[`/public/rules/${id}.phono`],
+        exceptions: files[`/public/rules/${id}.exceptions`],
+        sourcePhonemes: phonemesFile(source),
+        targetPhonemes: phonemesFile(target),
+        sourceFeatures: files[`/public/phonemes/${source}.features`],
+        targetFeatures: files[`/public/phonemes/${target}.features`],
+      });
+
+      for (const test of tests) {
+        const arrow = test.direction === 'forward' ? '>' : '<';
+        it(`line ${test.line}: ${test.input} ${arrow} ${test.expected.join(' ') || '∅'}`, () => {
+          const [result] = runRegressionTests([test], ruleset).results;
+          expect(result.passed, formatFailure(result)).toBe(true);
+        });
+      }
+    });
+  }
+});
+
+describe('bundled family tree', () => {
+  const tree = parseFamilyTree(JSON.parse(familyTreeText));
+  const rulesetIds = Object.keys(files)
+    .filter(path => path.endsWith('.phono'))
+    .map(path => path.split('/').pop()!.replace('.phono', ''));
+
+  it('should name rulesets that exist', () => {
+    for (const language of Object.values(tree.languages)) {
+      if (language.ruleset) expect(rulesetIds, language.code).toContain(language.ruleset);
+    }
+  });
+
+  it('should have a branch for every source_target ruleset', () => {
+    const branches = Object.values(tree.languages).map(language => language.ruleset);
+    for (const id of rulesetIds.filter(id => id.includes('_'))) {
+      expect(branches, id).toContain(id);
+    }
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { serializeRules } from './serializer';
+import { parseRules } from './parser';
+
+const files = import.meta.glob('/public/rules/*.phono', { eager: true, query: '?raw', import: 'default' }) as Record<string, string>;
+
+// The parsed rules, without where they were written
+function parsed(text: string) {
+  return parseRules(text).map(({ source: _source, block, ...rule }) => ({ ...rule, block: block && { ...block, line: 0 } }));
+}
+
+function roundTrip(text: string, expand = false): string {
+  return serializeRules(parseRules(text), { expand });
+}
+
+describe('serializeRules', () => {
+  it('should write plain rules with ∅ for empty sides', () => {
+    expect(roundTrip('p > f / a _ #\nh > ∅\n∅ > ə / # _ s t')).toBe('p > f / a _ #\nh > ∅\n∅ > ə / # _ s t\n');
+  });
+
+  it('should recombine class expansions', () => {
+    expect(roundTrip('[p t k] > [b d g] / [m n] _ [a i]')).toBe('[p t k] > [b d g] / [m n] _ [a i]\n');
+    expect(roundTrip('[p b] > ∅ / _ #')).toBe('[p b] > ∅ / _ #\n');
+    expect(roundTrip('a > e / _ [i e] [m n]')).toBe('a > e / _ [i e] [m n]\n');
+  });
+
+  it('should write variables, feature bundles and negations as the classes they stand for', () => {
+    expect(roundTrip('V = [a i]\nC = [p t]\nC > ∅ / V _ V')).toBe('[p t] > ∅ / [a i] _ [a i]\n');
+    const negated = 'N = [m n]\nV = [a i]\nV > e / _ !N';
+    expect(parsed(roundTrip(negated))).toEqual(parsed(negated));
+  });
+
+  it('should write one line per expansion when asked to', () => {
+    expect(roundTrip('[p t] > [b d] / _ a', true)).toBe('p > b / _ a\nt > d / _ a\n');
+  });
+
+  it('should recombine back-references with indices', () => {
+    expect(roundTrip('C = [p t]\nC₁ > ∅ / _ C₁')).toBe('[p t]₁ > ∅ / _ [p t]₁\n');
+    expect(parsed(roundTrip('C = [p t]\nV = [a i]\nC₁ V₂ > V₂ C₁ / _ C₁'))).toEqual(parsed('C = [p t]\nV = [a i]\nC₁ V₂ > V₂ C₁ / _ C₁'));
+  });
+
+  it('should write annotations', () => {
+    const text = '@tier stress = [ˈ] before\na > ə @next:stress=ˈ @stress=none\np > f @ltr @coda @syllables>=2 @except=kalb';
+    expect(roundTrip(text)).toBe('@tier stress = [ˈ] syllable before\na > ə @next:stress=ˈ @stress=none\np > f @ltr @coda @syllables>=2 @except=kalb\n');
+  });
+
+  it('should write blocks with their directives', () => {
+    const text = 'h > ∅\n@block Early\n@period c. 1000 BCE\n@except kalb\np > f @except=bayt\n@block Late\n@description Vowels\na > e';
+    expect(roundTrip(text)).toBe(
+      'h > ∅\n\n@block Early\n@period c. 1000 BCE\n@except kalb\np > f @except=bayt\n\n@block Late\n@description Vowels\na > e\n'
+    );
+  });
+
+  it('should write nothing for no rules', () => {
+    expect(serializeRules([])).toBe('');
+  });
+
+  for (const [path, text] of Object.entries(files)) {
+    for (const expand of [false, true]) {
+      it(`should write ${path.split('/').pop()} ${expand ? 'expanded' : 'compacted'} back to the same rules`, () => {
+        expect(parsed(roundTrip(text, expand))).toEqual(parsed(text));
+      });
+    }
+  }
+});
@@ -0,0 +1,218 @@
+/**
+ * Writes rules back out as .phono text.
+ *
+ * Parsing loses the way a rule was written (variables, feature bundles,
+ * optional groups), so the text is rebuilt from the rules themselves. The
+ * expansions of one written rule are recombined into classes where that
+ * gives the same rules back; each line is checked by parsing it.
+ */
+
+import type { Rule, RuleBlock, Tier } from '../types';
+import { parseRules } from './parser';
+
+export interface SerializeOptions {
+  expand?: boolean;         // One line per expanded rule, without recombining classes
+}
+
+/**
+ * Serializes rules to text that parses back to the same rules. Blocks become
+ * @block directives (with their period, description and exceptions), tiers
+ * @tier directives before the first rule that has them, and every other
+ * setting an annotation on the rule.
+ *
+ * Expansions that apply together (of an iterative rule, or one with
+ * back-references) only keep doing so when they recombine into one line;
+ * otherwise, as with `expand`, each is written on its own.
+ */
+export function serializeRules(rules: Rule[], options: SerializeOptions = {}): string {
+  const lines: string[] = [];
+  let block: RuleBlock | undefined;
+  const declared = new Map<string, string>();
+
+  for (const unit of writtenRules(rules, options.expand ?? false)) {
+    const [first] = unit;
+    if (first.block && first.block !== block) {
+      if (lines.length > 0) lines.push('');
+      lines.push(...blockDirectives(first.block));
+    }
+    block = first.block;
+
+    const tierLines: string[] = [];
+    for (const tier of first.tiers ?? []) {
+      const declaration = tierDeclaration(tier);
+      if (declared.get(tier.name) !== declaration) {
+        tierLines.push(`@tier ${declaration}`);
+        declared.set(tier.name, declaration);
+      }
+    }
+    lines.push(...tierLines);
+
+    const compact = unit.length > 1 ? recombine(unit) : null;
+    lines.push(...(compact ? [compact] : unit.map(ruleLine)));
+  }
+
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+// Runs of expansions of the same written rule (each rule alone when expanding)
+function writtenRules(rules: Rule[], expand: boolean): Rule[][] {
+  const units: Rule[][] = [];
+  for (const rule of rules) {
+    const last = units[units.length - 1];
+    if (!expand && last && rule.source && last[0].source === rule.source) last.push(rule);
+    else units.push([rule]);
+  }
+  return units;
+}
+
+function blockDirectives(block: RuleBlock): string[] {
+  const lines = [`@block ${block.name}`];
+  if (block.period) lines.push(`@period ${block.period}`);
+  if (block.description) lines.push(`@description ${block.description}`);
+  if (block.exceptions?.length) lines.push(`@except ${block.exceptions.join(' ')}`);
+  return lines;
+}
+
+function tierDeclaration(tier: Tier): string {
+  return `${tier.name} = [${tier.marks.join(' ')}] ${tier.scope} ${tier.side}`;
+}
+
+function sequence(tokens: string[]): string {
+  return tokens.length > 0 ? tokens.join(' ') : '∅';
+}
+
+/**
+ * The rule's settings as trailing annotations. Exceptions it has from its
+ * block are left to the block's @except directive.
+ */
+function annotations(rule: Rule): string[] {
+  const result: string[] = [];
+  if (rule.mode && rule.mode !== 'simultaneous') result.push(`@${rule.mode}`);
+  if (rule.position) result.push(`@${rule.position}`);
+  if (rule.syllables) result.push(`@syllables${rule.syllables.op}${rule.syllables.count}`);
+  for (const { tier, value, target } of rule.conditions ?? []) {
+    const relative = target === 'next' ? 'next:' : target === 'previous' ? 'prev:' : '';
+    result.push(`@${relative}${tier}=${value ?? 'none'}`);
+  }
+  const exceptions = (rule.exceptions ?? []).filter(word => !rule.block?.exceptions?.includes(word));
+  if (exceptions.length > 0) result.push(`@except=${exceptions.join(',')}`);
+  return result;
+}
+
+function writeLine(from: string, to: string, left: string, right: string, rule: Rule): string {
+  const context = left !== '' || right !== '' ? ` / ${`${left} _ ${right}`.trim()}` : '';
+  return [`${from} > ${to}${context}`, ...annotations(rule)].join(' ');
+}
+
+function ruleLine(rule: Rule): string {
+  return writeLine(sequence(rule.from), sequence(rule.to), (rule.leftContext ?? []).join(' '), (rule.rightContext ?? []).join(' '), rule);
+}
+
+const SUBSCRIPTS = '₀₁₂₃₄₅₆₇₈₉';
+
+/**
+ * One line for the expansions of a written rule, or null if none found
+ * parses back to exactly these expansions
+ */
+function recombine(unit: Rule[]): string | null {
+  const line = unit[0].backReferences ? withIndices(unit) : withClasses(unit);
+  return line !== null && parsesTo(line, unit) ? line : null;
+}
+
+/**
+ * Classes as the parser expands them: each (source, target) pair with every
+ * left context, each with every right context. The source and target may be
+ * paired classes; each context slot may be a class of its own.
+ */
+function withClasses(unit: Rule[]): string | null {
+  const key = (tokens: string[] | undefined) => JSON.stringify(tokens ?? []);
+  const distinct = <T>(values: T[], by: (value: T) => string) =>
+    values.filter((value, k) => values.findIndex(other => by(other) === by(value)) === k);
+
+  const changes = distinct(unit.map(rule => ({ from: rule.from, to: rule.to })), c => key(c.from) + key(c.to));
+  const lefts = distinct(unit.map(rule => rule.leftContext ?? []), key);
+  const rights = distinct(unit.map(rule => rule.rightContext ?? []), key);
+  if (changes.length * lefts.length * rights.length !== unit.length) return null;
+
+  let from: string;
+  let to: string;
+  if (changes.length === 1) {
+    from = sequence(changes[0].from);
+    to = sequence(changes[0].to);
+  } else {
+    if (changes.some(c => c.from.length > 1) || distinct(changes, c => key(c.from)).length !== changes.length) return null;
+    from = `[${changes.map(c => sequence(c.from)).join(' ')}]`;
+    if (distinct(changes, c => key(c.to)).length === 1) to = sequence(changes[0].to);
+    else if (changes.every(c => c.to.length <= 1)) to = `[${changes.map(c => sequence(c.to)).join(' ')}]`;
+    else return null;
+  }
+
+  const left = contextClasses(lefts);
+  const right = contextClasses(rights);
+  if (left === null || right === null) return null;
+  return writeLine(from, to, left, right, unit[0]);
+}
+
+// A context whose slots are classes, if its variants are exactly their product
+function contextClasses(variants: string[][]): string | null {
+  if (variants.length === 1) return variants[0].join(' ');
+  const length = variants[0].length;
+  if (length === 0 || variants.some(v => v.length !== length)) return null;
+
+  const slots = Array.from({ length }, (_, i) => Array.from(new Set(variants.map(v => v[i]))));
+  if (slots.reduce((product, slot) => product * slot.length, 1) !== variants.length) return null;
+  return slots.map(slot => (slot.length > 1 ? `[${slot.join(' ')}]` : slot[0])).join(' ');
+}
+
+/**
+ * Indexed classes for the expansions of a rule with back-references: slots
+ * that vary together (the same value wherever one repeats) share an index,
+ * and their classes list the values in the same order, so they pair up.
+ */
+function withIndices(unit: Rule[]): string | null {
+  const parts = (rule: Rule) => [rule.from, rule.to, rule.leftContext ?? [], rule.rightContext ?? []];
+  const shape = parts(unit[0]).map(p => p.length);
+  if (unit.some(rule => parts(rule).some((p, i) => p.length !== shape[i]))) return null;
+
+  const slots = unit.map(rule => parts(rule).flat());
+  const width = slots[0].length;
+  const indices = new Map<string, number>();
+  const written: string[] = [];
+  for (let s = 0; s < width; s++) {
+    const values = slots.map(tokens => tokens[s]);
+    const classes = Array.from(new Set(values));
+    if (classes.length === 1) {
+      written.push(classes[0]);
+      continue;
+    }
+    // Slots that vary together have the same pattern of first appearances
+    const pattern = values.map(value => classes.indexOf(value)).join(',');
+    if (!indices.has(pattern)) indices.set(pattern, indices.size + 1);
+    const index = indices.get(pattern)!;
+    if (index >= SUBSCRIPTS.length) return null;
+    written.push(`[${classes.join(' ')}]${SUBSCRIPTS[index]}`);
+  }
+
+  const [from, to, left, right] = shape.map((length, i) => {
+    const start = shape.slice(0, i).reduce((sum, n) => sum + n, 0);
+    return written.slice(start, start + length).join(' ');
+  });
+  return writeLine(from || '∅', to || '∅', left, right, unit[0]);
+}
+
+// Whether a line (with the unit's tiers declared) parses to the unit's rules
+function parsesTo(line: string, unit: Rule[]): boolean {
+  const tiers = (unit[0].tiers ?? []).map(tier => `@tier ${tierDeclaration(tier)}`);
+  let parsed: Rule[];
+  try {
+    parsed = parseRules([...tiers, line].join('\n'));
+  } catch {
+    return false;
+  }
+  const same = (a: string[] | undefined, b: string[] | undefined) => JSON.stringify(a ?? []) === JSON.stringify(b ?? []);
+  return parsed.length === unit.length && parsed.every((rule, k) =>
+    same(rule.from, unit[k].from) && same(rule.to, unit[k].to) &&
+    same(rule.leftContext, unit[k].leftContext) && same(rule.rightContext, unit[k].rightContext) &&
+    !!rule.backReferences === !!unit[k].backReferences
+  );
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { matchesTierConditions, tierMarks } from './matcher';
+import type { Syllabification, Tier } from '../types';
+
+const stress: Tier = { name: 'stress', marks: ['ˈ'], scope: 'syllable', side: 'before' };
+const length: Tier = { name: 'length', marks: ['ː'], scope: 'segment', side: 'after' };
+const tiers = [stress, length];
+
+// pa.ˈtaː.ka
+const tokens = ['p', 'a', 'ˈ', 't', 'a', 'ː', 'k', 'a'];
+const syllables: Syllabification = {
+  starts: [0, 2, 6],
+  positions: ['onset', 'nucleus', null, 'onset', 'nucleus', null, 'onset', 'nucleus']
+};
+
+describe('tierMarks', () => {
+  it('should collect marks from every tier', () => {
+    expect(tierMarks(tiers)).toEqual(new Set(['ˈ', 'ː']));
+  });
+});
+
+describe('matchesTierConditions', () => {
+  it('should check marks on the syllable containing the match', () => {
+    expect(matchesTierConditions(tokens, 4, 1, tiers, [{ tier: 'stress', value: 'ˈ', target: 'this' }], syllables)).toBe(true);
+    expect(matchesTierConditions(tokens, 1, 1, tiers, [{ tier: 'stress', value: 'ˈ', target: 'this' }], syllables)).toBe(false);
+    expect(matchesTierConditions(tokens, 1, 1, tiers, [{ tier: 'stress', value: null, target: 'this' }], syllables)).toBe(true);
+  });
+
+  it('should check neighbouring syllables', () => {
+    expect(matchesTierConditions(tokens, 1, 1, tiers, [{ tier: 'stress', value: 'ˈ', target: 'next' }], syllables)).toBe(true);
+    expect(matchesTierConditions(tokens, 7, 1, tiers, [{ tier: 'stress', value: 'ˈ', target: 'previous' }], syllables)).toBe(true);
+    // There is no syllable after the last one
+    expect(matchesTierConditions(tokens, 7, 1, tiers, [{ tier: 'stress', value: null, target: 'next' }], syllables)).toBe(false);
+  });
+
+  it('should check marks written next to a segment', () => {
+    expect(matchesTierConditions(tokens, 4, 1, tiers, [{ tier: 'length', value: 'ː', target: 'this' }], syllables)).toBe(true);
+    expect(matchesTierConditions(tokens, 1, 1, tiers, [{ tier: 'length', value: null, target: 'this' }], syllables)).toBe(true);
+    expect(matchesTierConditions(tokens, 6, 1, tiers, [{ tier: 'length', value: 'ː', target: 'previous' }], null)).toBe(true);
+  });
+
+  it('should fail syllable conditions without a syllabification', () => {
+    expect(matchesTierConditions(tokens, 4, 1, tiers, [{ tier: 'stress', value: 'ˈ', target: 'this' }], null)).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import type { Syllabification, Tier, TierCondition } from '../types';
+
+const markSets = new WeakMap<Tier[], Set<string>>();
+
+/**
+ * Returns every mark on the given tiers. Cached per tiers array, since all
+ * rules after a declaration share the same one.
+ */
+export function tierMarks(tiers: Tier[]): Set<string> {
+  let marks = markSets.get(tiers);
+  if (!marks) {
+    marks = new Set(tiers.flatMap(t => t.marks));
+    markSets.set(tiers, marks);
+  }
+  return marks;
+}
+
+/**
+ * Checks tier conditions for a match of `length` tokens starting at `start`.
+ *
+ * Syllable tiers look at the marks inside the syllable containing the match
+ * (or the previous/next syllable), so they need a syllabification. Segment
+ * tiers look at the marks written directly before or after the segment.
+ * A condition on a syllable or segment that does not exist never holds.
+ */
+export function matchesTierConditions(
+  tokens: string[],
+  start: number,
+  length: number,
+  tiers: Tier[],
+  conditions: TierCondition[],
+  syllables: Syllabification | null
+): boolean {
+  const allMarks = tierMarks(tiers);
+
+  for (const condition of conditions) {
+    const tier = tiers.find(t => t.name === condition.tier);
+    if (!tier) return false;
+
+    const found = tier.scope === 'segment'
+      ? segmentMarks(tokens, start, length, tier, condition.target, allMarks)
+      : syllableMarks(tokens, start, tier, condition.target, syllables);
+    if (found === null) return false;
+
+    const holds = condition.value === null ? found.length === 0 : found.includes(condition.value);
+    if (!holds) return false;
+  }
+
+  return true;
+}
+
+function syllableMarks(
+  tokens: string[],
+  start: number,
+  tier: Tier,
+  target: TierCondition['target'],
+  syllables: Syllabification | null
+): string[] | null {
+  if (syllables === null) return null;
+
+  let index = 0;
+  while (index + 1 < syllables.starts.length && syllables.starts[index + 1] <= start) index++;
+  if (target === 'previous') index--;
+  if (target === 'next') index++;
+  if (index < 0 || index >= syllables.starts.length) return null;
+
+  const end = syllables.starts[index + 1] ?? tokens.length;
+  return tokens.slice(syllables.starts[index], end).filter(t => tier.marks.includes(t));
+}
+
+function segmentMarks(
+  tokens: string[],
+  start: number,
+  length: number,
+  tier: Tier,
+  target: TierCondition['target'],
+  allMarks: Set<string>
+): string[] | null {
+  // The segment span [first, last] whose marks we want
+  let first = start;
+  let last = start + length - 1;
+  if (target === 'next') {
+    first = start + length;
+    while (first < tokens.length && allMarks.has(tokens[first])) first++;
+    if (first >= tokens.length) return null;
+    last = first;
+  } else if (target === 'previous') {
+    last = start - 1;
+    while (last >= 0 && allMarks.has(tokens[last])) last--;
+    if (last < 0) return null;
+    first = last;
+  }
+
+  const found: string[] = [];
+  if (tier.side === 'after') {
+    for (let k = last + 1; k < tokens.length && allMarks.has(tokens[k]); k++) {
+      if (tier.marks.includes(tokens[k])) found.push(tokens[k]);
+    }
+  } else {
+    for (let k = first - 1; k >= 0 && allMarks.has(tokens[k]); k--) {
+      if (tier.marks.includes(tokens[k])) found.push(tokens[k]);
+    }
+  }
+  return found;
+}
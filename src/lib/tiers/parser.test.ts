@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { parseTierDeclaration } from './parser';
+
+describe('parseTierDeclaration', () => {
+  it('should parse a tier with defaults', () => {
+    expect(parseTierDeclaration('tone = [H X]')).toEqual({
+      name: 'tone', marks: ['H', 'X'], scope: 'syllable', side: 'after'
+    });
+  });
+
+  it('should parse scope and side options', () => {
+    expect(parseTierDeclaration('stress = [ˈ ˌ] before')).toMatchObject({ scope: 'syllable', side: 'before' });
+    expect(parseTierDeclaration('length = ː segment')).toEqual({
+      name: 'length', marks: ['ː'], scope: 'segment', side: 'after'
+    });
+  });
+
+  it('should reject malformed declarations', () => {
+    expect(() => parseTierDeclaration('stress')).toThrow('Invalid tier declaration');
+    expect(() => parseTierDeclaration('stress = []')).toThrow('at least one mark');
+    expect(() => parseTierDeclaration('stress = [ˈ] sideways')).toThrow('Unknown tier option "sideways"');
+  });
+});
@@ -0,0 +1,35 @@
+import type { Tier } from '../types';
+
+/**
+ * Parses the body of a tier declaration (everything after "@tier").
+ *
+ * Format:
+ *   stress = [ˈ ˌ] before    (stress marks precede their syllable)
+ *   tone = [H X]             (tone marks follow their syllable)
+ *   length = [ː] segment     (length marks follow their segment)
+ *
+ * - Marks are listed as a class, or as a single mark without brackets
+ * - Options: `syllable` (default) or `segment` for what a mark attaches to,
+ *   `after` (default) or `before` for which side it is written on
+ */
+export function parseTierDeclaration(text: string): Tier {
+  const match = text.trim().match(/^([\w-]+)\s*=\s*(\[[^\]]*\]|\S+)\s*(.*)$/);
+  if (!match) {
+    throw new Error(`Invalid tier declaration "${text.trim()}" (expected NAME = [marks] [syllable|segment] [before|after])`);
+  }
+
+  const [, name, marksText, optionsText] = match;
+  const marks = marksText.replace(/^\[|\]$/g, '').trim().split(/\s+/).filter(m => m.length > 0);
+  if (marks.length === 0) {
+    throw new Error(`Tier "${name}" must have at least one mark`);
+  }
+
+  const tier: Tier = { name, marks, scope: 'syllable', side: 'after' };
+  for (const option of optionsText.split(/\s+/).filter(o => o.length > 0)) {
+    if (option === 'syllable' || option === 'segment') tier.scope = option;
+    else if (option === 'before' || option === 'after') tier.side = option;
+    else throw new Error(`Unknown tier option "${option}" for tier "${name}"`);
+  }
+
+  return tier;
+}
@@ -3,20 +3,156 @@ export interface Rule {
   to: string[];             // Target phoneme sequence (empty array for deletion)
   leftContext?: string[];   // Context before (e.g., ['t', 'h'] or ['#'] for word boundary)
   rightContext?: string[];  // Context after (e.g., ['t', 'h'] or ['#'] for word boundary)
+  source?: RuleSource;      // Where the rule was written (set by parseRules)
+  mode?: ApplicationMode;   // How matches are found (default: simultaneous)
+  position?: SyllablePosition;  // Only match segments in this syllable position
+  syllables?: SyllableCount;    // Only apply to words with this many syllables
+  tiers?: Tier[];               // Suprasegmental tiers declared for this rule
+  conditions?: TierCondition[]; // Required marks on those tiers
+  block?: RuleBlock;            // The named block the rule belongs to
+  exceptions?: string[];        // Source words the rule does not apply to
+  backReferences?: boolean;     // Expanded from a rule with C₁-style back-references
+}
+
+/**
+ * A named, ordered group of rules (e.g. a stage like "Proto-Canaanite").
+ * Every rule in the block shares the same object.
+ */
+export interface RuleBlock {
+  name: string;
+  line: number;             // 1-based line of the @block directive
+  period?: string;          // Date or period label, e.g. "c. 1200 BCE"
+  description?: string;
+  exceptions?: string[];    // Source words exempt from every rule in the block
+}
+
+/**
+ * The form of a word after the last rule of a block
+ */
+export interface BlockStage {
+  block: RuleBlock | null;  // null for rules before the first block
+  form: string;
+}
+
+/**
+ * How a rule scans the word:
+ * - simultaneous: all matches and contexts are found in the input before any change
+ * - ltr: iterative left to right; contexts see changes already made to the left
+ * - rtl: iterative right to left; contexts see changes already made to the right
+ */
+export type ApplicationMode = 'simultaneous' | 'ltr' | 'rtl';
+
+export type SyllablePosition = 'onset' | 'nucleus' | 'coda';
+
+export interface SyllableCount {
+  op: '=' | '<' | '>' | '<=' | '>=';
+  count: number;
+}
+
+/**
+ * A suprasegmental tier. Its marks (e.g. ˈ, H, ː) are written as their own
+ * tokens next to the syllable or segment they belong to.
+ */
+export interface Tier {
+  name: string;                  // e.g. 'stress', 'tone', 'length'
+  marks: string[];
+  scope: 'syllable' | 'segment'; // What a mark attaches to
+  side: 'before' | 'after';      // Which side of it the mark is written on
+}
+
+export interface TierCondition {
+  tier: string;                  // Tier name
+  value: string | null;          // Required mark, or null for no mark on this tier
+  target: 'this' | 'previous' | 'next';  // Which syllable or segment, relative to the match
+}
+
+export interface RuleSource {
+  line: number;             // 1-based line number in the rules text
+  start: number;            // 0-based column where the rule text starts on that line
+  end: number;              // 0-based column just past the end of the rule text
+  text: string;             // The rule as written, before variable substitution and expansion
+}
+
+export interface DerivationStep {
+  ruleIndex: number;        // Index of the rule in the Rule[] array
+  rule: Rule;
+  before: string[];         // Tokens before the rule was applied
+  after: string[];          // Tokens after the rule was applied
+  positions: number[];      // Indices into `before` where a match started
+  applied: boolean;         // Whether the rule changed anything
+  exempt?: boolean;         // Set when the input word is an exception to this rule
+}
+
+export interface Derivation {
+  input: string;
+  output: string;
+  steps: DerivationStep[];  // One step per rule, in application order
+  outputValid: boolean;     // Output fits the target phonotactics (true without them)
 }
 
 export interface TransformResult {
   output: string;
+  valid: boolean;           // Output fits the target phonotactics (true without them)
 }
 
 export interface ReverseResult {
   inputs: string[];
 }
 
+/**
+ * A possible source word found by the reverser
+ */
+export interface ReverseCandidate {
+  word: string;
+  exceptional: boolean;     // Only produces the target because it is a listed exception
+}
+
+/**
+ * Bounds on a backward search. Every limit is optional; without any, the
+ * search runs to completion.
+ */
+export interface ReverseLimits {
+  maxResults?: number;      // Stop after this many source words
+  timeoutMs?: number;       // Stop after this much time
+  maxCandidates?: number;   // Stop after exploring this many intermediate forms
+}
+
+/**
+ * How a backward search ended
+ */
+export interface ReverseSearchStatus {
+  complete: boolean;        // false if a limit cut the search short
+  limit?: 'results' | 'time' | 'candidates';  // Which limit, when incomplete
+  explored: number;         // Intermediate forms explored
+}
+
 export interface PhonemeSet {
   phonemes: string[];
 }
 
 export interface PhonotacticPattern {
   positions: string[][];  // Each position is an array of allowed phonemes
+  nucleus?: number;       // Index of the nucleus position, if the pattern has one
+  syllable?: boolean;     // Describes one syllable rather than a whole word (@scope syllable)
+  floating?: string[];    // Tier marks this pattern ignores wherever they occur
+}
+
+/**
+ * A word split into syllables by parsing it against phonotactic patterns
+ */
+export interface Syllabification {
+  starts: number[];                          // Token index where each syllable begins
+  positions: Array<SyllablePosition | null>; // Per token; null if its pattern has no nucleus
+}
+
+export type FeatureValue = '+' | '-' | '0';
+
+export interface FeatureSpec {
+  feature: string;          // Feature name (e.g., 'voice')
+  value: '+' | '-';         // Required or assigned value
+}
+
+export interface FeatureTable {
+  features: string[];       // Feature names, in column order
+  segments: Record<string, Record<string, FeatureValue>>;  // Phoneme → feature → value
 }
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { parseLexicon, lexiconRows, exportLexicon } from './lexicon';
+
+describe('parseLexicon', () => {
+  it('should read one word per line with optional glosses', () => {
+    expect(parseLexicon('# nouns\nkalb\tdog\n\nbayt  house, tent\nʔab\n')).toEqual([
+      { word: 'kalb', gloss: 'dog', line: 2 },
+      { word: 'bayt', gloss: 'house, tent', line: 4 },
+      { word: 'ʔab', line: 5 },
+    ]);
+  });
+
+  it('should handle Windows line endings', () => {
+    expect(parseLexicon('kalb\tdog\r\nbayt\r\n')).toEqual([
+      { word: 'kalb', gloss: 'dog', line: 1 },
+      { word: 'bayt', line: 2 },
+    ]);
+  });
+});
+
+describe('lexiconRows', () => {
+  const entries = parseLexicon('kalb\tdog\nbayt\nxyz');
+
+  it('should pair entries with forward outputs and errors', () => {
+    const rows = lexiconRows(entries, [
+      { word: 'kalb', output: 'kelev' },
+      { word: 'bayt', output: 'bet' },
+      { word: 'xyz', error: 'Cannot tokenize' },
+    ]);
+    expect(rows).toEqual([
+      { word: 'kalb', gloss: 'dog', outputs: ['kelev'] },
+      { word: 'bayt', outputs: ['bet'] },
+      { word: 'xyz', outputs: [], error: 'Cannot tokenize' },
+    ]);
+  });
+
+  it('should keep outputs that break the target phonotactics, flagged', () => {
+    const rows = lexiconRows(entries.slice(1, 2), [{ word: 'bayt', output: 'bt', invalid: true }]);
+    expect(rows).toEqual([{ word: 'bayt', outputs: ['bt'], invalid: true }]);
+  });
+
+  it('should keep every backward source and incomplete searches', () => {
+    const rows = lexiconRows(entries.slice(0, 1), [{ word: 'kalb', inputs: ['kalb', 'kalp'], incomplete: true }]);
+    expect(rows).toEqual([{ word: 'kalb', gloss: 'dog', outputs: ['kalb', 'kalp'], incomplete: true }]);
+  });
+});
+
+describe('exportLexicon', () => {
+  const rows = [
+    { word: 'kalb', gloss: 'dog, hound', outputs: ['kelev'] },
+    { word: 'bayt', gloss: 'say "house"', outputs: ['bet', 'bajit'], incomplete: true },
+    { word: 'xyz', outputs: [], error: 'Cannot tokenize' },
+  ];
+
+  it('should write CSV with quoting', () => {
+    expect(exportLexicon(rows, 'csv')).toBe(
+      'input,output,gloss,error\n' +
+      'kalb,kelev,"dog, hound",\n' +
+      'bayt,bet; bajit; …,"say ""house""",\n' +
+      'xyz,,,Cannot tokenize\n'
+    );
+  });
+
+  it('should write TSV without tabs or line breaks inside cells', () => {
+    expect(exportLexicon([{ word: 'kalb', gloss: 'dog\thound\nanimal', outputs: ['kelev'] }], 'tsv')).toBe(
+      'input\toutput\tgloss\terror\n' +
+      'kalb\tkelev\tdog hound animal\t\n'
+    );
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Word lists for batch processing, and export of their results
+ *
+ * Lexicon format, one entry per line:
+ *   kalb	dog
+ *   bayt  house, tent
+ *   ʔab
+ *
+ * The word comes first; anything after the first tab (or, without a tab,
+ * the first run of spaces) is its gloss. Lines starting with # are
+ * comments; empty lines are ignored.
+ */
+
+import type { AnalysisEntry } from '../workers/protocol';
+
+export interface LexiconEntry {
+  word: string;
+  gloss?: string;
+  line: number;             // 1-based line in the pasted or uploaded text
+}
+
+/**
+ * One processed lexicon entry: its outputs (one forward, any number
+ * backward) or the error that stopped it
+ */
+export interface LexiconRow {
+  word: string;
+  gloss?: string;
+  outputs: string[];
+  incomplete?: boolean;     // A search limit cut the backward search short
+  invalid?: boolean;        // The forward output breaks the target phonotactics
+  error?: string;
+}
+
+export type ExportFormat = 'csv' | 'tsv';
+
+export function parseLexicon(text: string): LexiconEntry[] {
+  const entries: LexiconEntry[] = [];
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '' || line.startsWith('#')) continue;
+
+    const tab = line.indexOf('\t');
+    const [word, gloss] = tab !== -1
+      ? [line.substring(0, tab).trim(), line.substring(tab + 1).trim()]
+      : splitAtSpace(line);
+    entries.push(gloss ? { word, gloss, line: i + 1 } : { word, line: i + 1 });
+  }
+
+  return entries;
+}
+
+function splitAtSpace(line: string): [string, string] {
+  const match = line.match(/^(\S+)\s+(.*)$/);
+  return match ? [match[1], match[2]] : [line, ''];
+}
+
+/**
+ * Pairs lexicon entries with their analyses (matched by position)
+ */
+export function lexiconRows(entries: LexiconEntry[], analyses: AnalysisEntry[]): LexiconRow[] {
+  return analyses.map((analysis, i) => {
+    const row: LexiconRow = { word: entries[i].word, outputs: [] };
+    if (entries[i].gloss !== undefined) row.gloss = entries[i].gloss;
+    if (analysis.error !== undefined) row.error = analysis.error;
+    else row.outputs = analysis.output !== undefined ? [analysis.output] : analysis.inputs ?? [];
+    if (analysis.incomplete) row.incomplete = true;
+    if (analysis.invalid) row.invalid = true;
+    return row;
+  });
+}
+
+/**
+ * Writes rows as CSV (RFC 4180 quoting) or TSV. Several outputs share one
+ * cell, separated by "; ".
+ */
+export function exportLexicon(rows: LexiconRow[], format: ExportFormat): string {
+  const cell = format === 'csv' ? csvCell : tsvCell;
+  const separator = format === 'csv' ? ',' : '\t';
+  const lines = [['input', 'output', 'gloss', 'error']];
+  for (const row of rows) {
+    const outputs = row.outputs.join('; ') + (row.incomplete ? '; …' : '');
+    lines.push([row.word, outputs, row.gloss ?? '', row.error ?? '']);
+  }
+  return lines.map(fields => fields.map(cell).join(separator)).join('\n') + '\n';
+}
+
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// TSV has no quoting, so tabs and line breaks inside a cell become spaces
+function tsvCell(value: string): string {
+  return value.replace(/[\t\r\n]+/g, ' ');
+}
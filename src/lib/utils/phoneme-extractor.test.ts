@@ -24,6 +24,13 @@ describe('extractPhonemes', () => {
     expect(result.target).toContain('n');
   });
 
+  it('should not treat syllable boundaries as phonemes', () => {
+    const result = extractPhonemes('t > ʔ / _ $\nk > g / $ _ a');
+
+    expect(result.source).toEqual(['a', 'k', 't']);
+    expect(result.target).toEqual(['a', 'g', 'ʔ']);
+  });
+
   it('should identify intermediate phonemes', () => {
     const rules = `
       a > b;
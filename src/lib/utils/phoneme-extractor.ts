@@ -1,4 +1,5 @@
 import { parseRules } from '../rules/parser';
+import type { ParseOptions } from '../rules/parser';
 import type { Rule } from '../types';
 
 /**
@@ -41,7 +42,7 @@ function tokenizePhonemes(str: string, knownPhonemes: Set<string>): string[] {
  * - target: phonemes that exist in the target language (output)
  * - intermediate: phonemes that are produced and consumed by rules (don't appear in final inventories)
  */
-export function extractPhonemes(rulesText: string): {
+export function extractPhonemes(rulesText: string, options: ParseOptions = {}): {
   source: string[];
   target: string[];
   intermediate: string[];
@@ -52,7 +53,7 @@ export function extractPhonemes(rulesText: string): {
   };
 } {
   // Parse the rules using the actual parser (handles variables, classes, etc.)
-  const rules = parseRules(rulesText);
+  const rules = parseRules(rulesText, options);
 
   // First pass: collect all phonemes to build the known phonemes set
   const allPhonemes = new Set<string>();
@@ -64,10 +65,10 @@ export function extractPhonemes(rulesText: string): {
 
     // Add context phonemes
     if (rule.leftContext) {
-      rule.leftContext.filter(t => t !== '#').forEach(t => allPhonemes.add(t));
+      rule.leftContext.filter(t => t !== '#' && t !== '$').forEach(t => allPhonemes.add(t));
     }
     if (rule.rightContext) {
-      rule.rightContext.filter(t => t !== '#').forEach(t => allPhonemes.add(t));
+      rule.rightContext.filter(t => t !== '#' && t !== '$').forEach(t => allPhonemes.add(t));
     }
   }
 
@@ -109,13 +110,13 @@ export function extractPhonemes(rulesText: string): {
 
     if (rule.leftContext) {
       rule.leftContext.forEach(p => {
-        if (p !== '#') appearsInContext.add(p);
+        if (p !== '#' && p !== '$') appearsInContext.add(p);
       });
     }
 
     if (rule.rightContext) {
       rule.rightContext.forEach(p => {
-        if (p !== '#') appearsInContext.add(p);
+        if (p !== '#' && p !== '$') appearsInContext.add(p);
       });
     }
   }
@@ -0,0 +1,12 @@
+import { createAnalysisHandler } from './handler';
+import type { WorkerRequest, WorkerResponse } from './protocol';
+
+// The app is type-checked against the DOM library, which has no dedicated
+// worker scope; this is the part of it the worker uses
+const scope = self as unknown as {
+  postMessage(message: WorkerResponse): void;
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+const handle = createAnalysisHandler(message => scope.postMessage(message));
+scope.onmessage = event => handle(event.data);
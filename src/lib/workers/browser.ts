@@ -0,0 +1,18 @@
+import { createWorkerPool, webWorkerPort, type WorkerPool } from './pool';
+
+let shared: WorkerPool | null = null;
+
+/**
+ * The app's pool of analysis Web Workers, created on first use with one
+ * worker per core (at most four, leaving a core for the UI)
+ */
+export function browserWorkerPool(): WorkerPool {
+  if (!shared) {
+    const size = Math.min(4, Math.max(1, (navigator.hardwareConcurrency ?? 2) - 1));
+    shared = createWorkerPool(
+      () => webWorkerPort(new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' })),
+      size
+    );
+  }
+  return shared;
+}
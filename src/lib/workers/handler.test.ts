@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { createAnalysisHandler } from './handler';
+import type { AnalysisSetup, WorkerResponse } from './protocol';
+import type { PhonotacticPattern } from '../types';
+import { parseRules } from '../rules/parser';
+
+const setup: AnalysisSetup = {
+  rules: parseRules('[b c] > a'),
+  sourcePhonemes: ['a', 'b', 'c'],
+  targetPhonemes: ['a'],
+  sourcePhonotactics: null,
+  targetPhonotactics: null,
+};
+
+// Runs the handler until the job is done and returns what it posted
+async function run(messages: Parameters<ReturnType<typeof createAnalysisHandler>>[0][]): Promise<WorkerResponse[]> {
+  const posted: WorkerResponse[] = [];
+  const handle = createAnalysisHandler(message => posted.push(message));
+  messages.forEach(handle);
+  await new Promise<void>(resolve => {
+    const check = () => (posted.some(m => m.type !== 'progress') ? resolve() : setTimeout(check, 1));
+    check();
+  });
+  return posted;
+}
+
+describe('createAnalysisHandler', () => {
+  it('should apply rules forward for a loaded session', async () => {
+    const posted = await run([
+      { type: 'load', session: 1, setup },
+      { type: 'analyze', job: 2, session: 1, direction: 'forward', words: ['ab', 'x'] },
+    ]);
+    expect(posted).toEqual([
+      { type: 'progress', job: 2, entries: [{ word: 'ab', output: 'aa' }, { word: 'x', error: expect.stringContaining('Cannot tokenize') }] },
+      { type: 'done', job: 2, cancelled: false },
+    ]);
+  });
+
+  it('should flag forward outputs that break the target phonotactics', async () => {
+    const posted = await run([
+      { type: 'load', session: 1, setup: { ...setup, targetPhonotactics: [{ positions: [['a'], ['a']] }] } },
+      { type: 'analyze', job: 2, session: 1, direction: 'forward', words: ['ab', 'b'] },
+    ]);
+    expect(posted[0]).toEqual({
+      type: 'progress', job: 2, entries: [{ word: 'ab', output: 'aa' }, { word: 'b', output: 'a', invalid: true }],
+    });
+  });
+
+  it('should reverse words and report incomplete searches', async () => {
+    const posted = await run([
+      { type: 'load', session: 1, setup },
+      { type: 'analyze', job: 2, session: 1, direction: 'backward', words: ['a', 'aa'], limits: { maxResults: 2 } },
+    ]);
+    expect(posted[0]).toEqual({
+      type: 'progress', job: 2,
+      entries: [{ word: 'a', inputs: ['a', 'b'], incomplete: true }, { word: 'aa', inputs: ['aa', 'ab'], incomplete: true }],
+    });
+  });
+
+  it('should stop a cancelled job at the next chunk', async () => {
+    const words = Array.from({ length: 200 }, () => 'ab');
+    const posted: WorkerResponse[] = [];
+    const handle = createAnalysisHandler(message => posted.push(message));
+    handle({ type: 'load', session: 1, setup });
+    handle({ type: 'analyze', job: 2, session: 1, direction: 'forward', words });
+    handle({ type: 'cancel', job: 2 });
+    await new Promise<void>(resolve => {
+      const check = () => (posted.some(m => m.type === 'done') ? resolve() : setTimeout(check, 1));
+      check();
+    });
+    expect(posted.filter(m => m.type === 'progress')).toHaveLength(1);
+    expect(posted[posted.length - 1]).toEqual({ type: 'done', job: 2, cancelled: true });
+  });
+
+  it('should report jobs for unknown sessions', async () => {
+    const posted = await run([{ type: 'analyze', job: 2, session: 9, direction: 'forward', words: ['a'] }]);
+    expect(posted).toEqual([{ type: 'error', job: 2, message: 'No session 9' }]);
+  });
+
+  it('should generate words from phonotactics', async () => {
+    const posted = await run([{ type: 'generate', job: 3, phonotactics: [{ positions: [['p', 't'], ['a']] }] }]);
+    expect(posted).toEqual([{ type: 'words', job: 3, words: ['pa', 'ta'] }]);
+  });
+
+  it('should report a generation that fails', async () => {
+    const phonotactics = [{ positions: null }] as unknown as PhonotacticPattern[];
+    const posted = await run([{ type: 'generate', job: 3, phonotactics }]);
+    expect(posted).toEqual([{ type: 'error', job: 3, message: expect.any(String) }]);
+  });
+});
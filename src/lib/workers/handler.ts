@@ -0,0 +1,100 @@
+import type { ReverseCandidate, ReverseLimits, ReverseSearchStatus } from '../types';
+import type { AnalysisDirection, AnalysisEntry, AnalysisSetup, WorkerRequest, WorkerResponse } from './protocol';
+import { applyRulesChecked } from '../rules/engine';
+import { createLazyReverser, collectCandidates } from '../rules/reverser';
+import { generateAllWords } from '../utils/word-generator';
+
+// Words analyzed between progress messages. The worker also checks for
+// cancellation between chunks.
+const CHUNK_SIZE = 50;
+
+interface Session {
+  setup: AnalysisSetup;
+  search?: (word: string, limits?: ReverseLimits) => Generator<ReverseCandidate, ReverseSearchStatus>;
+}
+
+/**
+ * Creates the worker side of the analysis protocol. It does not depend on
+ * the environment: the caller passes each incoming message to the returned
+ * function, and `post` sends responses back (e.g. self.postMessage in a Web
+ * Worker, parentPort.postMessage in a Node worker thread).
+ */
+export function createAnalysisHandler(post: (message: WorkerResponse) => void): (message: WorkerRequest) => void {
+  const sessions = new Map<number, Session>();
+  const running = new Set<number>();
+  const cancelled = new Set<number>();
+
+  async function analyze(job: number, session: Session, direction: AnalysisDirection, words: string[], limits?: ReverseLimits) {
+    for (let i = 0; i < words.length; i += CHUNK_SIZE) {
+      // Let cancel messages that arrived meanwhile be handled
+      if (i > 0) await new Promise<void>(resolve => setTimeout(resolve, 0));
+      if (cancelled.has(job)) {
+        finish(job);
+        post({ type: 'done', job, cancelled: true });
+        return;
+      }
+      const chunk = words.slice(i, i + CHUNK_SIZE);
+      post({ type: 'progress', job, entries: chunk.map(word => analyzeWord(session, direction, word, limits)) });
+    }
+    finish(job);
+    post({ type: 'done', job, cancelled: false });
+  }
+
+  function finish(job: number) {
+    running.delete(job);
+    cancelled.delete(job);
+  }
+
+  return function handle(message: WorkerRequest): void {
+    switch (message.type) {
+      case 'load':
+        sessions.set(message.session, { setup: message.setup });
+        break;
+      case 'unload':
+        sessions.delete(message.session);
+        break;
+      case 'cancel':
+        // A job may have finished before its cancel arrived
+        if (running.has(message.job)) cancelled.add(message.job);
+        break;
+      case 'generate':
+        // The pool waits for an answer, so a failure must be one
+        try {
+          post({ type: 'words', job: message.job, words: generateAllWords(message.phonotactics) });
+        } catch (e) {
+          post({ type: 'error', job: message.job, message: e instanceof Error ? e.message : String(e) });
+        }
+        break;
+      case 'analyze': {
+        const session = sessions.get(message.session);
+        if (!session) {
+          post({ type: 'error', job: message.job, message: `No session ${message.session}` });
+          break;
+        }
+        running.add(message.job);
+        void analyze(message.job, session, message.direction, message.words, message.limits);
+        break;
+      }
+    }
+  };
+}
+
+/**
+ * Applies (forward) or reverses (backward) the session's rules for one word.
+ * Errors become entries, so one bad word does not stop an analysis.
+ */
+function analyzeWord(session: Session, direction: AnalysisDirection, word: string, limits?: ReverseLimits): AnalysisEntry {
+  const { rules, sourcePhonemes, targetPhonemes, sourcePhonotactics, targetPhonotactics } = session.setup;
+  try {
+    if (direction === 'forward') {
+      const { output, valid } = applyRulesChecked(word, rules, sourcePhonemes, targetPhonemes, sourcePhonotactics, targetPhonotactics);
+      return valid ? { word, output } : { word, output, invalid: true };
+    }
+    session.search ??= createLazyReverser(rules, sourcePhonemes, targetPhonemes, sourcePhonotactics, targetPhonotactics);
+    const { candidates, status } = collectCandidates(session.search(word, limits));
+    const inputs = candidates.map(c => c.word);
+    return status.complete ? { word, inputs } : { word, inputs, incomplete: true };
+  } catch (e) {
+    return { word, error: e instanceof Error ? e.message : 'Error' };
+  }
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { createWorkerPool, type WorkerPort } from './pool';
+import { createAnalysisHandler } from './handler';
+import type { AnalysisEntry, AnalysisSetup, WorkerRequest, WorkerResponse } from './protocol';
+import { parseRules } from '../rules/parser';
+
+// A worker in the same thread: messages are copied and delivered
+// asynchronously, as they would be between threads
+function inProcessPort(log: WorkerRequest[] = []): WorkerPort {
+  let listener: (message: WorkerResponse) => void = () => {};
+  const handle = createAnalysisHandler(message => {
+    const copy = structuredClone(message);
+    setTimeout(() => listener(copy), 0);
+  });
+  return {
+    post: message => {
+      log.push(message);
+      const copy = structuredClone(message);
+      setTimeout(() => handle(copy), 0);
+    },
+    listen: handler => { listener = handler; },
+    terminate: () => {},
+  };
+}
+
+// A worker that answers every job with an error
+function failingJobsPort(log: WorkerRequest[]): WorkerPort {
+  let listener: (message: WorkerResponse) => void = () => {};
+  return {
+    post: message => {
+      log.push(message);
+      if (message.type === 'analyze') setTimeout(() => listener({ type: 'error', job: message.job, message: 'Out of memory' }), 0);
+    },
+    listen: handler => { listener = handler; },
+    terminate: () => {},
+  };
+}
+
+// A worker that crashes on its first job, without answering it
+function crashingPort(terminated: { count: number }): WorkerPort {
+  let onFailure: (error: Error) => void = () => {};
+  return {
+    post: message => {
+      if (message.type === 'analyze' || message.type === 'generate') setTimeout(() => onFailure(new Error('Worker crashed')), 0);
+    },
+    listen: (_handler, failure) => { onFailure = failure; },
+    terminate: () => { terminated.count++; },
+  };
+}
+
+const setup: AnalysisSetup = {
+  rules: parseRules('@mode ltr\nV = [a e]\nV > e / e _\n[b c] > a'),
+  sourcePhonemes: ['a', 'b', 'c', 'e'],
+  targetPhonemes: ['a', 'e'],
+  sourcePhonotactics: null,
+  targetPhonotactics: null,
+};
+
+describe('createWorkerPool', () => {
+  it('should analyze every word in order across workers', async () => {
+    const pool = createWorkerPool(() => inProcessPort(), 3);
+    const words = ['ea', 'eaa', 'ab', 'bc', 'eb', 'x', 'a'];
+    const { entries, cancelled } = await pool.analyze(setup, 'forward', words, { batchSize: 2 }).result;
+    expect(cancelled).toBe(false);
+    expect(entries.map(e => e.word)).toEqual(words);
+    expect(entries.map(e => e.output)).toEqual(['ee', 'eee', 'aa', 'aa', 'ea', undefined, 'a']);
+    expect(entries[5].error).toBeDefined();
+  });
+
+  it('should send the setup once per worker and analysis', async () => {
+    const logs: WorkerRequest[][] = [];
+    const pool = createWorkerPool(() => {
+      const log: WorkerRequest[] = [];
+      logs.push(log);
+      return inProcessPort(log);
+    }, 2);
+    await pool.analyze(setup, 'forward', Array.from({ length: 10 }, () => 'ab'), { batchSize: 1 }).result;
+    for (const log of logs) {
+      expect(log.filter(m => m.type === 'load')).toHaveLength(1);
+      expect(log.filter(m => m.type === 'unload')).toHaveLength(1);
+    }
+    expect(logs.flat().filter(m => m.type === 'analyze')).toHaveLength(10);
+  });
+
+  it('should reverse words', async () => {
+    const pool = createWorkerPool(() => inProcessPort(), 2);
+    const { entries } = await pool.analyze(setup, 'backward', ['aa', 'ee'], { batchSize: 1 }).result;
+    expect(entries[0].inputs).toEqual(['aa', 'ab', 'ac', 'ba', 'bb', 'bc', 'ca', 'cb', 'cc']);
+    expect(entries[1].inputs).toEqual(['ea', 'ee']);
+  });
+
+  it('should report progress', async () => {
+    const pool = createWorkerPool(() => inProcessPort(), 2);
+    const seen: AnalysisEntry[][] = [];
+    await pool.analyze(setup, 'forward', ['ab', 'ba', 'ea'], { batchSize: 1, progressInterval: 0, onProgress: e => seen.push(e) }).result;
+    expect(seen.map(e => e.length)).toEqual([1, 2, 3]);
+  });
+
+  it('should keep the entries analyzed before a cancel', async () => {
+    const pool = createWorkerPool(() => inProcessPort(), 1);
+    const job = pool.analyze(setup, 'forward', Array.from({ length: 1000 }, () => 'ab'), {
+      batchSize: 100,
+      progressInterval: 0,
+      onProgress: () => job.cancel(),
+    });
+    const { entries, cancelled } = await job.result;
+    expect(cancelled).toBe(true);
+    expect(entries.length).toBeGreaterThan(0);
+    expect(entries.length).toBeLessThan(1000);
+  });
+
+  it('should finish at once when there are no words', async () => {
+    const pool = createWorkerPool(() => inProcessPort(), 2);
+    expect(await pool.analyze(setup, 'forward', []).result).toEqual({ entries: [], cancelled: false });
+  });
+
+  it('should stop the whole analysis when a batch fails', async () => {
+    const logs: WorkerRequest[][] = [[], []];
+    let spawned = 0;
+    const pool = createWorkerPool(() => {
+      const log = logs[spawned++];
+      return spawned === 1 ? failingJobsPort(log) : inProcessPort(log);
+    }, 2);
+    const words = Array.from({ length: 20 }, () => 'ab');
+    await expect(pool.analyze(setup, 'forward', words, { batchSize: 1 }).result).rejects.toThrow('Out of memory');
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(logs.flat().filter(m => m.type === 'analyze').length).toBeLessThan(words.length);
+    expect(logs[1].some(m => m.type === 'cancel')).toBe(true);
+    for (const log of logs) expect(log.filter(m => m.type === 'unload')).toHaveLength(1);
+  });
+
+  it('should reject the jobs of a worker that crashes, and replace it', async () => {
+    const terminated = { count: 0 };
+    let spawned = 0;
+    const pool = createWorkerPool(() => (spawned++ === 0 ? crashingPort(terminated) : inProcessPort()), 1);
+    await expect(pool.generate([{ positions: [['p'], ['a']] }])).rejects.toThrow('Worker crashed');
+    expect(terminated.count).toBe(1);
+    expect(spawned).toBe(2);
+    expect(await pool.generate([{ positions: [['p'], ['a']] }])).toEqual(['pa']);
+  });
+
+  it('should reject a job that cannot be sent', async () => {
+    const pool = createWorkerPool(() => ({
+      post: message => { if (message.type === 'generate') throw new Error('Could not be cloned'); },
+      listen: () => {},
+      terminate: () => {},
+    }), 1);
+    await expect(pool.generate(null)).rejects.toThrow('Could not be cloned');
+  });
+
+  it('should fail an analysis whose worker crashes', async () => {
+    const pool = createWorkerPool(() => crashingPort({ count: 0 }), 2);
+    await expect(pool.analyze(setup, 'forward', ['ab', 'ba', 'ea'], { batchSize: 1 }).result).rejects.toThrow('Worker crashed');
+  });
+
+  it('should generate words in a worker', async () => {
+    const pool = createWorkerPool(() => inProcessPort(), 2);
+    expect(await pool.generate([{ positions: [['p', 't'], ['a', 'i']] }])).toEqual(['pa', 'pi', 'ta', 'ti']);
+  });
+});
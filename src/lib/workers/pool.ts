@@ -0,0 +1,228 @@
+import type { PhonotacticPattern, ReverseLimits } from '../types';
+import type { AnalysisDirection, AnalysisEntry, AnalysisSetup, WorkerRequest, WorkerResponse } from './protocol';
+
+/**
+ * One worker as the pool sees it, whatever kind of worker it is
+ */
+export interface WorkerPort {
+  post(message: WorkerRequest): void;
+  // `onFailure` is called if the worker fails to load, crashes or exits
+  listen(handler: (message: WorkerResponse) => void, onFailure: (error: Error) => void): void;
+  terminate(): void;
+}
+
+/**
+ * The parts of a Node worker_threads Worker the pool uses, so that this
+ * module does not depend on Node's types
+ */
+export interface NodeWorkerLike {
+  postMessage(message: WorkerRequest): void;
+  on(event: 'message', listener: (message: WorkerResponse) => void): unknown;
+  on(event: 'error', listener: (error: Error) => void): unknown;
+  on(event: 'exit', listener: (exitCode: number) => void): unknown;
+  terminate(): unknown;
+}
+
+export function webWorkerPort(worker: Worker): WorkerPort {
+  return {
+    post: message => worker.postMessage(message),
+    listen: (handler, onFailure) => {
+      worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => handler(event.data));
+      worker.addEventListener('error', event => onFailure(new Error(event.message || 'The worker failed')));
+      worker.addEventListener('messageerror', () => onFailure(new Error('A message from the worker could not be read')));
+    },
+    terminate: () => worker.terminate(),
+  };
+}
+
+export function nodeWorkerPort(worker: NodeWorkerLike): WorkerPort {
+  return {
+    post: message => worker.postMessage(message),
+    listen: (handler, onFailure) => {
+      worker.on('message', handler);
+      worker.on('error', onFailure);
+      worker.on('exit', exitCode => onFailure(new Error(`The worker exited with code ${exitCode}`)));
+    },
+    terminate: () => { worker.terminate(); },
+  };
+}
+
+export interface AnalysisOptions {
+  limits?: ReverseLimits;      // Per-word bounds on backward search
+  batchSize?: number;          // Words handed to a worker at a time (default 200)
+  progressInterval?: number;   // Minimum milliseconds between onProgress calls (default 100)
+  onProgress?: (entries: AnalysisEntry[]) => void;
+}
+
+export interface AnalysisJob {
+  // Entries in word order; after a cancel, only the words analyzed so far
+  result: Promise<{ entries: AnalysisEntry[]; cancelled: boolean }>;
+  cancel(): void;
+}
+
+export interface WorkerPool {
+  size: number;
+  analyze(setup: AnalysisSetup, direction: AnalysisDirection, words: string[], options?: AnalysisOptions): AnalysisJob;
+  generate(phonotactics: PhonotacticPattern[] | null): Promise<string[]>;
+  terminate(): void;
+}
+
+/**
+ * Creates a pool of analysis workers.
+ *
+ * An analysis loads its setup into every worker once, then hands out batches
+ * of words to whichever worker is free. Progress arrives as workers finish
+ * chunks of a batch; cancelling stops every worker at its next chunk. An
+ * error stops the whole analysis.
+ *
+ * A worker that fails is replaced, and every job it was running gets an
+ * error, as if the worker had sent one.
+ */
+export function createWorkerPool(spawn: () => WorkerPort, size: number): WorkerPool {
+  const ports: WorkerPort[] = [];
+  const handlers = new Map<number, (message: WorkerResponse) => void>();
+  const owners = new Map<number, WorkerPort>();  // The worker each unanswered job was sent to
+  let nextId = 1;
+  let terminated = false;
+
+  const start = (index: number) => {
+    const port = spawn();
+    ports[index] = port;
+    port.listen(
+      message => {
+        if (message.type !== 'progress') owners.delete(message.job);
+        handlers.get(message.job)?.(message);
+      },
+      error => {
+        // Terminating a worker can report it too
+        if (terminated || ports[index] !== port) return;
+        start(index);
+        port.terminate();
+        for (const [job, owner] of owners) {
+          if (owner !== port) continue;
+          owners.delete(job);
+          handlers.get(job)?.({ type: 'error', job, message: error.message });
+        }
+      }
+    );
+  };
+  for (let index = 0; index < Math.max(1, size); index++) start(index);
+
+  // A message that cannot be sent (e.g. one that cannot be cloned) fails its job
+  const send = (port: WorkerPort, message: Extract<WorkerRequest, { type: 'analyze' | 'generate' }>) => {
+    owners.set(message.job, port);
+    try {
+      port.post(message);
+    } catch (e) {
+      owners.delete(message.job);
+      handlers.get(message.job)?.({ type: 'error', job: message.job, message: e instanceof Error ? e.message : String(e) });
+    }
+  };
+
+  function analyze(
+    setup: AnalysisSetup,
+    direction: AnalysisDirection,
+    words: string[],
+    { limits, batchSize = 200, progressInterval = 100, onProgress }: AnalysisOptions = {}
+  ): AnalysisJob {
+    const session = nextId++;
+    for (const port of ports) port.post({ type: 'load', session, setup });
+
+    const batches: string[][] = [];
+    for (let i = 0; i < words.length; i += batchSize) batches.push(words.slice(i, i + batchSize));
+    const results: AnalysisEntry[][] = batches.map(() => []);
+    const queue = batches.map((_, index) => index);
+    const running = new Map<number, WorkerPort>();
+    let cancelled = false;
+    let failed = false;
+    let lastProgress = 0;
+    let finish: (result: { entries: AnalysisEntry[]; cancelled: boolean }) => void = () => {};
+    let fail: (error: Error) => void = () => {};
+
+    const collected = () => results.flat();
+
+    const settle = () => {
+      for (const port of ports) port.post({ type: 'unload', session });
+      finish({ entries: collected(), cancelled });
+    };
+
+    // The other workers stop at their next chunk; their results are dropped
+    const abort = (error: Error) => {
+      failed = true;
+      queue.length = 0;
+      for (const [job, port] of running) port.post({ type: 'cancel', job });
+      for (const port of ports) port.post({ type: 'unload', session });
+      fail(error);
+    };
+
+    const dispatch = (port: WorkerPort) => {
+      const index = queue.shift();
+      if (index === undefined) {
+        if (running.size === 0 && !failed) settle();
+        return;
+      }
+      const job = nextId++;
+      running.set(job, port);
+      handlers.set(job, message => {
+        if (message.type === 'progress') {
+          results[index].push(...message.entries);
+          const now = Date.now();
+          if (onProgress && now - lastProgress >= progressInterval) {
+            lastProgress = now;
+            onProgress(collected());
+          }
+        } else if (message.type === 'done') {
+          handlers.delete(job);
+          running.delete(job);
+          dispatch(port);
+        } else if (message.type === 'error') {
+          handlers.delete(job);
+          running.delete(job);
+          if (!failed) abort(new Error(message.message));
+        }
+      });
+      send(port, { type: 'analyze', job, session, direction, words: batches[index], limits });
+    };
+
+    const result = new Promise<{ entries: AnalysisEntry[]; cancelled: boolean }>((resolve, reject) => {
+      finish = resolve;
+      fail = reject;
+    });
+    if (batches.length === 0) settle();
+    else ports.forEach(dispatch);
+
+    return {
+      result,
+      cancel() {
+        if (cancelled) return;
+        cancelled = true;
+        queue.length = 0;
+        for (const [job, port] of running) port.post({ type: 'cancel', job });
+      },
+    };
+  }
+
+  function generate(phonotactics: PhonotacticPattern[] | null): Promise<string[]> {
+    const job = nextId++;
+    return new Promise((resolve, reject) => {
+      handlers.set(job, message => {
+        handlers.delete(job);
+        if (message.type === 'words') resolve(message.words);
+        else if (message.type === 'error') reject(new Error(message.message));
+      });
+      send(ports[job % ports.length], { type: 'generate', job, phonotactics });
+    });
+  }
+
+  return {
+    size: ports.length,
+    analyze,
+    generate,
+    terminate() {
+      terminated = true;
+      handlers.clear();
+      owners.clear();
+      for (const port of ports) port.terminate();
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import type { PhonotacticPattern, Rule, ReverseLimits } from '../types';
+
+/**
+ * Messages between the main thread and analysis workers.
+ *
+ * Every message is structured-cloneable, so the same protocol works with
+ * browser Web Workers and Node worker_threads. A session holds one analysis's
+ * rules and phoneme sets: it is loaded once per worker and then referred to
+ * by id, so the rules are not copied again for every batch of words.
+ */
+
+/**
+ * Everything a worker needs to apply or reverse rules
+ */
+export interface AnalysisSetup {
+  rules: Rule[];
+  sourcePhonemes: string[];
+  targetPhonemes: string[];
+  sourcePhonotactics: PhonotacticPattern[] | null;
+  targetPhonotactics: PhonotacticPattern[] | null;
+}
+
+export type AnalysisDirection = 'forward' | 'backward';
+
+/**
+ * The analysis of one word: its output (forward), its possible sources
+ * (backward), or why it has neither
+ */
+export interface AnalysisEntry {
+  word: string;
+  output?: string;
+  inputs?: string[];
+  incomplete?: boolean;     // A search limit cut the backward search short
+  invalid?: boolean;        // The forward output breaks the target phonotactics
+  error?: string;
+}
+
+export type WorkerRequest =
+  | { type: 'load'; session: number; setup: AnalysisSetup }
+  | { type: 'unload'; session: number }
+  | { type: 'analyze'; job: number; session: number; direction: AnalysisDirection; words: string[]; limits?: ReverseLimits }
+  | { type: 'generate'; job: number; phonotactics: PhonotacticPattern[] | null }
+  | { type: 'cancel'; job: number };
+
+export type WorkerResponse =
+  | { type: 'progress'; job: number; entries: AnalysisEntry[] }   // Entries for the next words of the job, in order
+  | { type: 'done'; job: number; cancelled: boolean }
+  | { type: 'words'; job: number; words: string[] }
+  | { type: 'error'; job: number; message: string };